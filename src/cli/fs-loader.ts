@@ -4,10 +4,16 @@
  * Provides Node.js-compatible versions of loaders that use fs instead of fetch.
  */
 
-import { readFile } from 'node:fs/promises';
+import { createReadStream, openAsBlob } from 'node:fs';
+import { open, readFile } from 'node:fs/promises';
 import { resolve } from 'node:path';
-import type { SNPList } from '../types';
+import type { ListValidationReport, ParseResult, SNPList, SNPListOverlay } from '../types';
 import { validateSNPList } from '../snp-list/validation';
+import { checkSNPListFile, parseSNPListFile } from '../snp-list/import';
+import { parseSNPListOverlayFile } from '../snp-list/overlay';
+import { isCompressed, openGenomeStream } from '../parser/archive';
+import { parseGenomeChunks, parseGenomeStream } from '../parser';
+import type { StreamParseOptions } from '../parser';
 
 /**
  * Load the free tier SNP list from file system
@@ -33,12 +39,82 @@ export async function loadFreeSNPListFromFS(basePath: string): Promise<SNPList>
 }
 
 /**
- * Read a genome file from the file system
+ * Load a user-supplied SNP list (JSON, CSV or TSV) from file system
  */
-export async function readGenomeFile(filePath: string): Promise<string> {
+export async function loadSNPListFromFS(filePath: string): Promise<SNPList> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (err) {
+    throw new Error(`Failed to read SNP list from ${filePath}: ${err}`);
+  }
+
+  return parseSNPListFile(content, filePath);
+}
+
+/**
+ * Check a SNP list file (JSON, CSV or TSV) from file system and report every problem
+ */
+export async function checkSNPListFileFromFS(filePath: string): Promise<ListValidationReport> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (err) {
+    throw new Error(`Failed to read SNP list from ${filePath}: ${err}`);
+  }
+
+  return checkSNPListFile(content, filePath);
+}
+
+/**
+ * Load a SNP list overlay (or a whole list used as one) from file system
+ */
+export async function loadSNPListOverlayFromFS(filePath: string): Promise<SNPListOverlay> {
+  let content: string;
   try {
-    return await readFile(filePath, 'utf-8');
+    content = await readFile(filePath, 'utf-8');
+  } catch (err) {
+    throw new Error(`Failed to read overlay from ${filePath}: ${err}`);
+  }
+
+  return parseSNPListOverlayFile(content, filePath);
+}
+
+/**
+ * Parse a genome file from the file system
+ * Files are streamed through the incremental parser; compressed archives are
+ * inflated as they are read. Progress counts bytes of the file on disk.
+ */
+export async function parseGenomeFileFromFS(
+  filePath: string,
+  options: StreamParseOptions = {}
+): Promise<ParseResult> {
+  let header: Uint8Array;
+  let size: number;
+  try {
+    const handle = await open(filePath, 'r');
+    try {
+      size = (await handle.stat()).size;
+      const buffer = new Uint8Array(4);
+      const { bytesRead } = await handle.read(buffer, 0, 4, 0);
+      header = buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
   } catch (err) {
     throw new Error(`Failed to read genome file from ${filePath}: ${err}`);
   }
+
+  if (isCompressed(header)) {
+    const { onProgress, ...rest } = options;
+    let bytesRead = 0;
+    const stream = await openGenomeStream(await openAsBlob(filePath), (n) => (bytesRead = n));
+    return parseGenomeStream(stream, {
+      ...rest,
+      onProgress:
+        onProgress && ((progress) => onProgress({ ...progress, bytesRead, totalBytes: size })),
+    });
+  }
+
+  return parseGenomeChunks(createReadStream(filePath), { totalBytes: size, ...options });
 }
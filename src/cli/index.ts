@@ -5,59 +5,248 @@
  * Command-line interface for testing the SNP extraction pipeline.
  *
  * Usage:
- *   npx tsx src/cli/index.ts <genome-file> [options]
+ *   npx tsx src/cli/index.ts <genome-file>... [options]
+ *   npx tsx src/cli/index.ts qc <genome-file>... [--json] [--strict] [--output=<file>]
+ *   npx tsx src/cli/index.ts compare <genome-a> <genome-b> [--categories=...] [--json] [--output=<file>]
+ *   npx tsx src/cli/index.ts validate-list <list-file>... [--json] [--strict] [--output=<file>]
+ *   npx tsx src/cli/index.ts list-diff <old-list> <new-list> [--markdown|--json] [--output=<file>]
+ *
+ * Several genome files from the same person are merged into one call set,
+ * the first file's calls taking priority.
  *
  * Options:
  *   --format=detailed|compact|minimal  Output format (default: detailed)
- *   --categories=wellness|full|all     Category preset (default: wellness)
+ *   --categories=wellness|full|all     Category preset (default: wellness), or category paths
+ *   --tags=<tag>,...                   Only extract SNPs carrying one of these tags
  *   --output=<file>                    Write to file instead of stdout
  *   --json                             Output as JSON instead of YAML
+ *   --qc                               Include a QC report section in the output
+ *   --sex=female|male|unknown          Override the chromosomal sex inferred from the file
+ *   --strict                           Fail on the first line that cannot be parsed
+ *   --input-format=<format>            Read the genome file as this format instead of detecting it
+ *   --mother=<file> --father=<file>    Check the genome file against both parents' files (trio mode)
+ *   --snp-list=<file>                  Use a custom SNP list (JSON, CSV or TSV) instead of the free list
+ *   --overlay=<file>                   Add, override or exclude list entries (repeatable, applied in order)
  *   --quiet                            Suppress info messages
  */
 
 import { writeFile } from 'node:fs/promises';
-import { resolve, dirname } from 'node:path';
+import { basename, resolve, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 
-import { loadFreeSNPListFromFS, readGenomeFile } from './fs-loader';
-import { parseGenomeFile, formatDisplayName } from '../parser';
+import {
+  checkSNPListFileFromFS,
+  loadFreeSNPListFromFS,
+  loadSNPListFromFS,
+  loadSNPListOverlayFromFS,
+  parseGenomeFileFromFS,
+} from './fs-loader';
+import { findParser, formatDisplayName, getParsers } from '../parser';
 import { extractVariants } from '../extractor';
-import { toYAML, generateFilename, calculateSize } from '../output';
+import { mergeParseResults } from '../merge';
+import { applySNPListOverlays } from '../snp-list/overlay';
+import { formatValidationReport } from '../snp-list/validation';
+import { diffSNPLists } from '../snp-list/diff';
+import { isCategoryPath } from '../snp-list/taxonomy';
+import { compareExtractions } from '../compare';
+import { analyzeTrio } from '../trio';
+import type { NamedExtraction } from '../compare';
+import type { NamedParseResult } from '../merge';
+import { buildQCReport, formatQCReport } from '../qc';
+import {
+  toYAML,
+  toComparisonYAML,
+  toListDiffJSON,
+  toListDiffMarkdown,
+  toListDiffText,
+  describeListDiff,
+  generateFilename,
+  calculateSize,
+} from '../output';
 import { VERSION, TOOL_NAME } from '../version';
 import { CATEGORY_PRESETS, ALL_CATEGORIES } from '../types';
-import type { OutputFormat, SNPCategory, CategoryPreset } from '../types';
+import type {
+  CategoryPath,
+  ChromosomalSex,
+  GenomeFormat,
+  OutputFormat,
+  ParseResult,
+  SNPList,
+  SNPListOverlay,
+  CategoryPreset,
+} from '../types';
 
 // Get the project root directory
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const PROJECT_ROOT = resolve(__dirname, '..', '..');
 
+type CLICommand = 'extract' | 'qc' | 'compare' | 'validate-list' | 'list-diff';
+
 interface CLIOptions {
-  genomePath: string;
+  command: CLICommand;
+  genomePaths: string[]; // SNP list files for validate-list and list-diff
   format: OutputFormat;
-  categories: SNPCategory[];
+  categories: CategoryPath[];
+  tags: string[]; // Empty: no tag filter
   outputPath: string | null;
   asJson: boolean;
+  asMarkdown: boolean;
+  includeQC: boolean;
+  sex?: ChromosomalSex;
+  strict: boolean;
+  inputFormat?: GenomeFormat;
+  motherPath?: string;
+  fatherPath?: string;
+  snpListPath?: string;
+  overlayPaths: string[];
   quiet: boolean;
 }
 
+/** Parse diagnostics printed before the rest are summarized */
+const DIAGNOSTICS_LOG_LIMIT = 5;
+
 function log(message: string, quiet: boolean): void {
   if (!quiet) {
     console.error(message);
   }
 }
 
+/**
+ * Show an in-place progress percentage on interactive terminals
+ */
+function showProgress(bytesRead: number, totalBytes: number | undefined, quiet: boolean): void {
+  if (quiet || !process.stderr.isTTY || !totalBytes) return;
+  const percent = Math.min(100, Math.round((bytesRead / totalBytes) * 100));
+  process.stderr.write(`\rParsing... ${percent}%`);
+}
+
+function clearProgress(quiet: boolean): void {
+  if (quiet || !process.stderr.isTTY) return;
+  process.stderr.write('\r\x1b[K');
+}
+
+/**
+ * Describe the detected format with its confidence and runner-up
+ */
+function describeDetection(parseResult: ParseResult): string {
+  const name = formatDisplayName(parseResult.format);
+  const detection = parseResult.detection;
+  if (!detection) return name;
+  if (detection.forced) return `${name} (forced)`;
+
+  const confidence = `${Math.round(detection.confidence * 100)}% confidence`;
+  const runnerUp = detection.runnerUp
+    ? `; runner-up ${formatDisplayName(detection.runnerUp.format)} ${Math.round(detection.runnerUp.confidence * 100)}%`
+    : '';
+  return `${name} (${confidence}${runnerUp})`;
+}
+
+/**
+ * Log the first few parse diagnostics (rows dropped or kept despite a problem)
+ */
+function logDiagnostics(parseResult: ParseResult, quiet: boolean): void {
+  const diagnostics = parseResult.diagnostics ?? [];
+  for (const d of diagnostics.slice(0, DIAGNOSTICS_LOG_LIMIT)) {
+    log(`  ${d.severity} line ${d.line} (${d.code}): ${d.message}`, quiet);
+  }
+  if (diagnostics.length > DIAGNOSTICS_LOG_LIMIT) {
+    log(`  ...and ${diagnostics.length - DIAGNOSTICS_LOG_LIMIT} more`, quiet);
+  }
+}
+
+/**
+ * Parse each genome file, merging them when there is more than one
+ */
+async function parseGenomeFiles(genomePaths: string[], options: CLIOptions): Promise<ParseResult> {
+  const { strict, inputFormat, quiet } = options;
+  const parsed: NamedParseResult[] = [];
+
+  for (const genomePath of genomePaths) {
+    log(`Parsing genome file: ${genomePath}`, quiet);
+    let bytesParsed = 0;
+    const result = await parseGenomeFileFromFS(resolve(genomePath), {
+      strict,
+      format: inputFormat,
+      onProgress: (progress) => {
+        bytesParsed = progress.bytesRead;
+        showProgress(progress.bytesRead, progress.totalBytes, quiet);
+      },
+    });
+    clearProgress(quiet);
+    log(`Read ${(bytesParsed / 1024 / 1024).toFixed(1)} MB`, quiet);
+    log(
+      `Detected format: ${describeDetection(result)} with ${result.variants.length.toLocaleString()} variants`,
+      quiet
+    );
+    logDiagnostics(result, quiet);
+    parsed.push({ name: basename(genomePath), result });
+  }
+
+  if (parsed.length === 1) {
+    return (parsed[0] as NamedParseResult).result;
+  }
+
+  const merged = mergeParseResults(parsed);
+  if (merged.merge) {
+    const { overlapping, filled, discordant } = merged.merge;
+    log(
+      `Merged ${parsed.length} files into ${merged.variants.length.toLocaleString()} variants ` +
+        `(${overlapping.toLocaleString()} in more than one file, ${filled} no-calls filled, ${discordant} discordant)`,
+      quiet
+    );
+  }
+  return merged;
+}
+
+/**
+ * Load the custom SNP list if one was given, otherwise the free list, then apply any overlays
+ */
+async function loadSNPList(options: CLIOptions): Promise<SNPList> {
+  let snpList: SNPList;
+  if (options.snpListPath) {
+    log(`Loading SNP list from ${options.snpListPath}...`, options.quiet);
+    snpList = await loadSNPListFromFS(resolve(options.snpListPath));
+  } else {
+    log(`Loading SNP list...`, options.quiet);
+    snpList = await loadFreeSNPListFromFS(PROJECT_ROOT);
+  }
+
+  if (options.overlayPaths.length === 0) {
+    return snpList;
+  }
+  const overlays: SNPListOverlay[] = [];
+  for (const overlayPath of options.overlayPaths) {
+    overlays.push(await loadSNPListOverlayFromFS(resolve(overlayPath)));
+  }
+  log(`Applying ${overlays.length} overlay(s) to SNP list v${snpList.version}`, options.quiet);
+  return applySNPListOverlays(snpList, overlays);
+}
+
 function parseArgs(args: string[]): CLIOptions {
   const options: CLIOptions = {
-    genomePath: '',
+    command: 'extract',
+    genomePaths: [],
     format: 'detailed',
     categories: CATEGORY_PRESETS.wellness,
+    tags: [],
     outputPath: null,
     asJson: false,
+    asMarkdown: false,
+    includeQC: false,
+    strict: false,
+    overlayPaths: [],
     quiet: false,
   };
+  let categoriesGiven = false;
+
+  // Subcommands come first; anything else is a genome file for extraction
+  const commands: CLICommand[] = ['qc', 'compare', 'validate-list', 'list-diff'];
+  if (commands.includes(args[0] as CLICommand)) {
+    options.command = args[0] as CLICommand;
+  }
 
-  for (const arg of args) {
+  for (const arg of options.command === 'extract' ? args : args.slice(1)) {
     if (arg.startsWith('--format=')) {
       const format = arg.slice(9);
       if (format === 'detailed' || format === 'compact' || format === 'minimal') {
@@ -67,17 +256,61 @@ function parseArgs(args: string[]): CLIOptions {
       }
     } else if (arg.startsWith('--categories=')) {
       const preset = arg.slice(13);
+      categoriesGiven = true;
       if (preset === 'wellness' || preset === 'full') {
         options.categories = CATEGORY_PRESETS[preset as CategoryPreset];
       } else if (preset === 'all') {
         options.categories = ALL_CATEGORIES;
       } else {
-        throw new Error(`Invalid categories: ${preset}. Must be: wellness, full, or all`);
+        // Categories or subcategory paths, e.g. methylation,vitamins_minerals/vitamin_d
+        const paths = preset.split(',').map((p) => p.trim().toLowerCase());
+        const invalid = paths.find((p) => !isCategoryPath(p));
+        if (invalid !== undefined) {
+          throw new Error(
+            `Invalid categories: ${invalid}. Must be: wellness, full, all, or category paths ` +
+              `such as vitamins_minerals/vitamin_d`
+          );
+        }
+        options.categories = paths as CategoryPath[];
       }
+    } else if (arg.startsWith('--tags=')) {
+      options.tags = arg
+        .slice(7)
+        .split(',')
+        .map((t) => t.trim())
+        .filter(Boolean);
     } else if (arg.startsWith('--output=')) {
       options.outputPath = arg.slice(9);
     } else if (arg === '--json') {
       options.asJson = true;
+    } else if (arg === '--markdown') {
+      options.asMarkdown = true;
+    } else if (arg === '--qc') {
+      options.includeQC = true;
+    } else if (arg.startsWith('--sex=')) {
+      const sex = arg.slice(6);
+      if (sex === 'female' || sex === 'male' || sex === 'unknown') {
+        options.sex = sex;
+      } else {
+        throw new Error(`Invalid sex: ${sex}. Must be: female, male, or unknown`);
+      }
+    } else if (arg === '--strict') {
+      options.strict = true;
+    } else if (arg.startsWith('--input-format=')) {
+      const inputFormat = arg.slice(15);
+      if (inputFormat === 'unknown' || !findParser(inputFormat)) {
+        const formats = getParsers().flatMap((p) => p.formats);
+        throw new Error(`Invalid input format: ${inputFormat}. Must be: ${formats.join(', ')}`);
+      }
+      options.inputFormat = inputFormat;
+    } else if (arg.startsWith('--mother=')) {
+      options.motherPath = arg.slice(9);
+    } else if (arg.startsWith('--father=')) {
+      options.fatherPath = arg.slice(9);
+    } else if (arg.startsWith('--snp-list=')) {
+      options.snpListPath = arg.slice(11);
+    } else if (arg.startsWith('--overlay=')) {
+      options.overlayPaths.push(arg.slice(10));
     } else if (arg === '--quiet' || arg === '-q') {
       options.quiet = true;
     } else if (arg === '--help' || arg === '-h') {
@@ -86,15 +319,30 @@ function parseArgs(args: string[]): CLIOptions {
     } else if (arg === '--version' || arg === '-v') {
       console.log(`${TOOL_NAME} v${VERSION}`);
       process.exit(0);
-    } else if (!arg.startsWith('-') && !options.genomePath) {
-      options.genomePath = arg;
-    } else if (arg.startsWith('-')) {
+    } else if (!arg.startsWith('-')) {
+      options.genomePaths.push(arg);
+    } else {
       throw new Error(`Unknown option: ${arg}`);
     }
   }
 
-  if (!options.genomePath) {
-    throw new Error('No genome file specified. Run with --help for usage.');
+  if (options.genomePaths.length === 0) {
+    const listCommand = options.command === 'validate-list' || options.command === 'list-diff';
+    const what = listCommand ? 'SNP list' : 'genome';
+    throw new Error(`No ${what} file specified. Run with --help for usage.`);
+  }
+  if (!options.motherPath !== !options.fatherPath) {
+    throw new Error('Trio mode needs both --mother and --father.');
+  }
+  if (options.command === 'compare' && options.genomePaths.length !== 2) {
+    throw new Error('compare needs exactly two genome files, one per person.');
+  }
+  if (options.command === 'list-diff' && options.genomePaths.length !== 2) {
+    throw new Error('list-diff needs exactly two SNP list files, the old one first.');
+  }
+  // A custom list is the user's own selection, so extract all of it unless told otherwise
+  if (options.snpListPath && !categoriesGiven) {
+    options.categories = ALL_CATEGORIES;
   }
 
   return options;
@@ -107,6 +355,9 @@ function getDevToolNotice(variantCount?: number): string {
 }
 
 function printHelp(): void {
+  const inputFormats = getParsers()
+    .flatMap((p) => p.formats)
+    .join(', ');
   console.log(`
 ${TOOL_NAME} CLI v${VERSION}
 
@@ -115,16 +366,50 @@ ${getDevToolNotice()}
 Extract clinically relevant SNPs from genome files.
 
 Usage:
-  npm run cli -- <genome-file> [options]
+  npm run cli -- <genome-file>... [options]
+  npm run cli -- qc <genome-file>... [--json] [--strict] [--input-format=FORMAT] [--output=FILE]
+  npm run cli -- compare <genome-a> <genome-b> [--categories=PRESET] [--snp-list=FILE] [--json] [--output=FILE]
+  npm run cli -- validate-list <list-file>... [--json] [--strict] [--output=FILE]
+  npm run cli -- list-diff <old-list> <new-list> [--markdown|--json] [--output=FILE]
+
+Commands:
+  qc               Print a quality-control report for the genome file
+  compare          Compare two people's files: shared and differing genotypes
+                   per category, and SNPs only one of them has a call for
+  validate-list    Check SNP list files (JSON, CSV or TSV) and report every error
+                   and warning; exits with status 1 if any list has errors
+  list-diff        Show what changed between two versions of a SNP list: added and
+                   removed rsIDs, recategorized entries and edited fields
 
 Arguments:
-  <genome-file>    Path to the genome file (23andMe .txt format)
+  <genome-file>    Path to the genome file (.txt/.csv/.vcf, optionally .zip or .gz).
+                   Give several files from the same person to merge them; the
+                   first file's calls win where they disagree.
 
 Options:
   --format=FORMAT       Output format: detailed, compact, minimal (default: detailed)
-  --categories=PRESET   Category preset: wellness, full, all (default: wellness)
+  --categories=PRESET   Category preset: wellness, full, all (default: wellness), or a
+                        comma-separated list of categories and subcategory paths, each
+                        with everything below it (e.g. vitamins_minerals/vitamin_d)
+  --tags=TAG,...        Only extract SNPs tagged with at least one of these tags
   --output=FILE         Write output to file instead of stdout
   --json                Output extraction result as JSON instead of YAML
+  --markdown            list-diff: output Markdown (e.g. for release notes)
+  --qc                  Include a QC report section in the output
+  --sex=SEX             Override the inferred chromosomal sex: female, male, unknown
+  --strict              Fail on the first line that cannot be parsed
+                        (validate-list: fail on warnings too)
+  --input-format=FORMAT Read the genome file as FORMAT instead of detecting it:
+                        ${inputFormats}
+  --mother=FILE         Mother's genome file; with --father, check Mendelian
+  --father=FILE         consistency and trace risk alleles to a parent
+  --snp-list=FILE       Use your own SNP list instead of the free list: a list
+                        JSON file, or a CSV/TSV table with rsid and gene columns
+                        (all categories are extracted unless --categories is given)
+  --overlay=FILE        Apply an overlay on top of the SNP list: a JSON file with
+                        add, replace and remove sections, or another SNP list
+                        whose entries are added. Repeat to stack overlays; they
+                        apply in order and later ones win
   --quiet, -q           Suppress informational messages
   --help, -h            Show this help message
   --version, -v         Show version
@@ -136,11 +421,47 @@ Examples:
   # Extract all categories in compact format
   npm run cli -- data/genome_file.txt --categories=full --format=compact
 
+  # Extract only vitamin D SNPs, plus anything tagged pregnancy
+  npm run cli -- data/genome_file.txt --categories=vitamins_minerals/vitamin_d --tags=pregnancy
+
   # Save output to file
   npm run cli -- data/genome_file.txt --output=results.yaml
 
+  # Read a compressed download directly
+  npm run cli -- data/genome_file.zip
+
   # Get JSON output for programmatic use
   npm run cli -- data/genome_file.txt --json --quiet
+
+  # Check call rates, duplicates and sex-chromosome consistency
+  npm run cli -- qc data/genome_file.txt
+
+  # Reject files with any malformed line
+  npm run cli -- data/genome_file.txt --strict
+
+  # Compare two people's genotypes for the same SNP list
+  npm run cli -- compare data/alex.txt data/sam.txt --output=comparison.yaml
+
+  # Check a child's file against both parents and trace risk alleles
+  npm run cli -- data/child.txt --mother=data/mother.txt --father=data/father.txt
+
+  # Extract the SNPs in your own panel
+  npm run cli -- data/genome_file.txt --snp-list=panels/my-panel.csv
+
+  # Add your own SNPs to the list, then drop entries you never want reported
+  npm run cli -- data/genome_file.txt --overlay=panels/extra.csv --overlay=panels/exclude.json
+
+  # Check a SNP list before shipping it
+  npm run cli -- validate-list public/snp-list-free.json
+
+  # Release notes for a new SNP list version
+  npm run cli -- list-diff old/snp-list.json public/snp-list-free.json --markdown
+
+  # Merge a 23andMe and an AncestryDNA file, filling each one's gaps
+  npm run cli -- data/23andme.txt data/ancestry.txt
+
+  # Read a 23andMe v3 file whose header lacks the build line
+  npm run cli -- data/genome_file.txt --input-format=23andme-v3
 `);
 }
 
@@ -160,35 +481,86 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  const { genomePath, format, categories, outputPath, asJson, quiet } = options;
+  if (options.command === 'qc') {
+    await runQC(options);
+    return;
+  }
+  if (options.command === 'compare') {
+    await runCompare(options);
+    return;
+  }
+  if (options.command === 'validate-list') {
+    await runValidateList(options);
+    return;
+  }
+  if (options.command === 'list-diff') {
+    await runListDiff(options);
+    return;
+  }
+
+  const {
+    format,
+    categories,
+    tags,
+    outputPath,
+    asJson,
+    includeQC,
+    sex,
+    motherPath,
+    fatherPath,
+    quiet,
+  } = options;
 
   try {
     // Load SNP list
-    log(`Loading SNP list...`, quiet);
-    const snpList = await loadFreeSNPListFromFS(PROJECT_ROOT);
+    const snpList = await loadSNPList(options);
     log(`Loaded SNP list v${snpList.version} with ${snpList.count} variants`, quiet);
 
     // Show dev tool notice with actual variant count
-    log(`\n${getDevToolNotice(snpList.count)}\n`, quiet);
+    if (!options.snpListPath) {
+      log(`\n${getDevToolNotice(snpList.count)}\n`, quiet);
+    }
 
-    // Read genome file
-    log(`Reading genome file: ${genomePath}`, quiet);
-    const genomeContent = await readGenomeFile(resolve(genomePath));
-    log(`Read ${(genomeContent.length / 1024 / 1024).toFixed(1)} MB`, quiet);
+    // Stream and parse the genome file(s)
+    const parseResult = await parseGenomeFiles(options.genomePaths, options);
 
-    // Parse genome file
-    log(`Parsing genome file...`, quiet);
-    const parseResult = parseGenomeFile(genomeContent);
+    // Extract variants
+    const tagNote = tags.length > 0 ? `, tagged ${tags.join(' or ')}` : '';
+    log(`Extracting variants (${categories.length} categories${tagNote})...`, quiet);
+    const extractionResult = extractVariants(parseResult, snpList, categories, { sex, tags });
     log(
-      `Detected format: ${formatDisplayName(parseResult.format)} with ${parseResult.variants.length.toLocaleString()} variants`,
+      `Chromosomal sex: ${extractionResult.metadata.sex} (${extractionResult.metadata.sexSource})`,
       quiet
     );
-
-    // Extract variants
-    log(`Extracting variants (${categories.length} categories)...`, quiet);
-    const extractionResult = extractVariants(parseResult, snpList, categories);
+    if (includeQC) {
+      extractionResult.qc = buildQCReport(parseResult);
+    }
+    if (motherPath && fatherPath) {
+      const mother = await parseGenomeFiles([motherPath], options);
+      const father = await parseGenomeFiles([fatherPath], options);
+      const trio = analyzeTrio(
+        {
+          child: parseResult,
+          mother: { name: basename(motherPath), result: mother },
+          father: { name: basename(fatherPath), result: father },
+        },
+        extractionResult.variants
+      );
+      extractionResult.trio = trio;
+      log(
+        `Trio check: ${trio.status} (${trio.mendelianErrors} Mendelian errors in ${trio.compared.toLocaleString()} SNPs)`,
+        quiet
+      );
+    }
     const { found, noCall, missing, total } = extractionResult.summary;
     log(`Found ${found} of ${total} variants (${noCall} no-call, ${missing} missing)`, quiet);
+    const notGenotyped = extractionResult.missing.filter((v) => v.reason === 'not-genotyped');
+    if (notGenotyped.length > 0) {
+      log(
+        `${notGenotyped.length} missing SNPs are not on the ${extractionResult.metadata.chip} chip`,
+        quiet
+      );
+    }
 
     // Generate output
     let output: string;
@@ -220,4 +592,133 @@ async function main(): Promise<void> {
   }
 }
 
+/**
+ * qc subcommand: parse the file and report its quality without extracting
+ */
+async function runQC(options: CLIOptions): Promise<void> {
+  const { outputPath, asJson, quiet } = options;
+
+  try {
+    const parseResult = await parseGenomeFiles(options.genomePaths, options);
+
+    const report = buildQCReport(parseResult);
+    const output = asJson ? JSON.stringify(report, null, 2) : formatQCReport(report);
+
+    if (outputPath) {
+      await writeFile(outputPath, output, 'utf-8');
+      log(`Wrote QC report to ${outputPath}`, quiet);
+    } else {
+      console.log(output);
+    }
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * compare subcommand: extract both people's files and line up their calls
+ */
+async function runCompare(options: CLIOptions): Promise<void> {
+  const { genomePaths, categories, tags, outputPath, asJson, quiet } = options;
+
+  try {
+    const snpList = await loadSNPList(options);
+
+    // Each person's file is parsed and extracted on its own
+    const extractions: NamedExtraction[] = [];
+    for (const genomePath of genomePaths) {
+      const parseResult = await parseGenomeFiles([genomePath], options);
+      const result = extractVariants(parseResult, snpList, categories, { tags });
+      extractions.push({ name: basename(genomePath), result });
+    }
+
+    const [first, second] = extractions as [NamedExtraction, NamedExtraction];
+    const comparison = compareExtractions(first, second);
+    const { shared, different, onlyFirst, onlySecond } = comparison.summary;
+    log(
+      `Compared ${comparison.summary.total} SNPs: ${shared} shared, ${different} different, ` +
+        `${onlyFirst} only called for ${first.name}, ${onlySecond} only called for ${second.name}`,
+      quiet
+    );
+
+    const output = asJson ? JSON.stringify(comparison, null, 2) : toComparisonYAML(comparison);
+    if (outputPath) {
+      await writeFile(outputPath, output, 'utf-8');
+      log(`Wrote comparison to ${outputPath}`, quiet);
+    } else {
+      console.log(output);
+    }
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * validate-list subcommand: report every problem in each SNP list file
+ * Exits with status 1 if any list has errors (or warnings, with --strict).
+ */
+async function runValidateList(options: CLIOptions): Promise<void> {
+  const { genomePaths: listPaths, outputPath, asJson, strict, quiet } = options;
+
+  try {
+    const reports = [];
+    for (const listPath of listPaths) {
+      reports.push({ file: listPath, ...(await checkSNPListFileFromFS(resolve(listPath))) });
+    }
+
+    const output = asJson
+      ? JSON.stringify(reports, null, 2)
+      : reports.map((r) => `${r.file}\n${formatValidationReport(r)}`).join('\n\n');
+    if (outputPath) {
+      await writeFile(outputPath, output, 'utf-8');
+      log(`Wrote validation report to ${outputPath}`, quiet);
+    } else {
+      console.log(output);
+    }
+
+    if (reports.some((r) => !r.valid || (strict && r.warnings.length > 0))) {
+      process.exit(1);
+    }
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * list-diff subcommand: what changed between two versions of a SNP list
+ */
+async function runListDiff(options: CLIOptions): Promise<void> {
+  const [fromPath, toPath] = options.genomePaths as [string, string];
+  const { outputPath, asJson, asMarkdown, quiet } = options;
+
+  try {
+    const from = await loadSNPListFromFS(resolve(fromPath));
+    const to = await loadSNPListFromFS(resolve(toPath));
+    const diff = diffSNPLists(from, to);
+    log(`SNP list ${diff.fromVersion} -> ${diff.toVersion}: ${describeListDiff(diff)}`, quiet);
+
+    let output: string;
+    if (asJson) {
+      output = toListDiffJSON(diff);
+    } else if (asMarkdown) {
+      output = toListDiffMarkdown(diff);
+    } else {
+      output = toListDiffText(diff);
+    }
+
+    if (outputPath) {
+      await writeFile(outputPath, output, 'utf-8');
+      log(`Wrote list diff to ${outputPath}`, quiet);
+    } else {
+      console.log(output);
+    }
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+}
+
 main();
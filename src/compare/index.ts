@@ -0,0 +1,192 @@
+/**
+ * Compare module - line up two people's extractions by rsID
+ *
+ * Both extractions must come from the same SNP list, so every SNP is either
+ * matched or missing on each side. Calls are compared regardless of allele
+ * order; SNPs only one person has a call for are counted apart, since they
+ * reflect chip coverage rather than a genetic difference. Everything runs on
+ * the two results in memory - nothing leaves the machine.
+ */
+
+import type {
+  CategoryComparison,
+  ComparedCall,
+  ComparedPerson,
+  ComparisonCounts,
+  ComparisonResult,
+  ComparisonStatus,
+  ExtractionResult,
+  SNPCategory,
+  VariantComparison,
+} from '../types';
+import { ALL_CATEGORIES } from '../types';
+
+/**
+ * An extraction and the name of the person it belongs to
+ */
+export interface NamedExtraction {
+  name: string; // Usually the genome file name
+  result: ExtractionResult;
+}
+
+/** SNP list entry as it appears in one extraction */
+interface ListedSNP {
+  gene: string;
+  category: SNPCategory;
+  call: ComparedCall;
+  hemizygous?: boolean;
+}
+
+/**
+ * Compare two extractions of the same SNP list
+ * @throws Error if the extractions used different SNP list versions
+ */
+export function compareExtractions(
+  first: NamedExtraction,
+  second: NamedExtraction
+): ComparisonResult {
+  if (first.result.metadata.snpListVersion !== second.result.metadata.snpListVersion) {
+    throw new Error(
+      `Cannot compare extractions from different SNP lists (${first.result.metadata.snpListVersion} and ${second.result.metadata.snpListVersion}).`
+    );
+  }
+
+  const firstSNPs = listSNPs(first.result);
+  const secondSNPs = listSNPs(second.result);
+
+  // SNPs either person has, in the first extraction's order
+  const rsids = [...new Set([...firstSNPs.keys(), ...secondSNPs.keys()])];
+  const variants: VariantComparison[] = rsids.map((rsid) => {
+    const a = firstSNPs.get(rsid);
+    const b = secondSNPs.get(rsid);
+    const entry = (a ?? b) as ListedSNP;
+    return {
+      rsid,
+      gene: entry.gene,
+      category: entry.category,
+      status: compareCalls(a, b),
+      first: a?.call ?? { status: 'not-in-file' },
+      second: b?.call ?? { status: 'not-in-file' },
+    };
+  });
+
+  return {
+    metadata: {
+      tool: first.result.metadata.tool,
+      version: first.result.metadata.version,
+      date: new Date().toISOString(),
+      snpListVersion: first.result.metadata.snpListVersion,
+      disclaimer: first.result.metadata.disclaimer,
+      first: describePerson(first),
+      second: describePerson(second),
+    },
+    summary: { ...countStatuses(variants), total: variants.length },
+    categories: countByCategory(variants),
+    variants,
+  };
+}
+
+/**
+ * Index an extraction's matched and missing SNPs by rsID
+ */
+function listSNPs(result: ExtractionResult): Map<string, ListedSNP> {
+  const snps = new Map<string, ListedSNP>();
+
+  for (const v of result.variants) {
+    const call: ComparedCall = { status: v.status };
+    if (v.status === 'found') call.genotype = v.genotype;
+    snps.set(v.rsid, { gene: v.gene, category: v.category, call, hemizygous: v.hemizygous });
+  }
+  for (const v of result.missing) {
+    snps.set(v.rsid, { gene: v.gene, category: v.category, call: { status: v.reason } });
+  }
+
+  return snps;
+}
+
+function compareCalls(a: ListedSNP | undefined, b: ListedSNP | undefined): ComparisonStatus {
+  const aCalled = a?.call.genotype !== undefined;
+  const bCalled = b?.call.genotype !== undefined;
+
+  if (aCalled && bCalled) {
+    return normalizeCall(a as ListedSNP) === normalizeCall(b as ListedSNP) ? 'shared' : 'different';
+  }
+  if (aCalled) return 'only-first';
+  if (bCalled) return 'only-second';
+  return 'neither';
+}
+
+/**
+ * Sort alleles so "AG" and "GA" compare equal; single-copy calls written
+ * doubled ("AA" for a hemizygous A) are collapsed to one letter
+ */
+function normalizeCall(snp: ListedSNP): string {
+  const alleles = [...(snp.call.genotype ?? '').toUpperCase()].sort();
+  if (snp.hemizygous && alleles.length === 2 && alleles[0] === alleles[1]) {
+    return alleles[0] as string;
+  }
+  return alleles.join('');
+}
+
+function describePerson({ name, result }: NamedExtraction): ComparedPerson {
+  const person: ComparedPerson = {
+    name,
+    sourceFormat: result.metadata.sourceFormat,
+    found: result.summary.found,
+    noCall: result.summary.noCall,
+    missing: result.summary.missing,
+  };
+  if (result.metadata.chip) person.chip = result.metadata.chip;
+  if (result.metadata.sex) person.sex = result.metadata.sex;
+  return person;
+}
+
+function emptyCounts(): ComparisonCounts {
+  return { shared: 0, different: 0, onlyFirst: 0, onlySecond: 0, neither: 0 };
+}
+
+function addToCounts(counts: ComparisonCounts, status: ComparisonStatus): void {
+  switch (status) {
+    case 'shared':
+      counts.shared++;
+      break;
+    case 'different':
+      counts.different++;
+      break;
+    case 'only-first':
+      counts.onlyFirst++;
+      break;
+    case 'only-second':
+      counts.onlySecond++;
+      break;
+    case 'neither':
+      counts.neither++;
+      break;
+  }
+}
+
+function countStatuses(variants: VariantComparison[]): ComparisonCounts {
+  const counts = emptyCounts();
+  for (const v of variants) addToCounts(counts, v.status);
+  return counts;
+}
+
+/**
+ * Per-category counts, in the SNP list's category order
+ */
+function countByCategory(variants: VariantComparison[]): CategoryComparison[] {
+  const byCategory = new Map<SNPCategory, ComparisonCounts>();
+  for (const v of variants) {
+    let counts = byCategory.get(v.category);
+    if (!counts) {
+      counts = emptyCounts();
+      byCategory.set(v.category, counts);
+    }
+    addToCounts(counts, v.status);
+  }
+
+  return ALL_CATEGORIES.flatMap((category) => {
+    const counts = byCategory.get(category);
+    return counts ? [{ category, ...counts }] : [];
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Allele interpretation - reads genotypes relative to a SNP list entry
+ *
+ * Genotypes use the parsers' notation: one letter per allele ("CT", "AA"),
+ * I/D for indels, a single letter for haploid calls and "--" for no-calls.
+ *
+ * Chips report some sites on the opposite strand to the SNP list, so a list
+ * allele of G can appear as C in the file. orientGenotype flips such calls
+ * into the list's orientation; A/T and C/G sites read the same on both
+ * strands and are flagged as ambiguous instead. The strand is decided per site
+ * from the entry's alleles, so every genotype at a site is read the same way;
+ * entries without site alleles are read as written.
+ */
+
+import type { SNPEntry, StrandOrientation, Zygosity } from '../types';
+
+const COMPLEMENT: Record<string, string> = { A: 'T', T: 'A', C: 'G', G: 'C' };
+
+/**
+ * Risk allele copy count and zygosity for a genotype
+ */
+export interface GenotypeInterpretation {
+  riskAlleleCount: 0 | 1 | 2;
+  zygosity: Zygosity;
+}
+
+/**
+ * Count risk allele copies in a genotype
+ * @param genotype Genotype from the genome file, e.g., "CT"
+ * @param riskAllele Risk allele from the SNP list, e.g., "T"
+ * @returns Interpretation, or undefined for no-calls and unusable alleles
+ */
+export function interpretGenotype(
+  genotype: string,
+  riskAllele: string | undefined
+): GenotypeInterpretation | undefined {
+  if (!riskAllele) return undefined;
+
+  const risk = riskAllele.trim().toUpperCase();
+  const alleles = genotype.toUpperCase().split('');
+
+  // Only single-letter alleles can be compared against the genotype letters
+  if (!/^[ACGTID]$/.test(risk)) return undefined;
+  if (alleles.length === 0 || alleles.length > 2) return undefined;
+  if (alleles.some((a) => !/^[ACGTID]$/.test(a))) return undefined;
+
+  const riskAlleleCount = alleles.filter((a) => a === risk).length as 0 | 1 | 2;
+
+  // Haploid calls (e.g., male X/Y) carry zero or one copy
+  if (alleles.length === 1) {
+    return {
+      riskAlleleCount,
+      zygosity: riskAlleleCount === 1 ? 'hemizygous-risk' : 'hemizygous-reference',
+    };
+  }
+
+  return { riskAlleleCount, zygosity: zygosityForCount(riskAlleleCount) };
+}
+
+function zygosityForCount(count: 0 | 1 | 2): Zygosity {
+  switch (count) {
+    case 0:
+      return 'homozygous-reference';
+    case 1:
+      return 'heterozygous';
+    case 2:
+      return 'homozygous-risk';
+  }
+}
+
+/**
+ * A genotype in the SNP list's orientation
+ */
+export interface OrientedGenotype {
+  genotype: string; // Complemented when strand is 'flipped'
+  strand: StrandOrientation;
+}
+
+/**
+ * Orient a genotype to the SNP list entry's strand
+ *
+ * The site's alleles decide the strand: an A/T or C/G site is ambiguous
+ * whatever the call, any other site is forward when the calls are among its
+ * alleles and flipped when their complements are.
+ *
+ * @returns Oriented genotype, or undefined for no-calls, indels, entries
+ *   without site alleles and genotypes compatible with neither strand
+ */
+export function orientGenotype(
+  genotype: string,
+  snpEntry: Pick<SNPEntry, 'alleles'>
+): OrientedGenotype | undefined {
+  const site = siteAlleles(snpEntry);
+  const calls = genotype.toUpperCase().split('');
+  if (!site || calls.length === 0 || calls.length > 2 || !calls.every(isBase)) return undefined;
+
+  // A/T and C/G sites read the same on both strands
+  if (isPalindromic(site)) {
+    return { genotype, strand: 'ambiguous' };
+  }
+
+  if (calls.every((a) => site.includes(a))) {
+    return { genotype, strand: 'forward' };
+  }
+  const complemented = calls.map((a) => COMPLEMENT[a] as string);
+  if (complemented.every((a) => site.includes(a))) {
+    return { genotype: complemented.join(''), strand: 'flipped' };
+  }
+  return undefined;
+}
+
+/**
+ * Whether risk allele copies can be read from a genotype: the entry gives no
+ * site alleles (calls are read as written), or the call was oriented to the
+ * forward or flipped strand
+ */
+export function isStrandResolved(
+  snpEntry: Pick<SNPEntry, 'alleles'>,
+  oriented: OrientedGenotype | undefined
+): boolean {
+  if (!siteAlleles(snpEntry)) return true;
+  return oriented?.strand === 'forward' || oriented?.strand === 'flipped';
+}
+
+/**
+ * The entry's site alleles, when it gives at least two bases (indel sites have no strand)
+ */
+function siteAlleles(snpEntry: Pick<SNPEntry, 'alleles'>): string[] | undefined {
+  const site = snpEntry.alleles?.map((a) => a.trim().toUpperCase());
+  return site && site.length >= 2 && site.every(isBase) ? site : undefined;
+}
+
+function isBase(allele: string): boolean {
+  return allele in COMPLEMENT;
+}
+
+/**
+ * Check whether a set of alleles contains a base and its complement
+ */
+function isPalindromic(alleles: string[]): boolean {
+  return alleles.some((a) => alleles.includes(COMPLEMENT[a] as string));
+}
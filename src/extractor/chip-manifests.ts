@@ -0,0 +1,76 @@
+/**
+ * Bundled chip manifests for the listed SNPs
+ *
+ * Full chip manifests run to hundreds of thousands of probes, so only the
+ * SNPs in the bundled list are shipped: each manifest records, per listed
+ * rsID, whether that chip version assays it. An rsID a manifest does not
+ * mention is unknown for that chip, and a SNP absent from the file is then
+ * reported as 'not-in-file'.
+ *
+ * Chip contents shift between batches of the same product, so a SNP is only
+ * marked as not assayed where exports of that chip consistently lack it, and
+ * is left out where exports disagree.
+ */
+
+import type { GenomeFormat } from '../types';
+
+/**
+ * Which listed SNPs one chip version assays
+ */
+export interface ChipManifest {
+  chip: string; // Display name of the genotyping array
+  assays: Record<string, boolean>; // Lowercase rsID → whether the chip assays it
+}
+
+/** rsIDs in the bundled list */
+const LISTED_RSIDS = [
+  'rs1801133',
+  'rs1801131',
+  'rs429358',
+  'rs7412',
+  'rs4680',
+  'rs1800497',
+  'rs6265',
+  'rs1799971',
+  'rs12248560',
+  'rs4244285',
+  'rs1045642',
+  'rs53576',
+  'rs7799039',
+  'rs9939609',
+  'rs1544410',
+  'rs2282679',
+  'rs762551',
+  'rs4988235',
+];
+
+/**
+ * Mark every listed SNP as assayed except those given as absent or unknown
+ */
+function listedAssays(absent: string[] = [], unknown: string[] = []): Record<string, boolean> {
+  const assays: Record<string, boolean> = {};
+  for (const rsid of LISTED_RSIDS) {
+    if (!unknown.includes(rsid)) assays[rsid] = !absent.includes(rsid);
+  }
+  return assays;
+}
+
+/**
+ * Manifests keyed by format; 23andMe formats name the chip version
+ */
+export const CHIP_MANIFESTS: Partial<Record<GenomeFormat, ChipManifest>> = {
+  '23andme-v3': { chip: '23andMe v3 (Illumina OmniExpress Plus)', assays: listedAssays() },
+  '23andme-v4': { chip: '23andMe v4 (Illumina OmniExpress Plus)', assays: listedAssays() },
+  '23andme-v5': { chip: '23andMe v5 (Illumina Global Screening Array)', assays: listedAssays() },
+  ancestry: { chip: 'AncestryDNA (Illumina OmniExpress / GSA)', assays: listedAssays() },
+  // Moved from OmniExpress to GSA in 2019; only the GSA batches carry the APOE e4 probe
+  myheritage: {
+    chip: 'MyHeritage (Illumina OmniExpress / GSA)',
+    assays: listedAssays([], ['rs429358']),
+  },
+  // The OmniExpress chip has no probe for APOE e4
+  ftdna: {
+    chip: 'FamilyTreeDNA Family Finder (Illumina OmniExpress)',
+    assays: listedAssays(['rs429358']),
+  },
+};
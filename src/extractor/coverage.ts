@@ -0,0 +1,63 @@
+/**
+ * Chip coverage - tells untested SNPs apart from gaps in the file
+ *
+ * A SNP absent from the file is 'not-genotyped' when the manifest of the
+ * file's chip says the chip never assays it; re-testing on a newer chip or
+ * sequencing would fill it. Otherwise it is 'not-in-file': the chip assays
+ * it, or nothing is known, so the file was most likely truncated or filtered.
+ *
+ * Formats without a manifest, such as sequencing VCFs, always report
+ * 'not-in-file'.
+ *
+ * In a merged call set a SNP is not-genotyped only when every file has a
+ * manifest and none of the chips assays it.
+ */
+
+import type { GenomeFormat, MissingVariant, ParseResult } from '../types';
+import { CHIP_MANIFESTS } from './chip-manifests';
+import type { ChipManifest } from './chip-manifests';
+
+/**
+ * Coverage assessment for a parsed file
+ */
+export interface CoverageAssessment {
+  chip?: string; // Known chip(s) for the file's format(s)
+  manifests?: ChipManifest[]; // One per file; left out when any file's chip has no manifest
+}
+
+/**
+ * Look up the chip manifests for a parsed file
+ * @param manifests - Manifests keyed by format (defaults to the bundled ones)
+ */
+export function assessCoverage(
+  parseResult: ParseResult,
+  manifests: Partial<Record<GenomeFormat, ChipManifest>> = CHIP_MANIFESTS
+): CoverageAssessment {
+  const files = parseResult.merge?.sources ?? [{ format: parseResult.format }];
+
+  const found: ChipManifest[] = [];
+  for (const { format } of files) {
+    const manifest = manifests[format];
+    if (manifest) found.push(manifest);
+  }
+
+  if (found.length === 0) {
+    return {};
+  }
+  const coverage: CoverageAssessment = { chip: found.map((m) => m.chip).join(' + ') };
+  if (found.length === files.length) coverage.manifests = found;
+  return coverage;
+}
+
+/**
+ * Reason to report for a SNP list entry absent from the file
+ */
+export function missingReason(
+  coverage: CoverageAssessment,
+  rsid: string
+): MissingVariant['reason'] {
+  const key = rsid.toLowerCase();
+  return coverage.manifests?.every((m) => m.assays[key] === false)
+    ? 'not-genotyped'
+    : 'not-in-file';
+}
@@ -0,0 +1,92 @@
+/**
+ * Haplotype calling - derives diplotypes from SNPs that are only meaningful together
+ *
+ * Runs on top of extractVariants: it reads the matched (strand-oriented)
+ * genotypes and only calls genes whose defining SNPs were part of the
+ * extraction, so a category filter that drops them drops the call too.
+ *
+ * APOE:
+ * - rs429358 T>C and rs7412 C>T define e2 (T;T), e3 (T;C), e4 (C;C) and the rare e1 (C;T)
+ * - Genotypes are unphased, so one copy of each derived allele reads as e2/e4,
+ *   which is indistinguishable from the rare e1/e3
+ */
+
+import type { ExtractionResult, HaplotypeCall } from '../types';
+
+const APOE_E4_RSID = 'rs429358'; // C allele marks e4 (and e1)
+const APOE_E2_RSID = 'rs7412'; // T allele marks e2 (and e1)
+
+/**
+ * APOE diplotypes by [rs429358 C copies][rs7412 T copies]
+ */
+const APOE_DIPLOTYPES: string[][] = [
+  ['e3/e3', 'e2/e3', 'e2/e2'],
+  ['e3/e4', 'e2/e4', 'e1/e2'],
+  ['e4/e4', 'e1/e4', 'e1/e1'],
+];
+
+/**
+ * Call all supported haplotypes from an extraction
+ * @returns Calls for genes with at least one defining SNP in the extraction
+ */
+export function callHaplotypes(
+  result: Pick<ExtractionResult, 'variants' | 'missing'>
+): HaplotypeCall[] {
+  const calls: HaplotypeCall[] = [];
+
+  const apoe = callAPOE(result);
+  if (apoe) calls.push(apoe);
+
+  return calls;
+}
+
+/**
+ * Call the APOE e2/e3/e4 diplotype from rs429358 and rs7412
+ */
+function callAPOE(
+  result: Pick<ExtractionResult, 'variants' | 'missing'>
+): HaplotypeCall | undefined {
+  const rsids = [APOE_E4_RSID, APOE_E2_RSID];
+  const included = (rsid: string) =>
+    result.variants.some((v) => v.rsid === rsid) || result.missing.some((v) => v.rsid === rsid);
+  if (!rsids.some(included)) return undefined;
+
+  const genotypes: Record<string, string> = {};
+  const problems: string[] = [];
+
+  for (const rsid of rsids) {
+    const variant = result.variants.find((v) => v.rsid === rsid);
+    genotypes[rsid] = variant?.genotype ?? '--';
+
+    if (!variant) {
+      problems.push(`${rsid} is not in the file or was not extracted`);
+    } else if (variant.status === 'no-call') {
+      problems.push(`${rsid} is a no-call`);
+    } else if (!/^[ACGT]{2}$/i.test(variant.genotype)) {
+      problems.push(`${rsid} has an unexpected genotype (${variant.genotype})`);
+    }
+  }
+
+  if (problems.length > 0) {
+    return {
+      gene: 'APOE',
+      diplotype: null,
+      genotypes,
+      note: `Cannot determine APOE status: ${problems.join('; ')}.`,
+    };
+  }
+
+  const e4Copies = countAllele(genotypes[APOE_E4_RSID] as string, 'C');
+  const e2Copies = countAllele(genotypes[APOE_E2_RSID] as string, 'T');
+  const diplotype = APOE_DIPLOTYPES[e4Copies]?.[e2Copies] as string;
+
+  const call: HaplotypeCall = { gene: 'APOE', diplotype, genotypes };
+  if (diplotype === 'e2/e4') {
+    call.note = 'Unphased genotypes cannot rule out the rare e1/e3 diplotype.';
+  }
+  return call;
+}
+
+function countAllele(genotype: string, allele: string): number {
+  return [...genotype.toUpperCase()].filter((a) => a === allele).length;
+}
@@ -2,4 +2,27 @@
  * Extractor module - main entry point
  */
 
-export { extractVariants, estimateMatches, createGenomeLookup } from './matcher';
+export {
+  extractVariants,
+  extractVariantsAsync,
+  estimateMatches,
+  previewMatches,
+  createGenomeLookup,
+  addToGenomeLookup,
+  findGenomeVariant,
+  resolveGenomeBuild,
+} from './matcher';
+
+export { interpretGenotype, isStrandResolved, orientGenotype } from './alleles';
+export type { GenotypeInterpretation, OrientedGenotype } from './alleles';
+export { callHaplotypes } from './haplotypes';
+export { callPharmacogenes } from './pharmacogenomics';
+export { calculateScores, MIN_SCORE_COVERAGE } from './scores';
+export { PHARMACOGENES } from './star-alleles';
+export type { PharmacogeneDefinition, StarAlleleDefinition } from './star-alleles';
+export { assessCoverage } from './coverage';
+export type { CoverageAssessment } from './coverage';
+export { CHIP_MANIFESTS } from './chip-manifests';
+export type { ChipManifest } from './chip-manifests';
+export { isPseudoautosomal, resolvePloidy } from './sex';
+export type { PloidyGenotype } from './sex';
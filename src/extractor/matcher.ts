@@ -3,67 +3,226 @@
  */
 
 import type {
+  GenomeBuild,
   GenomeVariant,
+  GenomeLookup,
+  CategoryPath,
+  MatchMethod,
+  SNPEntry,
   SNPList,
   SNPCategory,
   MatchedVariant,
   MissingVariant,
   ExtractionResult,
   ExtractionMetadata,
+  ExtractionOptions,
   ParseResult,
   CategoryMatchEstimate,
+  MatchPreview,
 } from '../types';
 import { ALL_CATEGORIES } from '../types';
 import { VERSION, TOOL_NAME } from '../version';
+import { DEFAULT_TARGET_BUILD, detectBuild, liftoverVariant, normalizeBuild } from '../liftover';
+import { interpretGenotype, isStrandResolved, orientGenotype } from './alleles';
+import { callHaplotypes } from './haplotypes';
+import { callPharmacogenes } from './pharmacogenomics';
+import { calculateScores } from './scores';
+import { assessCoverage, missingReason } from './coverage';
+import { resolvePloidy } from './sex';
+import { inferSex } from '../qc';
+import { categoryPathOf, isInSubtree, matchesEntryFilter } from '../snp-list/taxonomy';
 
 const DISCLAIMER = `DISCLAIMER: This file contains genetic information extracted for research and educational purposes only. This is NOT medical advice. Genetic variants may have different effects depending on other genetic and environmental factors. Consult a healthcare provider or genetic counselor for interpretation of genetic data. The annotations are derived from public databases and may not reflect the most current scientific understanding.`;
 
+/** How often (in SNP list entries) extractVariants reports progress */
+const PROGRESS_INTERVAL = 500;
+
 /**
- * Create a lookup map from genome variants for efficient matching
+ * Create lookup maps from genome variants for efficient matching
  * Exported so it can be cached and reused between estimateMatches and extractVariants
  */
-export function createGenomeLookup(variants: GenomeVariant[]): Map<string, GenomeVariant> {
-  const lookup = new Map<string, GenomeVariant>();
+export function createGenomeLookup(variants: GenomeVariant[] = []): GenomeLookup {
+  const lookup: GenomeLookup = { byRsid: new Map(), byPosition: new Map() };
 
   for (const variant of variants) {
-    lookup.set(variant.rsid.toLowerCase(), variant);
+    addToGenomeLookup(lookup, variant);
   }
 
   return lookup;
 }
 
+/**
+ * Add a single variant to a lookup
+ * Lets streaming parsers build the lookup while the file is still being read
+ */
+export function addToGenomeLookup(lookup: GenomeLookup, variant: GenomeVariant): void {
+  lookup.byRsid.set(variant.rsid.toLowerCase(), variant);
+
+  // First row wins so a duplicate position can't shadow an earlier rsID-bearing row
+  const key = positionKey(variant.chromosome, variant.position);
+  if (!lookup.byPosition.has(key)) {
+    lookup.byPosition.set(key, variant);
+  }
+}
+
+/**
+ * Find the genome variant for a SNP list entry
+ * Tries the rsID first, then falls back to chromosome:position when the entry has coordinates
+ */
+export function findGenomeVariant(
+  snpEntry: SNPEntry,
+  lookup: GenomeLookup
+): { variant: GenomeVariant; matchedBy: MatchMethod } | undefined {
+  const byRsid = lookup.byRsid.get(snpEntry.rsid.toLowerCase());
+  if (byRsid) {
+    return { variant: byRsid, matchedBy: 'rsid' };
+  }
+
+  if (snpEntry.chromosome && snpEntry.position) {
+    const byPosition = lookup.byPosition.get(positionKey(snpEntry.chromosome, snpEntry.position));
+    if (byPosition) {
+      return { variant: byPosition, matchedBy: 'position' };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Bring a genome lookup into the SNP list's build
+ * Positions are lifted when the genome's build differs from the target; variants
+ * without a liftover anchor stay matchable by rsID only.
+ * @param genomeLookup Optional pre-built lookup in the genome's own build
+ * @returns Lookup in the target build, the genome's detected build (if known) and,
+ *   after a liftover, the variants left at their original positions
+ */
+export function resolveGenomeBuild(
+  parseResult: ParseResult,
+  targetBuild: GenomeBuild,
+  genomeLookup?: GenomeLookup
+): { lookup: GenomeLookup; sourceBuild?: GenomeBuild; unlifted?: Set<GenomeVariant> } {
+  const lookup = genomeLookup ?? createGenomeLookup(parseResult.variants);
+  const sourceBuild = detectBuild(parseResult.metadata.build, parseResult.format, lookup);
+
+  // Unknown builds are assumed to match the list, as before liftover existed
+  if (!sourceBuild || sourceBuild === targetBuild) {
+    return { lookup, sourceBuild };
+  }
+
+  const lifted: GenomeLookup = { byRsid: new Map(), byPosition: new Map() };
+  const unlifted = new Set<GenomeVariant>();
+  for (const variant of parseResult.variants) {
+    const liftedVariant = liftoverVariant(variant, sourceBuild, targetBuild);
+    if (liftedVariant) {
+      addToGenomeLookup(lifted, liftedVariant);
+    } else {
+      lifted.byRsid.set(variant.rsid.toLowerCase(), variant);
+      unlifted.add(variant);
+    }
+  }
+
+  return { lookup: lifted, sourceBuild, unlifted };
+}
+
+/**
+ * Build the position lookup key, normalizing chromosome naming ("chr1" -> "1", "M" -> "MT")
+ */
+function positionKey(chromosome: string, position: number): string {
+  let chr = chromosome.toUpperCase().replace(/^CHR/, '');
+  if (chr === 'M') chr = 'MT';
+  return `${chr}:${position}`;
+}
+
 /**
  * Extract matching variants from parsed genome data
  * @param parseResult Parsed genome file
  * @param snpList Target SNP list
- * @param categoryFilter Optional array of categories to include (default: all)
- * @param genomeLookup Optional pre-built lookup map (for performance when called after estimateMatches)
+ * @param categoryFilter Optional categories or subcategory paths to include, each with its
+ *   whole subtree (default: all)
+ * @param options Optional overrides (e.g., the user's chromosomal sex), a tag filter,
+ *   a pre-built genome lookup and a progress callback
  */
 export function extractVariants(
   parseResult: ParseResult,
   snpList: SNPList,
-  categoryFilter?: SNPCategory[],
-  genomeLookup?: Map<string, GenomeVariant>
+  categoryFilter?: CategoryPath[],
+  options: ExtractionOptions = {}
 ): ExtractionResult {
-  const lookup = genomeLookup ?? createGenomeLookup(parseResult.variants);
+  const steps = extractionSteps(parseResult, snpList, categoryFilter, options);
+  for (let step = steps.next(); ; step = steps.next()) {
+    if (step.done) return step.value;
+    options.onProgress?.(step.value.processed, step.value.total);
+  }
+}
+
+/**
+ * Extract matching variants, yielding to the event loop between batches of entries
+ * Lets a worker handle a cancel message mid-extraction; takes the same arguments
+ * as extractVariants, and options.signal aborts the extraction between batches.
+ * @throws The signal's reason if aborted
+ */
+export async function extractVariantsAsync(
+  parseResult: ParseResult,
+  snpList: SNPList,
+  categoryFilter?: CategoryPath[],
+  options: ExtractionOptions = {}
+): Promise<ExtractionResult> {
+  const steps = extractionSteps(parseResult, snpList, categoryFilter, options);
+  for (let step = steps.next(); ; step = steps.next()) {
+    if (step.done) return step.value;
+    options.onProgress?.(step.value.processed, step.value.total);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    options.signal?.throwIfAborted();
+  }
+}
+
+/**
+ * The extraction itself, pausing every PROGRESS_INTERVAL entries to report progress
+ */
+function* extractionSteps(
+  parseResult: ParseResult,
+  snpList: SNPList,
+  categoryFilter: CategoryPath[] | undefined,
+  options: ExtractionOptions
+): Generator<{ processed: number; total: number }, ExtractionResult> {
+  // Match in the SNP list's build, lifting the genome's positions if needed
+  const targetBuild = normalizeBuild(snpList.build) ?? DEFAULT_TARGET_BUILD;
+  const { lookup, sourceBuild, unlifted } = resolveGenomeBuild(
+    parseResult,
+    targetBuild,
+    options.genomeLookup
+  );
 
-  // Filter SNP list by categories if specified
-  const filteredVariants = categoryFilter
-    ? snpList.variants.filter((v) => categoryFilter.includes(v.category))
-    : snpList.variants;
+  // Sex decides whether doubled X/Y calls are read as one copy
+  const sex = options.sex ?? inferSex(parseResult.variants);
+
+  // Filter SNP list by category subtrees and tags if specified
+  const tags = options.tags && options.tags.length > 0 ? options.tags : undefined;
+  const filteredVariants =
+    categoryFilter || tags
+      ? snpList.variants.filter((v) => matchesEntryFilter(v, { categories: categoryFilter, tags }))
+      : snpList.variants;
 
   const matched: MatchedVariant[] = [];
   const missing: MissingVariant[] = [];
 
+  // The chip manifest tells SNPs the chip never assays apart from gaps in the file
+  const coverage = assessCoverage(parseResult);
+
   let foundCount = 0;
   let noCallCount = 0;
 
   // For each SNP in our list, find it in the genome
-  for (const snpEntry of filteredVariants) {
-    const rsidLower = snpEntry.rsid.toLowerCase();
-    const genomeVariant = lookup.get(rsidLower);
+  for (let i = 0; i < filteredVariants.length; i++) {
+    const snpEntry = filteredVariants[i] as SNPEntry;
+    if (i % PROGRESS_INTERVAL === 0) {
+      yield { processed: i, total: filteredVariants.length };
+    }
 
-    if (genomeVariant) {
+    const match = findGenomeVariant(snpEntry, lookup);
+
+    if (match) {
+      const genomeVariant = match.variant;
       const isNoCall = genomeVariant.genotype === '--';
 
       if (isNoCall) {
@@ -72,7 +231,7 @@ export function extractVariants(
         foundCount++;
       }
 
-      matched.push({
+      const matchedVariant: MatchedVariant = {
         rsid: snpEntry.rsid,
         gene: snpEntry.gene,
         genotype: genomeVariant.genotype,
@@ -80,17 +239,72 @@ export function extractVariants(
         annotation: snpEntry.annotation,
         sources: snpEntry.sources,
         status: isNoCall ? 'no-call' : 'found',
-      });
+        matchedBy: match.matchedBy,
+      };
+      if (snpEntry.subcategory) {
+        matchedVariant.subcategory = snpEntry.subcategory;
+      }
+      if (snpEntry.tags) {
+        matchedVariant.tags = snpEntry.tags;
+      }
+
+      // Bring the genotype onto the list's strand before reading risk alleles
+      const oriented = isNoCall ? undefined : orientGenotype(genomeVariant.genotype, snpEntry);
+      if (oriented) {
+        matchedVariant.strand = oriented.strand;
+        if (oriented.strand === 'flipped') {
+          matchedVariant.genotype = oriented.genotype;
+          matchedVariant.originalGenotype = genomeVariant.genotype;
+        }
+      }
+
+      // Male X/Y calls hold one copy even when the file writes them doubled
+      // Lifted positions are in the list's build; unanchored ones are still in the genome's
+      const positionBuild =
+        sourceBuild && unlifted?.has(genomeVariant) ? sourceBuild : targetBuild;
+      const ploidy = isNoCall
+        ? undefined
+        : resolvePloidy(
+            matchedVariant.genotype,
+            genomeVariant.chromosome,
+            genomeVariant.position,
+            positionBuild,
+            sex
+          );
+      if (ploidy?.hemizygous) {
+        matchedVariant.hemizygous = true;
+      }
+      if (genomeVariant.provenance) {
+        matchedVariant.provenance = genomeVariant.provenance;
+      }
+
+      // Interpret the genotype against the list's risk allele when one is given,
+      // unless the site is ambiguous or the call fits neither strand
+      if (snpEntry.riskAllele) {
+        matchedVariant.riskAllele = snpEntry.riskAllele;
+        const interpretation =
+          ploidy && isStrandResolved(snpEntry, oriented)
+            ? interpretGenotype(ploidy.genotype, snpEntry.riskAllele)
+            : undefined;
+        if (interpretation) {
+          matchedVariant.riskAlleleCount = interpretation.riskAlleleCount;
+          matchedVariant.zygosity = interpretation.zygosity;
+        }
+      }
+
+      matched.push(matchedVariant);
     } else {
       missing.push({
         rsid: snpEntry.rsid,
         gene: snpEntry.gene,
         category: snpEntry.category,
-        reason: 'not-in-file',
+        reason: missingReason(coverage, snpEntry.rsid),
       });
     }
   }
 
+  yield { processed: filteredVariants.length, total: filteredVariants.length };
+
   const metadata: ExtractionMetadata = {
     tool: TOOL_NAME,
     version: VERSION,
@@ -100,9 +314,22 @@ export function extractVariants(
     snpListVersion: snpList.version,
     disclaimer: DISCLAIMER,
     categoriesIncluded: categoryFilter,
+    sourceBuild,
+    targetBuild,
+    sex,
+    sexSource: options.sex ? 'user' : 'inferred',
   };
+  if (tags) {
+    metadata.tagsIncluded = tags;
+  }
+  if (coverage.chip) {
+    metadata.chip = coverage.chip;
+  }
+  if (parseResult.merge) {
+    metadata.mergedFrom = parseResult.merge.sources;
+  }
 
-  return {
+  const result: ExtractionResult = {
     metadata,
     variants: matched,
     missing,
@@ -113,20 +340,44 @@ export function extractVariants(
       total: filteredVariants.length,
     },
   };
+
+  // Derive diplotypes from SNPs that are only meaningful together (e.g., APOE)
+  const haplotypes = callHaplotypes(result);
+  if (haplotypes.length > 0) {
+    result.haplotypes = haplotypes;
+  }
+
+  // Map drug-metabolism SNPs to star-allele diplotypes and phenotypes
+  const pharmacogenomics = callPharmacogenes(result);
+  if (pharmacogenomics.length > 0) {
+    result.pharmacogenomics = pharmacogenomics;
+  }
+
+  // Polygenic scores for the extracted categories, from the whole file
+  // A score belongs to a whole category, so it needs that category's entire subtree selected
+  const scoreDefinitions = (snpList.scores ?? []).filter(
+    (s) => !categoryFilter || isInSubtree(s.category, categoryFilter)
+  );
+  if (scoreDefinitions.length > 0) {
+    result.scores = calculateScores(scoreDefinitions, lookup);
+  }
+
+  return result;
 }
 
 /**
  * Estimate matches by category without full extraction
  * Used for preview UI to show expected results
- * @param genomeLookup Optional pre-built lookup map (for performance)
+ * @param genomeLookup Optional pre-built lookup maps in the genome's own build (for performance)
  */
 export function estimateMatches(
   parseResult: ParseResult,
   snpList: SNPList,
-  categoryFilter?: SNPCategory[],
-  genomeLookup?: Map<string, GenomeVariant>
+  categoryFilter?: CategoryPath[],
+  genomeLookup?: GenomeLookup
 ): CategoryMatchEstimate {
-  const lookup = genomeLookup ?? createGenomeLookup(parseResult.variants);
+  const targetBuild = normalizeBuild(snpList.build) ?? DEFAULT_TARGET_BUILD;
+  const { lookup } = resolveGenomeBuild(parseResult, targetBuild, genomeLookup);
   const categories = categoryFilter ?? ALL_CATEGORIES;
 
   // Initialize counts for all categories dynamically from ALL_CATEGORIES
@@ -136,12 +387,11 @@ export function estimateMatches(
 
   for (const snpEntry of snpList.variants) {
     // Skip if category not in filter
-    if (!categories.includes(snpEntry.category)) {
+    if (!isInSubtree(categoryPathOf(snpEntry), categories)) {
       continue;
     }
 
-    const rsidLower = snpEntry.rsid.toLowerCase();
-    if (lookup.has(rsidLower)) {
+    if (findGenomeVariant(snpEntry, lookup)) {
       byCategory[snpEntry.category]++;
     }
   }
@@ -149,3 +399,52 @@ export function estimateMatches(
   const total = Object.values(byCategory).reduce((a, b) => a + b, 0);
   return { total, byCategory };
 }
+
+/**
+ * Preview an extraction for the UI: per-category and per-subcategory match counts across
+ * the whole list, plus matched/no-call/missing counts for the selected categories and tags
+ * @param genomeLookup Lookup in the SNP list's build (see resolveGenomeBuild)
+ * @param tags Optional tags an entry needs one of to count as selected
+ */
+export function previewMatches(
+  snpList: SNPList,
+  categoryFilter: CategoryPath[],
+  genomeLookup: GenomeLookup,
+  tags?: string[]
+): MatchPreview {
+  const byCategory = Object.fromEntries(
+    ALL_CATEGORIES.map((cat) => [cat, 0])
+  ) as Record<SNPCategory, number>;
+  const byPath: Record<string, number> = {};
+
+  let matched = 0;
+  let noCall = 0;
+  let missing = 0;
+
+  for (const snpEntry of snpList.variants) {
+    const match = findGenomeVariant(snpEntry, genomeLookup);
+    if (match) {
+      byCategory[snpEntry.category]++;
+      // Count the match for the category and each subcategory level above the entry
+      let path: string = snpEntry.category;
+      byPath[path] = (byPath[path] ?? 0) + 1;
+      for (const segment of snpEntry.subcategory?.split('/') ?? []) {
+        path = `${path}/${segment}`;
+        byPath[path] = (byPath[path] ?? 0) + 1;
+      }
+    }
+
+    if (!matchesEntryFilter(snpEntry, { categories: categoryFilter, tags })) continue;
+
+    if (!match) {
+      missing++;
+    } else {
+      matched++;
+      if (match.variant.genotype === '--') {
+        noCall++;
+      }
+    }
+  }
+
+  return { byCategory, byPath, matched, noCall, missing };
+}
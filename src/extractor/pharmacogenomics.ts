@@ -0,0 +1,135 @@
+/**
+ * Pharmacogenomic calling - maps matched variants to star-allele diplotypes
+ *
+ * Runs on top of extractVariants like the haplotype caller. For each gene in
+ * the definition table whose defining SNPs were part of the extraction:
+ * 1. Count variant-allele copies in each genotyped defining SNP
+ * 2. Assign star alleles in table order, consuming those copies
+ * 3. Fill the remaining chromosomes with the reference allele
+ * 4. Sum activity values and map the score to a phenotype
+ *
+ * Genotypes are unphased and only SNPs are considered, so calls are a
+ * screening aid, not a clinical result.
+ */
+
+import type { ExtractionResult, PharmacogeneCall } from '../types';
+import type { PharmacogeneDefinition, StarAlleleDefinition } from './star-alleles';
+import { PHARMACOGENES } from './star-alleles';
+
+/** Activity value of reference alleles */
+const REFERENCE_ACTIVITY = 1;
+
+/**
+ * Call all pharmacogenes in the definition table
+ * @returns Calls for genes with at least one defining SNP in the extraction
+ */
+export function callPharmacogenes(
+  result: Pick<ExtractionResult, 'variants' | 'missing'>,
+  definitions: PharmacogeneDefinition[] = PHARMACOGENES
+): PharmacogeneCall[] {
+  const calls: PharmacogeneCall[] = [];
+
+  for (const definition of definitions) {
+    const call = callPharmacogene(definition, result);
+    if (call) calls.push(call);
+  }
+
+  return calls;
+}
+
+/**
+ * Call a single pharmacogene
+ */
+function callPharmacogene(
+  definition: PharmacogeneDefinition,
+  result: Pick<ExtractionResult, 'variants' | 'missing'>
+): PharmacogeneCall | undefined {
+  const rsids = [...new Set(definition.alleles.flatMap((a) => a.variants.map((v) => v.rsid)))];
+  const included = (rsid: string) =>
+    result.variants.some((v) => v.rsid === rsid) || result.missing.some((v) => v.rsid === rsid);
+  if (!rsids.some(included)) return undefined;
+
+  // Collect usable genotypes; everything else is reported as missing
+  const genotypes: Record<string, string> = {};
+  const missingSnps: string[] = [];
+  for (const rsid of rsids) {
+    const variant = result.variants.find((v) => v.rsid === rsid);
+    if (variant && variant.status === 'found' && /^[ACGT]{2}$/i.test(variant.genotype)) {
+      genotypes[rsid] = variant.genotype.toUpperCase();
+    } else {
+      missingSnps.push(rsid);
+    }
+  }
+
+  const call: PharmacogeneCall = {
+    gene: definition.gene,
+    diplotype: null,
+    phenotype: null,
+    genotypes,
+  };
+  if (missingSnps.length > 0) {
+    call.missingSnps = missingSnps;
+  }
+
+  if (Object.keys(genotypes).length === 0) {
+    call.note = 'No defining SNPs were genotyped.';
+    return call;
+  }
+
+  // Variant-allele copies still available for assignment, keyed by "rsid:allele"
+  const available = new Map<string, number>();
+  const copiesOf = (rsid: string, allele: string): number => {
+    const key = `${rsid}:${allele}`;
+    if (!available.has(key)) {
+      available.set(key, [...(genotypes[rsid] as string)].filter((a) => a === allele).length);
+    }
+    return available.get(key) as number;
+  };
+
+  const carried: StarAlleleDefinition[] = [];
+  const untested: string[] = [];
+
+  for (const allele of definition.alleles) {
+    if (allele.variants.some((v) => !(v.rsid in genotypes))) {
+      untested.push(allele.name);
+      continue;
+    }
+
+    const copies = Math.min(...allele.variants.map((v) => copiesOf(v.rsid, v.allele)));
+    for (const v of allele.variants) {
+      available.set(`${v.rsid}:${v.allele}`, copiesOf(v.rsid, v.allele) - copies);
+    }
+    for (let i = 0; i < copies; i++) {
+      carried.push(allele);
+    }
+  }
+
+  const notes: string[] = [];
+  if (untested.length > 0) {
+    notes.push(`Not tested (defining SNPs missing): ${untested.join(', ')}.`);
+  }
+  if (definition.caveat) {
+    notes.push(definition.caveat);
+  }
+
+  if (carried.length > 2) {
+    notes.unshift('Genotypes imply more than two star alleles; no diplotype could be called.');
+  } else {
+    const referenceCount = 2 - carried.length;
+    const names = [
+      ...Array<string>(referenceCount).fill(definition.referenceAllele),
+      ...carried.map((a) => a.name),
+    ];
+    const activityScore =
+      referenceCount * REFERENCE_ACTIVITY + carried.reduce((sum, a) => sum + a.activity, 0);
+
+    call.diplotype = names.join('/');
+    call.activityScore = activityScore;
+    call.phenotype = definition.phenotype(activityScore);
+  }
+
+  if (notes.length > 0) {
+    call.note = notes.join(' ');
+  }
+  return call;
+}
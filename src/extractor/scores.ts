@@ -0,0 +1,95 @@
+/**
+ * Polygenic scores - weighted sums of effect allele copies over a SNP set
+ *
+ * Score SNPs are looked up in the whole genome file by rsID, not just among
+ * the SNP list's entries, since a score can span hundreds of SNPs. For each:
+ * 1. Orient the genotype to the score's strand and count effect allele copies
+ * 2. If the SNP is missing or a no-call, impute 2 x effect allele frequency
+ *    copies when the frequency is known, otherwise leave it out
+ * 3. Add copies x weight to the score
+ *
+ * A score is withheld when too few of its SNPs were genotyped to mean much.
+ * Scores are relative: they rank a genome against others scored the same way
+ * and are not a risk estimate on their own.
+ */
+
+import type { GenomeLookup, ScoreDefinition, ScoreResult, ScoreSNP } from '../types';
+import { interpretGenotype, isStrandResolved, orientGenotype } from './alleles';
+
+/** Share of a score's SNPs that must be genotyped for the score to be given */
+export const MIN_SCORE_COVERAGE = 0.5;
+
+/**
+ * Compute polygenic scores from a genome lookup
+ * @param definitions Score definitions from the SNP list
+ * @param lookup Genome lookup (rsID matching only, so any build works)
+ */
+export function calculateScores(
+  definitions: ScoreDefinition[],
+  lookup: GenomeLookup
+): ScoreResult[] {
+  return definitions.map((definition) => calculateScore(definition, lookup));
+}
+
+function calculateScore(definition: ScoreDefinition, lookup: GenomeLookup): ScoreResult {
+  let score = 0;
+  let snpsUsed = 0;
+  let snpsImputed = 0;
+  const missingSnps: string[] = [];
+
+  for (const snp of definition.snps) {
+    const copies = effectAlleleCopies(snp, lookup);
+    if (copies !== undefined) {
+      score += copies * snp.weight;
+      snpsUsed++;
+    } else if (snp.effectAlleleFrequency !== undefined) {
+      score += 2 * snp.effectAlleleFrequency * snp.weight;
+      snpsImputed++;
+    } else {
+      missingSnps.push(snp.rsid);
+    }
+  }
+
+  const snpsTotal = definition.snps.length;
+  const result: ScoreResult = {
+    id: definition.id,
+    name: definition.name,
+    category: definition.category,
+    score: round(score),
+    snpsTotal,
+    snpsUsed,
+    snpsImputed,
+    snpsMissing: missingSnps.length,
+  };
+  if (missingSnps.length > 0) {
+    result.missingSnps = missingSnps;
+  }
+
+  if (snpsTotal === 0 || snpsUsed / snpsTotal < MIN_SCORE_COVERAGE) {
+    result.score = null;
+    result.note = `Only ${snpsUsed} of ${snpsTotal} SNPs were genotyped; at least ${Math.ceil(snpsTotal * MIN_SCORE_COVERAGE)} are needed for a score.`;
+  }
+
+  return result;
+}
+
+/**
+ * Count effect allele copies for a score SNP
+ * @returns Copies (0-2), or undefined when the SNP is missing, a no-call or can't be oriented
+ */
+function effectAlleleCopies(snp: ScoreSNP, lookup: GenomeLookup): number | undefined {
+  const variant = lookup.byRsid.get(snp.rsid.toLowerCase());
+  if (!variant || variant.genotype === '--') return undefined;
+
+  // The effect and other alleles orient the call; without the other allele it is read as written
+  const site = { alleles: snp.otherAllele ? [snp.effectAllele, snp.otherAllele] : undefined };
+  const oriented = orientGenotype(variant.genotype, site);
+  if (!isStrandResolved(site, oriented)) return undefined;
+
+  return interpretGenotype(oriented?.genotype ?? variant.genotype, snp.effectAllele)
+    ?.riskAlleleCount;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
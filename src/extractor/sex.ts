@@ -0,0 +1,60 @@
+/**
+ * Hemizygous X/Y handling
+ *
+ * Males carry one X and one Y, so calls outside the pseudoautosomal regions
+ * (PARs) hold a single allele. Chips write these either as one letter
+ * (23andMe "A") or doubled (AncestryDNA "AA"); a doubled call is still one
+ * copy, so risk allele dosage must be read from the collapsed genotype.
+ */
+
+import type { ChromosomalSex, GenomeBuild } from '../types';
+
+/** X pseudoautosomal regions per build: [PAR1 end, PAR2 start, PAR2 end] */
+const X_PAR_BOUNDS: Record<GenomeBuild, [number, number, number]> = {
+  36: [2709520, 154584238, 154913754],
+  37: [2699520, 154931044, 155260560],
+  38: [2781479, 155701383, 156030895],
+};
+
+/**
+ * A genotype as read for dosage
+ */
+export interface PloidyGenotype {
+  genotype: string; // Single letter when hemizygous
+  hemizygous: boolean;
+}
+
+/**
+ * Check whether an X position lies in a pseudoautosomal region (diploid in males)
+ */
+export function isPseudoautosomal(position: number, build: GenomeBuild): boolean {
+  const [par1End, par2Start, par2End] = X_PAR_BOUNDS[build];
+  return position <= par1End || (position >= par2Start && position <= par2End);
+}
+
+/**
+ * Read a called genotype as single-copy where the site is hemizygous
+ *
+ * Single-letter calls are hemizygous whatever the sex. For males, homozygous
+ * calls on Y and on X outside the PARs are collapsed to one letter;
+ * heterozygous calls there are left alone, as they cannot be single-copy.
+ */
+export function resolvePloidy(
+  genotype: string,
+  chromosome: string,
+  position: number,
+  build: GenomeBuild,
+  sex: ChromosomalSex
+): PloidyGenotype {
+  if (genotype.length === 1) {
+    return { genotype, hemizygous: true };
+  }
+
+  const singleCopySite =
+    chromosome === 'Y' || (chromosome === 'X' && !isPseudoautosomal(position, build));
+  if (sex === 'male' && singleCopySite && genotype.length === 2 && genotype[0] === genotype[1]) {
+    return { genotype: genotype[0] as string, hemizygous: true };
+  }
+
+  return { genotype, hemizygous: false };
+}
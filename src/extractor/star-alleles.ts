@@ -0,0 +1,110 @@
+/**
+ * Star-allele definitions for pharmacogenomic calling
+ *
+ * A deliberately small, SNP-only table covering variants that consumer chips
+ * genotype. Alleles are on the GRCh37 plus strand, matching the SNP list.
+ * Activity values follow the CPIC activity-score convention (1 = normal
+ * function, 0.5 / 0.25 = decreased, 0 = no function, 1.5 = increased).
+ *
+ * Alleles defined by several SNPs list all of them; a gene's alleles are
+ * ordered most specific first so shared SNPs are assigned correctly
+ * (e.g., CYP2D6*4 carries the *10 variant rs1065852).
+ */
+
+import type { PGxPhenotype } from '../types';
+
+/**
+ * A single star allele and the variant alleles that define it
+ */
+export interface StarAlleleDefinition {
+  name: string; // e.g., "*2"
+  variants: { rsid: string; allele: string }[];
+  activity: number;
+}
+
+/**
+ * A pharmacogene: its star alleles and how activity maps to phenotype
+ */
+export interface PharmacogeneDefinition {
+  gene: string;
+  referenceAllele: string; // Assumed where no defining variant is carried
+  alleles: StarAlleleDefinition[];
+  phenotype: (activityScore: number) => PGxPhenotype;
+  caveat?: string; // Limitation of SNP-only calling for this gene
+}
+
+export const PHARMACOGENES: PharmacogeneDefinition[] = [
+  {
+    gene: 'CYP2C19',
+    referenceAllele: '*1',
+    alleles: [
+      { name: '*2', variants: [{ rsid: 'rs4244285', allele: 'A' }], activity: 0 },
+      { name: '*3', variants: [{ rsid: 'rs4986893', allele: 'A' }], activity: 0 },
+      { name: '*17', variants: [{ rsid: 'rs12248560', allele: 'T' }], activity: 1.5 },
+    ],
+    phenotype: (score) => {
+      if (score >= 3) return 'ultrarapid-metabolizer';
+      if (score > 2) return 'rapid-metabolizer';
+      if (score === 2) return 'normal-metabolizer';
+      if (score > 0) return 'intermediate-metabolizer';
+      return 'poor-metabolizer';
+    },
+  },
+  {
+    gene: 'CYP2C9',
+    referenceAllele: '*1',
+    alleles: [
+      { name: '*2', variants: [{ rsid: 'rs1799853', allele: 'T' }], activity: 0.5 },
+      { name: '*3', variants: [{ rsid: 'rs1057910', allele: 'C' }], activity: 0 },
+    ],
+    phenotype: (score) => {
+      if (score >= 2) return 'normal-metabolizer';
+      if (score > 0.5) return 'intermediate-metabolizer';
+      return 'poor-metabolizer';
+    },
+  },
+  {
+    gene: 'CYP2D6',
+    referenceAllele: '*1',
+    alleles: [
+      {
+        name: '*4',
+        variants: [
+          { rsid: 'rs3892097', allele: 'T' },
+          { rsid: 'rs1065852', allele: 'A' },
+        ],
+        activity: 0,
+      },
+      { name: '*10', variants: [{ rsid: 'rs1065852', allele: 'A' }], activity: 0.25 },
+      { name: '*41', variants: [{ rsid: 'rs28371725', allele: 'T' }], activity: 0.5 },
+    ],
+    phenotype: (score) => {
+      if (score > 2.25) return 'ultrarapid-metabolizer';
+      if (score >= 1.25) return 'normal-metabolizer';
+      if (score > 0) return 'intermediate-metabolizer';
+      return 'poor-metabolizer';
+    },
+    caveat: 'SNP-only call: gene deletions (*5), duplications and hybrid alleles are not detected.',
+  },
+  {
+    gene: 'SLCO1B1',
+    referenceAllele: '*1',
+    alleles: [{ name: '*5', variants: [{ rsid: 'rs4149056', allele: 'C' }], activity: 0 }],
+    phenotype: (score) => {
+      if (score >= 2) return 'normal-function';
+      if (score >= 1) return 'decreased-function';
+      return 'poor-function';
+    },
+  },
+  {
+    gene: 'VKORC1',
+    referenceAllele: '-1639G',
+    // -1639G>A is named on the gene's (minus) strand; it reads C>T on the plus strand
+    alleles: [{ name: '-1639A', variants: [{ rsid: 'rs9923231', allele: 'T' }], activity: 0 }],
+    phenotype: (score) => {
+      if (score >= 2) return 'normal-sensitivity';
+      if (score >= 1) return 'increased-sensitivity';
+      return 'high-sensitivity';
+    },
+  },
+];
@@ -0,0 +1,47 @@
+/**
+ * Bundled liftover data for the listed SNP positions
+ *
+ * Full UCSC chain files run to tens of megabytes, so only the coordinates of
+ * SNPs in the bundled list are shipped: each anchor gives one site's position
+ * in every build it is known for. A position with no anchor cannot be lifted
+ * and is only matched by rsID.
+ *
+ * Coordinates are 1-based, from dbSNP. Not every site has a GRCh36 anchor;
+ * those sites match GRCh36 files by rsID alone.
+ */
+
+import type { GenomeBuild } from '../types';
+
+/**
+ * One site's position in each supported build
+ */
+export interface LiftoverAnchor {
+  rsid: string;
+  chromosome: string;
+  positions: Partial<Record<GenomeBuild, number>>;
+}
+
+export const LIFTOVER_ANCHORS: LiftoverAnchor[] = [
+  { rsid: 'rs1801133', chromosome: '1', positions: { 36: 11778965, 37: 11856378, 38: 11796321 } },
+  { rsid: 'rs1801131', chromosome: '1', positions: { 36: 11777063, 37: 11854476, 38: 11794419 } },
+  { rsid: 'rs429358', chromosome: '19', positions: { 36: 50103781, 37: 45411941, 38: 44908684 } },
+  { rsid: 'rs7412', chromosome: '19', positions: { 36: 50103919, 37: 45412079, 38: 44908822 } },
+  { rsid: 'rs4680', chromosome: '22', positions: { 36: 18331271, 37: 19951271, 38: 19963748 } },
+  { rsid: 'rs1800497', chromosome: '11', positions: { 37: 113400106, 38: 113529384 } },
+  { rsid: 'rs6265', chromosome: '11', positions: { 37: 27679916, 38: 27658369 } },
+  { rsid: 'rs1799971', chromosome: '6', positions: { 37: 154360797, 38: 154039662 } },
+  { rsid: 'rs12248560', chromosome: '10', positions: { 37: 96521657, 38: 94761900 } },
+  { rsid: 'rs4244285', chromosome: '10', positions: { 37: 96541616, 38: 94781859 } },
+  { rsid: 'rs1045642', chromosome: '7', positions: { 37: 87138645, 38: 87509329 } },
+  { rsid: 'rs53576', chromosome: '3', positions: { 37: 8804371, 38: 8762685 } },
+  { rsid: 'rs7799039', chromosome: '7', positions: { 37: 127882854, 38: 128242800 } },
+  { rsid: 'rs9939609', chromosome: '16', positions: { 36: 52378028, 37: 53820527, 38: 53786615 } },
+  { rsid: 'rs1544410', chromosome: '12', positions: { 37: 48239835, 38: 47846052 } },
+  { rsid: 'rs2282679', chromosome: '4', positions: { 37: 72608383, 38: 71742666 } },
+  { rsid: 'rs762551', chromosome: '15', positions: { 37: 75041917, 38: 74749576 } },
+  {
+    rsid: 'rs4988235',
+    chromosome: '2',
+    positions: { 36: 136325116, 37: 136608646, 38: 135851076 },
+  },
+];
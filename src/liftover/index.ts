@@ -0,0 +1,124 @@
+/**
+ * Liftover module - reference build detection and offline coordinate conversion
+ *
+ * Genome files report positions in the build they were generated against
+ * (GRCh36 for 23andMe v3, GRCh38 for recent VCFs), while SNP list positions
+ * are GRCh37 unless the list says otherwise. Variants are lifted to the
+ * list's build using the bundled anchors before position matching.
+ */
+
+import type { GenomeBuild, GenomeFormat, GenomeLookup, GenomeVariant } from '../types';
+import { LIFTOVER_ANCHORS } from './chain-data';
+
+export { LIFTOVER_ANCHORS } from './chain-data';
+export type { LiftoverAnchor } from './chain-data';
+
+/** Build assumed for SNP lists that don't declare one */
+export const DEFAULT_TARGET_BUILD: GenomeBuild = '37';
+
+/** Minimum anchors agreeing on a build before it is inferred from positions */
+const MIN_INFERENCE_VOTES = 2;
+
+/** Anchors indexed by "build:chromosome:position" */
+const anchorIndex = new Map<string, (typeof LIFTOVER_ANCHORS)[number]>();
+for (const anchor of LIFTOVER_ANCHORS) {
+  for (const [build, position] of Object.entries(anchor.positions)) {
+    anchorIndex.set(`${build}:${anchor.chromosome}:${position}`, anchor);
+  }
+}
+
+/**
+ * Normalize a build label from a file header or SNP list
+ * Accepts bare numbers ("37") and assembly names ("GRCh38", "hg19", "NCBI36", "b37")
+ */
+export function normalizeBuild(build: string | undefined): GenomeBuild | undefined {
+  if (!build) return undefined;
+  const label = build.trim();
+
+  if (/^(?:38|GRCh38|hg38|b38)$/i.test(label)) return '38';
+  if (/^(?:37|GRCh37|hg19|b37|hs37d5)$/i.test(label)) return '37';
+  if (/^(?:36|NCBI36|GRCh36|hg18|b36)$/i.test(label)) return '36';
+
+  return undefined;
+}
+
+/**
+ * Determine a parsed genome's build
+ * Uses the header build when present, then the format's known build, then
+ * votes from anchor SNPs whose file position matches exactly one build.
+ */
+export function detectBuild(
+  metadataBuild: string | undefined,
+  format: GenomeFormat,
+  lookup: GenomeLookup
+): GenomeBuild | undefined {
+  const declared = normalizeBuild(metadataBuild);
+  if (declared) return declared;
+
+  // 23andMe v3 files were always generated against build 36
+  if (format === '23andme-v3') return '36';
+
+  return inferBuild(lookup);
+}
+
+/**
+ * Infer the build from the positions of anchor SNPs in the file
+ * @returns The build most anchors agree on, or undefined without enough evidence
+ */
+export function inferBuild(lookup: GenomeLookup): GenomeBuild | undefined {
+  const votes = new Map<GenomeBuild, number>();
+
+  for (const anchor of LIFTOVER_ANCHORS) {
+    const variant = lookup.byRsid.get(anchor.rsid);
+    if (!variant) continue;
+
+    for (const [build, position] of Object.entries(anchor.positions)) {
+      if (position === variant.position) {
+        const key = build as GenomeBuild;
+        votes.set(key, (votes.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  let best: GenomeBuild | undefined;
+  let bestVotes = 0;
+  for (const [build, count] of votes) {
+    if (count > bestVotes) {
+      best = build;
+      bestVotes = count;
+    }
+  }
+
+  return bestVotes >= MIN_INFERENCE_VOTES ? best : undefined;
+}
+
+/**
+ * Lift a position between builds
+ * @returns Position in the target build, or undefined if the site has no anchor
+ */
+export function liftPosition(
+  chromosome: string,
+  position: number,
+  fromBuild: GenomeBuild,
+  toBuild: GenomeBuild
+): number | undefined {
+  if (fromBuild === toBuild) return position;
+
+  const chr = chromosome.toUpperCase().replace(/^CHR/, '');
+  const anchor = anchorIndex.get(`${fromBuild}:${chr}:${position}`);
+  return anchor?.positions[toBuild];
+}
+
+/**
+ * Lift a variant between builds
+ * @returns A copy with the lifted position, or undefined if the site has no anchor
+ */
+export function liftoverVariant(
+  variant: GenomeVariant,
+  fromBuild: GenomeBuild,
+  toBuild: GenomeBuild
+): GenomeVariant | undefined {
+  const position = liftPosition(variant.chromosome, variant.position, fromBuild, toBuild);
+  if (position === undefined) return undefined;
+  return position === variant.position ? variant : { ...variant, position };
+}
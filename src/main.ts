@@ -2,20 +2,43 @@
  * GenomeGist - Main entry point
  */
 
-import { parseGenomeFile, formatDisplayName } from './parser';
-import { loadFreeSNPList, validateSNPList } from './snp-list';
-import { extractVariants, estimateMatches } from './extractor';
-import { toYAML, generateFilename } from './output';
+import { formatDisplayName, getParsers, COMPRESSED_EXTENSIONS } from './parser';
+import {
+  buildCategoryTree,
+  categoryPathLabel,
+  categoryPathOf,
+  deriveDigestKey,
+  diffSNPListDigest,
+  diffSNPLists,
+  digestSNPList,
+  listTags,
+  loadFreeSNPList,
+  parseSNPListFile,
+  snapshotSNPList,
+  validateSNPList,
+} from './snp-list';
+import { createPipelineClient } from './worker/client';
+import { toYAML, generateFilename, describeListDiff, describeListDigestDiff } from './output';
+import { formatRate, sexFromStatus } from './qc';
 import type {
+  CategoryNode,
+  CategoryPath,
+  ChromosomalSex,
+  GenomeFormat,
   SNPList,
   ExtractionResult,
+  MatchPreview,
   OutputFormat,
-  ParseResult,
+  ParseDiagnostic,
+  ParsedFileSummary,
+  ProcessingStatus,
+  QCReport,
   SNPCategory,
+  SNPEntry,
+  SNPListDigest,
   Tier,
 } from './types';
 import {
-  ParseError,
   ALL_CATEGORIES,
   CATEGORY_LABELS,
   TIER_REQUIRES_LICENSE,
@@ -32,6 +55,7 @@ import {
 // localStorage keys
 const FORMAT_STORAGE_KEY = 'genomegist-output-format';
 const TIER_STORAGE_KEY = 'genomegist-tier';
+const LAST_LIST_STORAGE_KEY = 'genomegist-last-list'; // Per tier: list last extracted with
 const TOKEN_STORAGE_KEY = 'genomegist-token';
 
 // API configuration
@@ -137,20 +161,45 @@ const fileInput = getElement<HTMLInputElement>('file-input');
 // DOM elements - Status section
 const statusDiv = getElement<HTMLDivElement>('status');
 const statusText = getElement<HTMLParagraphElement>('status-text');
+const statusProgress = getElement<HTMLProgressElement>('status-progress');
+const cancelBtn = getElement<HTMLButtonElement>('cancel-btn');
 
 // DOM elements - Extraction panel
 const extractionPanel = getElement<HTMLDivElement>('extraction-panel');
 const detectedFormat = getElement<HTMLElement>('detected-format');
+const formatSelect = getElement<HTMLSelectElement>('format-select');
+const formatHint = getElement<HTMLParagraphElement>('format-hint');
+const mergeSummary = getElement<HTMLParagraphElement>('merge-summary');
+const listChanges = getElement<HTMLDetailsElement>('list-changes');
+const listChangesSummary = getElement<HTMLElement>('list-changes-summary');
+const listChangesList = getElement<HTMLUListElement>('list-changes-list');
 const variantCount = getElement<HTMLElement>('variant-count');
 const changeFileBtn = getElement<HTMLButtonElement>('change-file-btn');
 const categoryCheckboxes = getElement<HTMLDivElement>('category-checkboxes');
 const categoriesSection = getElement<HTMLDivElement>('categories-section');
+const tagFilter = getElement<HTMLDivElement>('tag-filter');
+const tagFilterOptions = getElement<HTMLDivElement>('tag-filter-options');
+
+// DOM elements - Custom SNP list
+const customListSection = getElement<HTMLDivElement>('custom-list');
+const customListInput = getElement<HTMLInputElement>('custom-list-input');
+const customListBtn = getElement<HTMLButtonElement>('custom-list-btn');
+const customListStatus = getElement<HTMLParagraphElement>('custom-list-status');
+const customListError = getElement<HTMLDivElement>('custom-list-error');
 
 // DOM elements - Preview stats and actions
 const previewMatched = getElement<HTMLSpanElement>('preview-matched');
 const previewNocall = getElement<HTMLSpanElement>('preview-nocall');
 const previewMissing = getElement<HTMLSpanElement>('preview-missing');
 const fileSizeSpan = getElement<HTMLSpanElement>('file-size');
+const qcSummary = getElement<HTMLDListElement>('qc-summary');
+const qcChromosomes = getElement<HTMLTableSectionElement>('qc-chromosomes');
+const qcDiagnostics = getElement<HTMLDetailsElement>('qc-diagnostics');
+const qcDiagnosticsSummary = getElement<HTMLElement>('qc-diagnostics-summary');
+const qcDiagnosticsList = getElement<HTMLUListElement>('qc-diagnostics-list');
+const qcIncludeCheckbox = getElement<HTMLInputElement>('qc-include');
+const sexSelect = getElement<HTMLSelectElement>('sex-select');
+const sexInferredOption = getElement<HTMLOptionElement>('sex-inferred-option');
 const downloadBtn = getElement<HTMLButtonElement>('download-btn');
 const extractionHint = getElement<HTMLParagraphElement>('extraction-hint');
 
@@ -180,13 +229,21 @@ const errorText = getElement<HTMLParagraphElement>('error-text');
 const versionText = getElement<HTMLSpanElement>('version-text');
 
 // State
-let currentParseResult: ParseResult | null = null;
+const pipeline = createPipelineClient(); // Parsing and matching run in a Web Worker
+let currentUpload: File[] = []; // Files picked by the user, kept for re-reading as another format
+let forcedFormat: GenomeFormat | undefined; // User's choice over the detected format
+let currentFile: ParsedFileSummary | null = null; // Summary of the file held by the worker
+let currentPreview: MatchPreview | null = null; // Match counts for the current list and categories
+let previewRequestId = 0; // Used to drop stale preview responses
 let currentResult: ExtractionResult | null = null;
 let snpList: SNPList | null = null;
 let paidSnpList: SNPList | null = null; // Decrypted paid SNP list (kept in closure)
-let currentReader: FileReader | null = null;
+let customSnpList: SNPList | null = null; // List file supplied by the user (not persisted)
 let selectedFormat: OutputFormat = 'detailed';
-let selectedCategories: SNPCategory[] = [...ALL_CATEGORIES];
+let includeQC = false; // Append the QC report to the saved output
+let sexOverride: ChromosomalSex | undefined; // User's choice over the sex inferred from the file
+let selectedCategories: CategoryPath[] = [...ALL_CATEGORIES]; // Each selects its whole subtree
+let selectedTags: string[] = []; // Empty: no tag filter
 let selectedTier: Tier = 'free';
 let storedToken: string | null = null;
 let sessionsRemaining: number | null = null;
@@ -297,8 +354,9 @@ async function init(): Promise<void> {
   // Restore tier preference (but validate token requirement)
   const savedTier = localStorage.getItem(TIER_STORAGE_KEY);
   if (savedTier && isValidTier(savedTier)) {
-    // If saved tier requires license but no token stored, fall back to free
-    if (TIER_REQUIRES_LICENSE[savedTier] && !storedToken) {
+    // If saved tier requires license but no token stored, fall back to free;
+    // a custom list isn't kept between visits, so that tier falls back too
+    if ((TIER_REQUIRES_LICENSE[savedTier] && !storedToken) || savedTier === 'custom') {
       selectedTier = 'free';
       setTierRadio('free');
     } else {
@@ -319,6 +377,24 @@ async function init(): Promise<void> {
     });
   });
 
+  // QC report toggle
+  qcIncludeCheckbox.addEventListener('change', () => {
+    includeQC = qcIncludeCheckbox.checked;
+  });
+
+  // Format override (empty value = auto-detect); re-reads the current file
+  formatSelect.addEventListener('change', () => {
+    forcedFormat = formatSelect.value || undefined;
+    if (currentUpload.length > 0) {
+      startParse(currentUpload);
+    }
+  });
+
+  // Chromosomal sex override (empty value = use the inferred sex)
+  sexSelect.addEventListener('change', () => {
+    sexOverride = isValidSex(sexSelect.value) ? sexSelect.value : undefined;
+  });
+
   // Set up tier change listeners
   const tierInputs = document.querySelectorAll<HTMLInputElement>('input[name="tier"]');
   tierInputs.forEach((input) => {
@@ -329,6 +405,16 @@ async function init(): Promise<void> {
     });
   });
 
+  // Custom SNP list file picker
+  customListBtn.addEventListener('click', () => customListInput.click());
+  customListInput.addEventListener('change', () => {
+    const file = customListInput.files?.[0];
+    if (file) {
+      handleCustomListFile(file);
+    }
+    customListInput.value = ''; // Allow picking the same file again after editing it
+  });
+
   // Set up license section event listeners
   tokenValidateBtn.addEventListener('click', handleTokenValidation);
   tokenInput.addEventListener('keypress', (e) => {
@@ -350,8 +436,9 @@ async function init(): Promise<void> {
     updateLicenseSectionUI();
   });
 
-  // Generate category checkboxes
+  // Generate category checkboxes and format choices
   generateCategoryCheckboxes();
+  generateFormatOptions();
 
   // Update license section visibility based on initial state
   updateLicenseSectionUI();
@@ -387,6 +474,7 @@ async function init(): Promise<void> {
     showStatus('Loading SNP list...');
     snpList = await loadFreeSNPList();
     hideStatus();
+    renderListChanges();
     if (import.meta.env.DEV) {
       console.log(`${TOOL_NAME} v${VERSION} loaded. SNP list v${snpList.version} with ${snpList.count} variants.`);
     }
@@ -407,8 +495,172 @@ function handleTierChange(tier: Tier): void {
   localStorage.setItem(TIER_STORAGE_KEY, selectedTier);
   updateLicenseSectionUI();
   updateDownloadButtonState();
-  updateCategoryCounts();
-  updateExtractionPreview();
+  generateCategoryCheckboxes();
+  refreshPreview();
+  renderListChanges();
+}
+
+// List changes shown in the "what's new" notice; the rest are summarized in a final row
+const LIST_CHANGES_LIMIT = 20;
+
+// Show what changed in the tier's SNP list since the user last extracted with it
+function renderListChanges(): void {
+  const list = getSelectedList();
+  const tier = selectedTier;
+  const storageKey = `${LAST_LIST_STORAGE_KEY}-${tier}`;
+  const stored = localStorage.getItem(storageKey);
+  listChanges.hidden = true;
+  if (!list || !stored || tier === 'custom') return;
+
+  if (!TIER_REQUIRES_LICENSE[tier]) {
+    let changes: { summary: string; items: string[] } | null;
+    try {
+      changes = changesSinceSnapshot(validateSNPList(JSON.parse(stored)), list);
+    } catch {
+      localStorage.removeItem(storageKey);
+      return;
+    }
+    showListChanges(changes);
+    return;
+  }
+
+  // Paid list digests are keyed with the license token
+  const token = storedToken;
+  if (!token) return;
+  changesSinceDigest(stored, list, token)
+    .then((changes) => {
+      // The tier or license may have changed while hashing
+      if (selectedTier === tier && storedToken === token) showListChanges(changes);
+    })
+    .catch(() => {
+      // Unreadable, or a full copy of a paid list stored by an earlier version
+      localStorage.removeItem(storageKey);
+    });
+}
+
+function showListChanges(changes: { summary: string; items: string[] } | null): void {
+  if (!changes) return;
+
+  listChangesSummary.textContent = changes.summary;
+  listChangesList.replaceChildren(
+    ...changes.items.slice(0, LIST_CHANGES_LIMIT).map((text) => {
+      const li = document.createElement('li');
+      li.textContent = text;
+      return li;
+    })
+  );
+  if (changes.items.length > LIST_CHANGES_LIMIT) {
+    const more = document.createElement('li');
+    more.textContent = `…and ${changes.items.length - LIST_CHANGES_LIMIT} more`;
+    listChangesList.appendChild(more);
+  }
+  listChanges.hidden = false;
+}
+
+// Changes since a snapshot of a public list, field by field
+function changesSinceSnapshot(
+  previous: SNPList,
+  list: SNPList
+): { summary: string; items: string[] } | null {
+  if (previous.version === list.version) return null;
+
+  // Both sides are snapshots, so annotation edits compare as hashes
+  const diff = diffSNPLists(previous, snapshotSNPList(list));
+  const items = [
+    ...diff.added.map(describeAddedEntry),
+    ...diff.removed.map((e) => `Removed ${e.rsid} (${e.gene})`),
+    ...diff.changed.map((c) => {
+      const category = c.changes.find((f) => f.field === 'category');
+      const fields = c.changes.filter((f) => f.field !== 'category').map((f) => f.field);
+      const parts: string[] = [];
+      if (category?.before && category.after) {
+        const before = categoryPathLabel(String(category.before));
+        const after = categoryPathLabel(String(category.after));
+        parts.push(`moved from ${before} to ${after}`);
+      }
+      if (fields.length > 0) parts.push(`${fields.join(', ')} updated`);
+      return `${c.rsid} (${c.gene}): ${parts.join('; ')}`;
+    }),
+  ];
+  return { summary: describeChangesSummary(diff, describeListDiff(diff)), items };
+}
+
+// Changes since a stored digest of a paid list: only new and updated entries can be named
+async function changesSinceDigest(
+  stored: string,
+  list: SNPList,
+  token: string
+): Promise<{ summary: string; items: string[] } | null> {
+  const previous = parseListDigest(JSON.parse(stored));
+  if (previous.version === list.version) return null;
+
+  const diff = await diffSNPListDigest(previous, list, await deriveDigestKey(token));
+  const items = [
+    ...diff.added.map(describeAddedEntry),
+    ...diff.changed.map((e) => `${e.rsid} (${e.gene}): updated`),
+  ];
+  if (diff.removed > 0) {
+    items.push(`${diff.removed} ${diff.removed === 1 ? 'entry' : 'entries'} removed`);
+  }
+  return { summary: describeChangesSummary(diff, describeListDigestDiff(diff)), items };
+}
+
+function describeAddedEntry(entry: SNPEntry): string {
+  return `Added ${entry.rsid} (${entry.gene}, ${categoryPathLabel(categoryPathOf(entry))})`;
+}
+
+function describeChangesSummary(
+  diff: { fromVersion: string; toVersion: string },
+  counts: string
+): string {
+  return (
+    `What's new in SNP list v${diff.toVersion} since your last extraction ` +
+    `(v${diff.fromVersion}): ${counts}`
+  );
+}
+
+// Read a stored list digest
+function parseListDigest(data: unknown): SNPListDigest {
+  const digest = data as Partial<SNPListDigest> | null;
+  const entries = digest?.entries;
+  if (typeof digest?.version !== 'string' || typeof entries !== 'object' || entries === null) {
+    throw new Error('Invalid SNP list digest');
+  }
+  return digest as SNPListDigest;
+}
+
+// Remember the list just extracted with, so the next visit can show what changed
+// Paid lists are only remembered as a digest keyed with the license token, never in the clear
+function rememberExtractedList(): void {
+  const list = getSelectedList();
+  const tier = selectedTier;
+  if (!list || tier === 'custom') return;
+  listChanges.hidden = true;
+
+  if (!TIER_REQUIRES_LICENSE[tier]) {
+    storeExtractedList(tier, snapshotSNPList(list));
+    return;
+  }
+  const token = storedToken;
+  if (!token) return;
+  deriveDigestKey(token)
+    .then((key) => digestSNPList(list, key))
+    .then((digest) => {
+      // Don't bring the digest back if the license was cleared meanwhile
+      if (storedToken === token) storeExtractedList(tier, digest);
+    })
+    .catch((err) => {
+      console.warn('Could not remember the SNP list version:', err);
+    });
+}
+
+function storeExtractedList(tier: Tier, stored: SNPList | SNPListDigest): void {
+  try {
+    localStorage.setItem(`${LAST_LIST_STORAGE_KEY}-${tier}`, JSON.stringify(stored));
+  } catch (err) {
+    // Storage full or unavailable; the notice is a nice-to-have
+    console.warn('Could not remember the SNP list version:', err);
+  }
 }
 
 // Update license section visibility based on current state
@@ -420,6 +672,7 @@ function updateLicenseSectionUI(): void {
   licenseInput.hidden = true;
   licenseActive.hidden = true;
   categoriesSection.hidden = selectedTier === 'free'; // Hide categories for free tier
+  customListSection.hidden = selectedTier !== 'custom';
 
   if (!requiresLicense) {
     // Free tier - no license section needed
@@ -525,7 +778,7 @@ async function handleTokenValidation(): Promise<void> {
         tokenStatus.hidden = true;
         tokenInput.value = '';
         updateLicenseSectionUI();
-        updateExtractionPreview();
+        refreshPreview();
       }, 1500);
     } else {
       const errorMsg = result.error === 'exhausted'
@@ -559,6 +812,13 @@ function clearToken(): void {
   showManualInput = false;
   localStorage.removeItem(TOKEN_STORAGE_KEY);
 
+  // Forget the paid lists along with the license
+  for (const tier of Object.keys(TIER_REQUIRES_LICENSE) as Tier[]) {
+    if (TIER_REQUIRES_LICENSE[tier]) {
+      localStorage.removeItem(`${LAST_LIST_STORAGE_KEY}-${tier}`);
+    }
+  }
+
   // Hide purchase success banner if visible
   purchaseSuccessBanner.hidden = true;
 
@@ -570,7 +830,7 @@ function clearToken(): void {
   }
 
   updateLicenseSectionUI();
-  updateExtractionPreview();
+  refreshPreview();
 }
 
 // Handle purchase button click
@@ -613,8 +873,12 @@ function isValidFormat(value: string): value is OutputFormat {
   return value === 'detailed' || value === 'compact' || value === 'minimal';
 }
 
+function isValidSex(value: string): value is ChromosomalSex {
+  return value === 'female' || value === 'male' || value === 'unknown';
+}
+
 function isValidTier(value: string): value is Tier {
-  return value === 'free' || value === 'full';
+  return value === 'free' || value === 'full' || value === 'custom';
 }
 
 function setFormatRadio(format: OutputFormat): void {
@@ -631,80 +895,181 @@ function setTierRadio(tier: Tier): void {
   }
 }
 
-// Generate category toggles dynamically using DOM APIs
+// List every registered format in the "Read as" select
+function generateFormatOptions(): void {
+  for (const parser of getParsers()) {
+    for (const format of parser.formats) {
+      const option = document.createElement('option');
+      option.value = format;
+      option.textContent = formatDisplayName(format);
+      formatSelect.appendChild(option);
+    }
+  }
+}
+
+// Generate the category tree for the selected list, plus its tag filter
+// A toggle selects its whole subtree; subcategories come from the list itself
 function generateCategoryCheckboxes(): void {
   // Clear existing children using DOM API consistently
   while (categoryCheckboxes.firstChild) {
     categoryCheckboxes.removeChild(categoryCheckboxes.firstChild);
   }
 
-  for (const category of ALL_CATEGORIES) {
-    const labelInfo = CATEGORY_LABELS[category];
-    const isChecked = selectedCategories.includes(category);
-
-    const wrapper = document.createElement('label');
-    wrapper.className = `category-toggle${isChecked ? ' active' : ''}`;
-    wrapper.dataset.category = category;
-
-    const checkbox = document.createElement('input');
-    checkbox.type = 'checkbox';
-    checkbox.value = category;
-    checkbox.checked = isChecked;
-    checkbox.addEventListener('change', handleCategoryCheckboxChange);
-
-    const contentSpan = document.createElement('span');
-    contentSpan.className = 'category-toggle-content';
+  for (const node of buildCategoryTree(getSelectedList())) {
+    categoryCheckboxes.appendChild(createCategoryNode(node));
+  }
+  syncCategorySelection();
 
-    const nameSpan = document.createElement('span');
-    nameSpan.className = 'category-toggle-name';
-    nameSpan.textContent = labelInfo.name;
+  generateTagFilter();
+}
 
-    // Add count span (will be updated when file is loaded)
-    const countSpan = document.createElement('span');
-    countSpan.className = 'category-toggle-count';
-    countSpan.dataset.categoryCount = category;
-    countSpan.textContent = '—';
+// One toggle and, nested below it, its subcategories
+function createCategoryNode(node: CategoryNode): HTMLDivElement {
+  const isChecked = selectedCategories.some(
+    (path) => node.path === path || node.path.startsWith(`${path}/`)
+  );
 
-    contentSpan.appendChild(nameSpan);
-    contentSpan.appendChild(countSpan);
+  const nodeDiv = document.createElement('div');
+  nodeDiv.className = 'category-node';
 
-    // Toggle switch
-    const switchSpan = document.createElement('span');
-    switchSpan.className = 'category-toggle-switch';
+  const wrapper = document.createElement('label');
+  wrapper.className = `category-toggle${isChecked ? ' active' : ''}`;
+  wrapper.dataset.category = node.path;
+  if (ALL_CATEGORIES.includes(node.path as SNPCategory)) {
+    wrapper.title = CATEGORY_LABELS[node.path as SNPCategory].description;
+  }
 
-    wrapper.appendChild(checkbox);
-    wrapper.appendChild(contentSpan);
-    wrapper.appendChild(switchSpan);
-    categoryCheckboxes.appendChild(wrapper);
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.value = node.path;
+  checkbox.checked = isChecked;
+  checkbox.addEventListener('change', handleCategoryCheckboxChange);
+
+  const contentSpan = document.createElement('span');
+  contentSpan.className = 'category-toggle-content';
+
+  const nameSpan = document.createElement('span');
+  nameSpan.className = 'category-toggle-name';
+  nameSpan.textContent = node.name;
+
+  // Add count span (will be updated when file is loaded)
+  const countSpan = document.createElement('span');
+  countSpan.className = 'category-toggle-count';
+  countSpan.dataset.categoryCount = node.path;
+  countSpan.textContent = '—';
+
+  contentSpan.appendChild(nameSpan);
+  contentSpan.appendChild(countSpan);
+
+  // Toggle switch
+  const switchSpan = document.createElement('span');
+  switchSpan.className = 'category-toggle-switch';
+
+  wrapper.appendChild(checkbox);
+  wrapper.appendChild(contentSpan);
+  wrapper.appendChild(switchSpan);
+  nodeDiv.appendChild(wrapper);
+
+  if (node.children.length > 0) {
+    const childrenDiv = document.createElement('div');
+    childrenDiv.className = 'category-children';
+    for (const child of node.children) {
+      childrenDiv.appendChild(createCategoryNode(child));
+    }
+    nodeDiv.appendChild(childrenDiv);
   }
+
+  return nodeDiv;
 }
 
 function handleCategoryCheckboxChange(e: Event): void {
   const checkbox = e.target as HTMLInputElement;
-  const wrapper = checkbox.closest('.category-toggle');
-
-  // Update wrapper active class
-  if (wrapper) {
-    wrapper.classList.toggle('active', checkbox.checked);
-  }
-
-  // Gather all checked categories
+  const path = checkbox.value;
   const checkboxes = categoryCheckboxes.querySelectorAll<HTMLInputElement>('input[type="checkbox"]');
-  selectedCategories = [];
 
   checkboxes.forEach((cb) => {
-    if (cb.checked) {
-      selectedCategories.push(cb.value as SNPCategory);
+    // A toggle carries its subcategories along
+    if (cb.value.startsWith(`${path}/`)) {
+      cb.checked = checkbox.checked;
+    }
+    // A category stays on only while all of it is selected; its other subcategories stay on
+    if (!checkbox.checked && path.startsWith(`${cb.value}/`)) {
+      cb.checked = false;
     }
   });
 
-  updateExtractionPreview();
+  syncCategorySelection();
+  refreshPreview();
+}
+
+// Gather the selected subtrees and mark toggles that are on or partly on
+function syncCategorySelection(): void {
+  const checkboxes = [
+    ...categoryCheckboxes.querySelectorAll<HTMLInputElement>('input[type="checkbox"]'),
+  ];
+  const checked = checkboxes.filter((cb) => cb.checked).map((cb) => cb.value);
+
+  // A checked category already covers its checked subcategories
+  selectedCategories = checked.filter(
+    (path) => !checked.some((other) => path.startsWith(`${other}/`))
+  ) as CategoryPath[];
+
+  for (const cb of checkboxes) {
+    const partial = !cb.checked && checked.some((path) => path.startsWith(`${cb.value}/`));
+    const wrapper = cb.closest('.category-toggle');
+    wrapper?.classList.toggle('active', cb.checked);
+    wrapper?.classList.toggle('partial', partial);
+  }
+}
+
+// Tag chips for the selected list; hidden when its entries carry no tags
+function generateTagFilter(): void {
+  const list = getSelectedList();
+  const tags = list ? listTags(list) : [];
+  const available = new Set(tags.map(({ tag }) => tag.toLowerCase()));
+  selectedTags = selectedTags.filter((tag) => available.has(tag.toLowerCase()));
+
+  tagFilterOptions.replaceChildren(
+    ...tags.map(({ tag, count }) => {
+      const chip = document.createElement('label');
+      const isChecked = selectedTags.some((t) => t.toLowerCase() === tag.toLowerCase());
+      chip.className = `tag-chip${isChecked ? ' active' : ''}`;
+
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.value = tag;
+      checkbox.checked = isChecked;
+      checkbox.addEventListener('change', handleTagChange);
+
+      chip.appendChild(checkbox);
+      chip.appendChild(document.createTextNode(`${tag} (${count})`));
+      return chip;
+    })
+  );
+  tagFilter.hidden = tags.length === 0;
+}
+
+function handleTagChange(e: Event): void {
+  const checkbox = e.target as HTMLInputElement;
+  checkbox.closest('.tag-chip')?.classList.toggle('active', checkbox.checked);
+
+  selectedTags = [
+    ...tagFilterOptions.querySelectorAll<HTMLInputElement>('input[type="checkbox"]'),
+  ]
+    .filter((cb) => cb.checked)
+    .map((cb) => cb.value);
+
+  refreshPreview();
 }
 
 // UI Helpers
-function showStatus(message: string): void {
+// Show a status message; worker jobs pass a progress percentage and can be cancelled
+function showStatus(message: string, progress?: number): void {
   statusDiv.hidden = false;
   statusText.textContent = message;
+  statusProgress.hidden = progress === undefined;
+  statusProgress.value = progress ?? 0;
+  cancelBtn.hidden = progress === undefined;
   extractionPanel.hidden = true;
   errorDiv.hidden = true;
 }
@@ -713,21 +1078,278 @@ function hideStatus(): void {
   statusDiv.hidden = true;
 }
 
-function showExtractionPanel(parseResult: ParseResult): void {
+// Render a status reported by the processing worker
+function renderProcessingStatus(status: ProcessingStatus): void {
+  switch (status.state) {
+    case 'idle':
+      hideStatus();
+      break;
+
+    case 'reading':
+      showStatus(`Reading ${status.filename}... ${status.progress}%`, status.progress);
+      break;
+
+    case 'parsing':
+      showStatus(`Parsing ${status.filename}... ${status.progress}%`, status.progress);
+      break;
+
+    case 'parsed':
+      showExtractionPanel(status.file);
+      break;
+
+    case 'matching':
+      showStatus(
+        `Matching against ${status.variantCount.toLocaleString()} variants... ${status.progress}%`,
+        status.progress
+      );
+      break;
+
+    case 'complete':
+      currentResult = status.result;
+      downloadResults();
+      rememberExtractedList();
+
+      // Return to extraction panel
+      hideStatus();
+      extractionPanel.hidden = false;
+      break;
+
+    case 'cancelled':
+      // A cancelled extraction returns to the loaded file; a cancelled parse to the upload zone
+      if (currentFile) {
+        hideStatus();
+        extractionPanel.hidden = false;
+      } else {
+        resetToUpload();
+      }
+      break;
+
+    case 'error': {
+      let errorMessage = status.error.message;
+      if (status.error.details) {
+        errorMessage += ` ${status.error.details}`;
+      }
+      showError(errorMessage);
+      console.error('Processing error:', status.error);
+      break;
+    }
+  }
+}
+
+function showExtractionPanel(file: ParsedFileSummary): void {
   statusDiv.hidden = true;
   extractionPanel.hidden = false;
   errorDiv.hidden = true;
   uploadZone.hidden = true;
 
-  currentParseResult = parseResult;
+  currentFile = file;
+  currentPreview = null;
 
   // Display format and variant count
-  detectedFormat.textContent = formatDisplayName(parseResult.format);
-  variantCount.textContent = parseResult.variants.length.toLocaleString();
+  detectedFormat.textContent = formatDisplayName(file.format);
+  variantCount.textContent = file.variantCount.toLocaleString();
+  renderDetection(file);
+  renderMergeSummary(file);
+  renderQCReport(file.qc);
+  renderDiagnostics(file.diagnostics ?? []);
+
+  // A new file starts from its own inferred sex
+  sexOverride = undefined;
+  sexSelect.value = '';
+  sexInferredOption.textContent = `Inferred (${sexFromStatus(file.qc.sexChromosomes.status)})`;
 
   // Update license section, button state, and extraction preview
   updateLicenseSectionUI();
   updateDownloadButtonState();
+  refreshPreview();
+}
+
+// Detections below this confidence, or this close to the runner-up, are flagged
+const UNCERTAIN_CONFIDENCE = 0.8;
+const CLOSE_RUNNER_UP_MARGIN = 0.3;
+
+// Show how the format was chosen, and suggest overriding it when detection was a close call
+function renderDetection(file: ParsedFileSummary): void {
+  const detection = file.detection;
+  formatSelect.value = detection?.forced ? file.format : '';
+
+  if (!detection || detection.forced) {
+    detectedFormat.title = detection?.forced ? 'Format chosen manually' : '';
+    formatHint.hidden = true;
+    return;
+  }
+
+  const { confidence, runnerUp } = detection;
+  detectedFormat.title = `Detected with ${Math.round(confidence * 100)}% confidence${
+    runnerUp
+      ? `; runner-up ${formatDisplayName(runnerUp.format)} (${Math.round(runnerUp.confidence * 100)}%)`
+      : ''
+  }`;
+
+  const uncertain =
+    confidence < UNCERTAIN_CONFIDENCE ||
+    (runnerUp !== undefined && confidence - runnerUp.confidence < CLOSE_RUNNER_UP_MARGIN);
+  formatHint.hidden = !uncertain;
+  formatHint.textContent = runnerUp
+    ? `Format detection was a close call: this file also looks like ${formatDisplayName(runnerUp.format)}. If the results look wrong, choose the format under "Read as".`
+    : 'Format detection was uncertain. If the results look wrong, choose the format under "Read as".';
+}
+
+// Describe which files were merged and how much they overlapped
+function renderMergeSummary(file: ParsedFileSummary): void {
+  mergeSummary.hidden = !file.merge;
+  if (!file.merge) return;
+
+  const { sources, overlapping, filled, discordant } = file.merge;
+  const files = sources.map((s) => `${s.name} (${formatDisplayName(s.format)})`).join(', ');
+  mergeSummary.textContent = `Merged ${sources.length} files: ${files}. ${overlapping.toLocaleString()} SNPs in more than one file, ${filled.toLocaleString()} no-calls filled, ${discordant.toLocaleString()} called differently (the first file's call is used).`;
+}
+
+// Call rates below this are flagged in the QC summary
+const LOW_CALL_RATE = 0.95;
+
+// Render the file's QC report in the extraction panel
+function renderQCReport(qc: QCReport): void {
+  const { status, xHeterozygosityRate, yCallRate } = qc.sexChromosomes;
+  const rows: [label: string, value: string, warning: boolean][] = [
+    [
+      'Call rate',
+      `${formatRate(qc.callRate)} (${qc.noCalls.toLocaleString()} no-calls)`,
+      qc.callRate < LOW_CALL_RATE,
+    ],
+    ['Heterozygosity', formatRate(qc.heterozygosityRate), false],
+    ['Indels', qc.indels.toLocaleString(), false],
+    ['Duplicate IDs', qc.duplicateCount.toLocaleString(), qc.duplicateCount > 0],
+    [
+      'Unparseable lines',
+      qc.unparseableLines.length > 0
+        ? `${qc.unparseableLineCount.toLocaleString()} (line ${qc.unparseableLines.join(', ')}${qc.unparseableLineCount > qc.unparseableLines.length ? ', …' : ''})`
+        : '0',
+      qc.unparseableLineCount > 0,
+    ],
+    [
+      'Sex chromosomes',
+      `${status} (X het ${formatRate(xHeterozygosityRate)}, Y calls ${formatRate(yCallRate)})`,
+      status === 'inconsistent',
+    ],
+  ];
+
+  qcSummary.replaceChildren(
+    ...rows.flatMap(([label, value, warning]) => {
+      const dt = document.createElement('dt');
+      dt.textContent = label;
+      const dd = document.createElement('dd');
+      dd.textContent = value;
+      dd.classList.toggle('qc-warning', warning);
+      return [dt, dd];
+    })
+  );
+
+  qcChromosomes.replaceChildren(
+    ...qc.chromosomes.map((c) => {
+      const row = document.createElement('tr');
+      for (const value of [
+        c.chromosome,
+        c.variants.toLocaleString(),
+        c.noCalls.toLocaleString(),
+        formatRate(c.callRate),
+      ]) {
+        const cell = document.createElement('td');
+        cell.textContent = value;
+        row.appendChild(cell);
+      }
+      return row;
+    })
+  );
+}
+
+// Diagnostics listed in the panel; the rest are summarized in a final row
+const DIAGNOSTICS_LIMIT = 50;
+
+// Render per-line parse diagnostics in a collapsible list (hidden when there are none)
+function renderDiagnostics(diagnostics: ParseDiagnostic[]): void {
+  qcDiagnostics.hidden = diagnostics.length === 0;
+  qcDiagnostics.open = false;
+  qcDiagnosticsSummary.textContent = `Parse diagnostics (${diagnostics.length.toLocaleString()})`;
+
+  const items = diagnostics.slice(0, DIAGNOSTICS_LIMIT).map((d) => {
+    const item = document.createElement('li');
+    const message = document.createElement('span');
+    const where = d.source ? `${d.source} line ${d.line}` : `Line ${d.line}`;
+    message.textContent = `${where} (${d.code}): ${d.message}`;
+    message.classList.toggle('qc-warning', d.severity === 'error');
+    const excerpt = document.createElement('code');
+    excerpt.textContent = d.excerpt;
+    item.append(message, excerpt);
+    return item;
+  });
+
+  if (diagnostics.length > DIAGNOSTICS_LIMIT) {
+    const more = document.createElement('li');
+    more.textContent = `…and ${(diagnostics.length - DIAGNOSTICS_LIMIT).toLocaleString()} more`;
+    items.push(more);
+  }
+
+  qcDiagnosticsList.replaceChildren(...items);
+}
+
+// SNP list for the selected tier; null until the paid or custom list is available
+function getSelectedList(): SNPList | null {
+  if (selectedTier === 'custom') return customSnpList;
+  return TIER_REQUIRES_LICENSE[selectedTier] ? paidSnpList : snpList;
+}
+
+// Categories to extract: all categories for the free tier, the user's selection otherwise
+function getCategoriesToUse(): CategoryPath[] {
+  return selectedTier === 'free' ? ALL_CATEGORIES : selectedCategories;
+}
+
+// Tags an entry needs one of: none for the free tier, the user's selection otherwise
+function getTagsToUse(): string[] {
+  return selectedTier === 'free' ? [] : selectedTags;
+}
+
+// Read, import and validate a SNP list file picked by the user
+async function handleCustomListFile(file: File): Promise<void> {
+  customListError.hidden = true;
+  try {
+    customSnpList = parseSNPListFile(await file.text(), file.name);
+  } catch (err) {
+    customSnpList = null;
+    customListError.textContent = `${file.name}: ${err instanceof Error ? err.message : err}`;
+    customListError.hidden = false;
+  }
+
+  if (customSnpList) {
+    customListStatus.textContent = `${file.name} · ${customSnpList.count.toLocaleString()} SNPs loaded`;
+  }
+  customListBtn.textContent = customSnpList ? 'Choose another file' : 'Choose SNP list file';
+  updateDownloadButtonState();
+  generateCategoryCheckboxes();
+  refreshPreview();
+}
+
+// Request fresh match counts from the worker, then re-render the counts and preview
+async function refreshPreview(): Promise<void> {
+  const listToUse = getSelectedList();
+  const requestId = ++previewRequestId;
+
+  if (currentFile && listToUse) {
+    const categoriesToUse = getCategoriesToUse();
+
+    try {
+      const preview = await pipeline.preview(listToUse, categoriesToUse, getTagsToUse());
+      // Ignore if settings changed while the worker was counting
+      if (requestId !== previewRequestId) return;
+      currentPreview = preview;
+    } catch (err) {
+      console.error('Preview error:', err);
+      currentPreview = null;
+    }
+  } else {
+    currentPreview = null;
+  }
+
   updateCategoryCounts();
   updateExtractionPreview();
 }
@@ -749,42 +1371,30 @@ function updateCategoryCounts(): void {
   // For full tier: use paid list if available, otherwise show estimates
   // For free tier: use free list
   const isPaidTier = TIER_REQUIRES_LICENSE[selectedTier];
-  const listToUse = isPaidTier ? paidSnpList : snpList;
-
-  // Count matches by category if we have both a file and a list
-  const countByCategory: Record<string, number> = {};
-  if (currentParseResult && listToUse) {
-    const rsidSet = new Set(currentParseResult.variants.map((v) => v.rsid));
-    for (const entry of listToUse.variants) {
-      if (rsidSet.has(entry.rsid)) {
-        countByCategory[entry.category] = (countByCategory[entry.category] || 0) + 1;
-      }
-    }
-  }
 
-  // Update count spans
-  for (const category of ALL_CATEGORIES) {
-    const countSpan = document.querySelector<HTMLSpanElement>(`[data-category-count="${category}"]`);
-    if (countSpan) {
-      if (!currentParseResult) {
-        // No file loaded - show dash
-        countSpan.textContent = '—';
-      } else if (isPaidTier && !paidSnpList) {
-        // Paid tier but no SNP list yet - show estimates
-        const estimate = ESTIMATED_CATEGORY_COUNTS[category as SNPCategory] || 0;
-        countSpan.textContent = formatEstimatedCount(estimate);
-      } else {
-        // Have actual counts
-        const count = countByCategory[category] || 0;
-        countSpan.textContent = count.toString();
-      }
+  // Update count spans, one per category and subcategory in the tree
+  const countSpans = categoryCheckboxes.querySelectorAll<HTMLSpanElement>('[data-category-count]');
+  for (const countSpan of countSpans) {
+    const path = countSpan.dataset.categoryCount ?? '';
+    if (!currentFile) {
+      // No file loaded - show dash
+      countSpan.textContent = '—';
+    } else if (isPaidTier && !paidSnpList) {
+      // Paid tier but no SNP list yet - show estimates (the tree has no subcategories yet)
+      const estimate = ESTIMATED_CATEGORY_COUNTS[path as SNPCategory] || 0;
+      countSpan.textContent = formatEstimatedCount(estimate);
+    } else if (currentPreview) {
+      // Have actual counts from the worker
+      countSpan.textContent = (currentPreview.byPath[path] ?? 0).toString();
+    } else {
+      countSpan.textContent = '—';
     }
   }
 }
 
 // Update the extraction preview (stats and file size estimate)
 function updateExtractionPreview(): void {
-  if (!currentParseResult || !snpList) {
+  if (!currentFile || !snpList) {
     // No file loaded yet, show placeholder
     previewMatched.textContent = '—';
     previewNocall.textContent = '—';
@@ -800,7 +1410,7 @@ function updateExtractionPreview(): void {
     // Calculate estimated total from selected categories
     let estimatedTotal = 0;
     for (const category of selectedCategories) {
-      estimatedTotal += ESTIMATED_CATEGORY_COUNTS[category] || 0;
+      estimatedTotal += ESTIMATED_CATEGORY_COUNTS[category as SNPCategory] || 0;
     }
 
     previewMatched.textContent = formatEstimatedCount(estimatedTotal);
@@ -824,43 +1434,23 @@ function updateExtractionPreview(): void {
     return;
   }
 
-  // Use paid SNP list if full tier selected and list is available
-  const listToUse = isPaidTier && paidSnpList ? paidSnpList : snpList;
-
-  // Get categories to use (all categories for full tier, free list is already limited)
-  const categoriesToUse = selectedTier === 'full' ? selectedCategories : ALL_CATEGORIES;
-
-  // Get estimate
-  const estimate = estimateMatches(currentParseResult, listToUse, categoriesToUse);
-
-  // Update preview stats
-  previewMatched.textContent = estimate.total.toString();
-
-  // For no-call and missing, we need to do a rough calculation
-  // No-call: variants that are in the file but have "--" genotype
-  // Missing: variants in SNP list but not in file
-  const rsidSet = new Set(currentParseResult.variants.map((v) => v.rsid));
-  const noCallSet = new Set(
-    currentParseResult.variants.filter((v) => v.genotype === '--').map((v) => v.rsid)
-  );
-
-  let noCallCount = 0;
-  let missingCount = 0;
-  for (const entry of listToUse.variants) {
-    if (!categoriesToUse.includes(entry.category)) continue;
-    if (!rsidSet.has(entry.rsid)) {
-      missingCount++;
-    } else if (noCallSet.has(entry.rsid)) {
-      noCallCount++;
-    }
+  // Counts arrive asynchronously from the worker
+  if (!currentPreview) {
+    previewMatched.textContent = '—';
+    previewNocall.textContent = '—';
+    previewMissing.textContent = '—';
+    fileSizeSpan.textContent = '—';
+    return;
   }
 
-  previewNocall.textContent = noCallCount.toString();
-  previewMissing.textContent = missingCount.toString();
+  // Update preview stats
+  previewMatched.textContent = currentPreview.matched.toString();
+  previewNocall.textContent = currentPreview.noCall.toString();
+  previewMissing.textContent = currentPreview.missing.toString();
 
   // Estimate file size based on format and variant count
   // This is a rough estimate; actual size calculated on download
-  const variantCount = estimate.total;
+  const variantCount = currentPreview.matched;
   let estimatedBytes: number;
   switch (selectedFormat) {
     case 'detailed':
@@ -891,8 +1481,11 @@ function showError(message: string): void {
 }
 
 function resetToUpload(): void {
-  currentParseResult = null;
+  currentUpload = [];
+  currentFile = null;
+  currentPreview = null;
   currentResult = null;
+  pipeline.cancel();
 
   statusDiv.hidden = true;
   extractionPanel.hidden = true;
@@ -900,90 +1493,53 @@ function resetToUpload(): void {
   uploadZone.hidden = false;
 }
 
-// File handling
-function handleFile(file: File): void {
-  if (!file) return;
+// File handling; several files from the same person are merged, the first taking priority
+function handleFiles(files: File[]): void {
+  const [first] = files;
+  if (!first) return;
 
   if (!snpList) {
     showError('SNP list not loaded. Please refresh the page.');
     return;
   }
 
-  // Basic validation
-  const validExtensions = ['.txt', '.csv'];
-  const hasValidExtension = validExtensions.some((ext) => file.name.toLowerCase().endsWith(ext));
-
-  if (!hasValidExtension) {
-    showError('Unsupported file format. Please upload a .txt file from 23andMe.');
-    return;
-  }
-
-  // Check file size (warn if very large)
+  const validExtensions = ['.txt', '.csv', '.vcf', ...COMPRESSED_EXTENSIONS];
   const maxSize = 100 * 1024 * 1024; // 100MB
-  if (file.size > maxSize) {
-    showError('File is too large. Maximum size is 100MB.');
-    return;
-  }
-
-  showStatus(`Reading ${file.name}...`);
-
-  // Abort any in-progress file read to prevent race conditions
-  if (currentReader) {
-    currentReader.abort();
-  }
-
-  const reader = new FileReader();
-  currentReader = reader;
-
-  reader.onload = (e) => {
-    // Ignore if this reader was superseded by a new one
-    if (currentReader !== reader) return;
-    const content = e.target?.result as string;
-    if (!content) {
-      showError('Failed to read file content.');
+  for (const file of files) {
+    const prefix = files.length > 1 ? `${file.name}: ` : '';
+
+    // Basic validation
+    const fileName = file.name.toLowerCase();
+    const hasValidExtension = validExtensions.some((ext) => fileName.endsWith(ext));
+    if (!hasValidExtension) {
+      showError(
+        `${prefix}Unsupported file format. Please upload a .txt, .csv, .vcf, .zip or .gz raw data file.`
+      );
       return;
     }
 
-    parseAndShowExtractionPanel(content);
-  };
-
-  reader.onerror = () => {
-    // Ignore if this reader was superseded by a new one
-    if (currentReader !== reader) return;
-    showError('Failed to read file. Please try again.');
-  };
+    // Check file size (warn if very large)
+    if (file.size > maxSize) {
+      showError(`${prefix}File is too large. Maximum size is 100MB.`);
+      return;
+    }
+  }
 
-  reader.readAsText(file);
+  // New files start from auto-detection
+  currentUpload = files;
+  forcedFormat = undefined;
+  startParse(files);
 }
 
-// Parse genome file and show extraction panel
-function parseAndShowExtractionPanel(content: string): void {
-  if (!snpList) {
-    showError('SNP list not loaded. Please refresh the page.');
-    return;
-  }
-
-  try {
-    showStatus('Parsing genome file...');
-    const parseResult = parseGenomeFile(content);
+// Parse files in the worker, honouring the format override
+function startParse(files: File[]): void {
+  // Drop the previous file; parsing a new one supersedes any running job
+  currentFile = null;
+  currentPreview = null;
+  currentResult = null;
 
-    // Show extraction panel
-    showExtractionPanel(parseResult);
-  } catch (err) {
-    // Handle parse errors
-    if (err instanceof ParseError) {
-      let errorMessage = err.message;
-      if (err.details) {
-        errorMessage += ` ${err.details}`;
-      }
-      showError(errorMessage);
-    } else if (err instanceof Error) {
-      showError(err.message || 'Failed to process file.');
-    } else {
-      showError('An unexpected error occurred. Please try again.');
-    }
-    console.error('Processing error:', err);
-  }
+  renderProcessingStatus({ state: 'reading', filename: files[0]?.name ?? '', progress: 0 });
+  pipeline.parse(files, renderProcessingStatus, forcedFormat);
 }
 
 // Fetch the paid SNP list using validate-token (consumes a session if starting new one)
@@ -1018,6 +1574,8 @@ async function fetchPaidSnpList(): Promise<boolean> {
       // Decrypt and cache the SNP list
       paidSnpList = await decryptSnpList(data.encryptedSnpList, data.iv, storedToken);
       updateLicenseSectionUI();
+      generateCategoryCheckboxes();
+      renderListChanges();
       return true;
     } else {
       const errorMsg = data.error === 'exhausted'
@@ -1037,10 +1595,16 @@ async function fetchPaidSnpList(): Promise<boolean> {
 function updateDownloadButtonState(): void {
   const requiresLicense = TIER_REQUIRES_LICENSE[selectedTier];
   const canDownload = !requiresLicense || (storedToken && licenseValidated);
+  const needsCustomList = selectedTier === 'custom' && !customSnpList;
 
-  downloadBtn.disabled = !canDownload;
+  downloadBtn.disabled = !canDownload || needsCustomList;
 
-  if (!canDownload) {
+  if (needsCustomList) {
+    downloadBtn.classList.add('btn-disabled');
+    downloadBtn.title = 'Choose a SNP list file first';
+    extractionHint.textContent = 'Choose your SNP list file to save results.';
+    extractionHint.classList.add('extraction-hint-warning');
+  } else if (!canDownload) {
     downloadBtn.classList.add('btn-disabled');
     downloadBtn.title = 'Valid license key required for Full Report';
     extractionHint.textContent = 'Purchase Full Access or enter a license key to save results.';
@@ -1075,7 +1639,7 @@ function updateDownloadButtonState(): void {
 
 // Perform extraction and download
 async function performExtractionAndDownload(): Promise<void> {
-  if (!currentParseResult || !snpList) {
+  if (!currentFile || !snpList) {
     showError('No file loaded. Please upload a genome file first.');
     return;
   }
@@ -1094,44 +1658,37 @@ async function performExtractionAndDownload(): Promise<void> {
         return;
       }
       // Update the preview with the paid list now available
-      updateCategoryCounts();
-      updateExtractionPreview();
+      refreshPreview();
     }
   }
 
-  try {
-    showStatus('Extracting variants...');
-
-    // Use paid SNP list if available and full tier selected, otherwise free list
-    const listToUse = TIER_REQUIRES_LICENSE[selectedTier] && paidSnpList ? paidSnpList : snpList;
-
-    // Get categories to use (all categories for free tier, selected for full)
-    const categoriesToUse = selectedTier === 'full' ? selectedCategories : ALL_CATEGORIES;
-
-    // Extract matching variants with category filter
-    currentResult = extractVariants(currentParseResult, listToUse, categoriesToUse);
+  // Paid list for the full tier, the user's list for the custom tier, otherwise free list
+  const listToUse = getSelectedList();
+  if (!listToUse) {
+    showError('Please choose a SNP list file first.');
+    return;
+  }
 
-    // Download immediately
-    downloadResults();
+  const categoriesToUse = getCategoriesToUse();
 
-    // Return to extraction panel
-    hideStatus();
-    extractionPanel.hidden = false;
-  } catch (err) {
-    if (err instanceof Error) {
-      showError(err.message || 'Failed to extract variants.');
-    } else {
-      showError('An unexpected error occurred. Please try again.');
-    }
-    console.error('Extraction error:', err);
-  }
+  // Extract matching variants in the worker; the 'complete' status downloads the result
+  await pipeline.extract(
+    listToUse,
+    categoriesToUse,
+    renderProcessingStatus,
+    sexOverride,
+    getTagsToUse()
+  );
 }
 
 // Download handler
 function downloadResults(): void {
   if (!currentResult) return;
 
-  const output = toYAML(currentResult, selectedFormat);
+  // The QC report comes from the parsed file, so it is attached at save time
+  const result =
+    includeQC && currentFile ? { ...currentResult, qc: currentFile.qc } : currentResult;
+  const output = toYAML(result, selectedFormat);
   const mimeType = selectedFormat === 'minimal' ? 'text/csv' : 'text/yaml';
   const blob = new Blob([output], { type: mimeType });
   const url = URL.createObjectURL(blob);
@@ -1155,10 +1712,7 @@ uploadZone.addEventListener('click', () => {
 });
 
 fileInput.addEventListener('change', () => {
-  const file = fileInput.files?.[0];
-  if (file) {
-    handleFile(file);
-  }
+  handleFiles([...(fileInput.files ?? [])]);
   // Reset input so same file can be selected again
   fileInput.value = '';
 });
@@ -1177,14 +1731,12 @@ uploadZone.addEventListener('drop', (e) => {
   e.preventDefault();
   uploadZone.classList.remove('drag-over');
 
-  const file = e.dataTransfer?.files[0];
-  if (file) {
-    handleFile(file);
-  }
+  handleFiles([...(e.dataTransfer?.files ?? [])]);
 });
 
 // Extraction panel action buttons
 changeFileBtn.addEventListener('click', resetToUpload);
+cancelBtn.addEventListener('click', () => pipeline.cancel());
 downloadBtn.addEventListener('click', performExtractionAndDownload);
 
 // Prevent default drag behavior on document
@@ -0,0 +1,204 @@
+/**
+ * Merge module - combine several genome files from one person into one call set
+ *
+ * People often test with more than one company, and the chips overlap only
+ * partly, so together they cover more of the SNP list. Files are merged by
+ * rsID in priority order: a no-call is filled from the next file that called
+ * the SNP, and SNPs two files call differently are flagged as discordant with
+ * the highest-priority call kept. Each merged genotype records its source.
+ */
+
+import type {
+  GenomeBuild,
+  GenomeVariant,
+  GenotypeProvenance,
+  MergeSource,
+  ParseDiagnostic,
+  ParseResult,
+  SourceCall,
+} from '../types';
+import { ParseError } from '../types';
+import { createGenomeLookup } from '../extractor';
+import { detectBuild, LIFTOVER_ANCHORS } from '../liftover';
+
+/**
+ * A parsed file and the name its genotypes are attributed to
+ */
+export interface NamedParseResult {
+  name: string; // Usually the file name
+  result: ParseResult;
+}
+
+/** Variant being merged, with every file's call once a second file has it */
+interface MergeEntry {
+  variant: GenomeVariant; // Row from the first file that has the SNP
+  calls?: SourceCall[];
+}
+
+/**
+ * Merge parsed files into one call set
+ * @param files Parsed files in priority order (the first file's calls win disagreements)
+ * @throws ParseError if no files are given or the files use different reference builds
+ */
+export function mergeParseResults(files: NamedParseResult[]): ParseResult {
+  const [primary] = files;
+  if (!primary) {
+    throw new ParseError('No genome files to merge.');
+  }
+
+  const sources = files.map(describeSource);
+  checkBuilds(sources);
+
+  const entries = new Map<string, MergeEntry>();
+  for (const { name, result } of files) {
+    // SNPs only this file has share one provenance object
+    const soleSource: GenotypeProvenance = { source: name };
+    for (const variant of result.variants) {
+      addCall(entries, soleSource, variant);
+    }
+  }
+
+  const variants: GenomeVariant[] = [];
+  let overlapping = 0;
+  let filled = 0;
+  let discordant = 0;
+  for (const { variant, calls } of entries.values()) {
+    if (!calls) {
+      variants.push(variant);
+      continue;
+    }
+
+    const merged = resolveCalls(variant, calls);
+    overlapping++;
+    if (merged.provenance?.filled) filled++;
+    if (merged.provenance?.discordant) discordant++;
+    variants.push(merged);
+  }
+
+  const result: ParseResult = {
+    format: primary.result.format,
+    variants,
+    metadata: {
+      generatedAt: primary.result.metadata.generatedAt,
+      build: sources.find((s) => s.build)?.build ?? primary.result.metadata.build,
+    },
+    merge: { sources, overlapping, filled, discordant },
+  };
+
+  const warnings = files.flatMap(({ name, result }) =>
+    (result.warnings ?? []).map((w) => `${name}: ${w}`)
+  );
+  if (warnings.length > 0) {
+    result.warnings = warnings;
+  }
+
+  const diagnostics: ParseDiagnostic[] = files.flatMap(({ name, result }) =>
+    (result.diagnostics ?? []).map((d) => ({ ...d, source: name }))
+  );
+  if (diagnostics.length > 0) {
+    result.diagnostics = diagnostics;
+  }
+
+  return result;
+}
+
+/**
+ * Record one file's call, keeping the first row per file for duplicate rsIDs
+ */
+function addCall(
+  entries: Map<string, MergeEntry>,
+  soleSource: GenotypeProvenance,
+  variant: GenomeVariant
+): void {
+  const key = variant.rsid.toLowerCase();
+  const entry = entries.get(key);
+
+  if (!entry) {
+    entries.set(key, { variant: { ...variant, provenance: soleSource } });
+    return;
+  }
+
+  const { source } = soleSource;
+  const first = entry.variant.provenance?.source ?? '';
+  if (!entry.calls) {
+    if (source === first) return;
+    entry.calls = [{ source: first, genotype: entry.variant.genotype }];
+  }
+  if (!entry.calls.some((c) => c.source === source)) {
+    entry.calls.push({ source, genotype: variant.genotype });
+  }
+}
+
+/**
+ * Pick the genotype for a SNP several files have
+ * The highest-priority call wins; no-calls are skipped over.
+ */
+function resolveCalls(variant: GenomeVariant, calls: SourceCall[]): GenomeVariant {
+  const called = calls.filter((c) => c.genotype !== '--');
+  const chosen = called[0] ?? (calls[0] as SourceCall);
+
+  const provenance: GenotypeProvenance = { source: chosen.source, calls };
+  if (chosen !== calls[0]) {
+    provenance.filled = true;
+  }
+  if (called.some((c) => !sameCall(c.genotype, chosen.genotype))) {
+    provenance.discordant = true;
+  }
+
+  return { ...variant, genotype: chosen.genotype, provenance };
+}
+
+/**
+ * Compare calls regardless of allele order or haploid/doubled notation
+ * ("AG" = "GA"; "A" = "AA" for hemizygous X/Y written either way)
+ */
+function sameCall(a: string, b: string): boolean {
+  return normalizeCall(a) === normalizeCall(b);
+}
+
+function normalizeCall(genotype: string): string {
+  const alleles = [...genotype.toUpperCase()].sort();
+  return alleles.length === 2 && alleles[0] === alleles[1]
+    ? (alleles[0] as string)
+    : alleles.join('');
+}
+
+/**
+ * Summarize a file for the merge record, including its build when known
+ * The build is read from the header or format, or inferred from the liftover anchors.
+ */
+function describeSource({ name, result }: NamedParseResult): MergeSource {
+  const source: MergeSource = {
+    name,
+    format: result.format,
+    variantCount: result.variants.length,
+  };
+
+  const anchorIds = new Set(LIFTOVER_ANCHORS.map((a) => a.rsid));
+  const anchors = createGenomeLookup(result.variants.filter((v) => anchorIds.has(v.rsid)));
+  const build = detectBuild(result.metadata.build, result.format, anchors);
+  if (build) source.build = build;
+
+  return source;
+}
+
+/**
+ * Refuse to merge files on different builds (positions would disagree)
+ */
+function checkBuilds(sources: MergeSource[]): void {
+  const builds = new Map<GenomeBuild, string>();
+  for (const source of sources) {
+    if (source.build && !builds.has(source.build)) {
+      builds.set(source.build, source.name);
+    }
+  }
+
+  if (builds.size > 1) {
+    const described = [...builds].map(([build, name]) => `${name} (build ${build})`);
+    throw new ParseError(
+      `Cannot merge files on different reference builds: ${described.join(', ')}.`,
+      undefined,
+      'Merge files generated against the same build, or convert one first.'
+    );
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Comparison Output Generator
+ *
+ * Writes a two-person comparison as YAML: who was compared, overall counts,
+ * then each category's counts with its SNPs and both people's calls.
+ */
+
+import * as yaml from 'js-yaml';
+import type {
+  ChromosomalSex,
+  ComparedCall,
+  ComparedPerson,
+  ComparisonCounts,
+  ComparisonResult,
+  ComparisonStatus,
+  SNPCategory,
+} from '../types';
+
+/** Comparison YAML output structure */
+interface ComparisonOutput {
+  metadata: {
+    tool: string;
+    version: string;
+    comparison_date: string;
+    snp_list_version: string;
+    first: FormattedPerson;
+    second: FormattedPerson;
+    disclaimer: string;
+  };
+  summary: FormattedCounts & { total_compared: number };
+  categories: FormattedCategory[];
+}
+
+interface FormattedPerson {
+  name: string;
+  source_format: string;
+  chip?: string;
+  chromosomal_sex?: ChromosomalSex;
+  variants_found: number;
+  variants_no_call: number;
+  variants_missing: number;
+}
+
+interface FormattedCounts {
+  shared: number;
+  different: number;
+  only_first: number;
+  only_second: number;
+  neither: number;
+}
+
+interface FormattedCategory extends FormattedCounts {
+  category: SNPCategory;
+  variants: FormattedComparison[];
+}
+
+/** A SNP with both calls: the genotype, or why there is none */
+interface FormattedComparison {
+  rsid: string;
+  gene: string;
+  status: ComparisonStatus;
+  first: string;
+  second: string;
+}
+
+/**
+ * Convert a comparison to YAML
+ */
+export function toComparisonYAML(comparison: ComparisonResult): string {
+  const output: ComparisonOutput = {
+    metadata: {
+      tool: comparison.metadata.tool,
+      version: comparison.metadata.version,
+      comparison_date: comparison.metadata.date,
+      snp_list_version: comparison.metadata.snpListVersion,
+      first: formatPerson(comparison.metadata.first),
+      second: formatPerson(comparison.metadata.second),
+      disclaimer: comparison.metadata.disclaimer,
+    },
+    summary: {
+      total_compared: comparison.summary.total,
+      ...formatCounts(comparison.summary),
+    },
+    categories: comparison.categories.map((c) => ({
+      category: c.category,
+      ...formatCounts(c),
+      variants: comparison.variants
+        .filter((v) => v.category === c.category)
+        .map((v) => ({
+          rsid: v.rsid,
+          gene: v.gene,
+          status: v.status,
+          first: formatCall(v.first),
+          second: formatCall(v.second),
+        })),
+    })),
+  };
+
+  return yaml.dump(output, {
+    lineWidth: 120,
+    noRefs: true,
+    sortKeys: false,
+    quotingType: '"',
+    forceQuotes: false,
+  });
+}
+
+/**
+ * Generate filename for a comparison download
+ */
+export function generateComparisonFilename(): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `genome-comparison-${date}.yaml`;
+}
+
+function formatPerson(person: ComparedPerson): FormattedPerson {
+  const formatted: FormattedPerson = {
+    name: person.name,
+    source_format: person.sourceFormat,
+    variants_found: person.found,
+    variants_no_call: person.noCall,
+    variants_missing: person.missing,
+  };
+  if (person.chip) formatted.chip = person.chip;
+  if (person.sex) formatted.chromosomal_sex = person.sex;
+  return formatted;
+}
+
+function formatCounts(counts: ComparisonCounts): FormattedCounts {
+  return {
+    shared: counts.shared,
+    different: counts.different,
+    only_first: counts.onlyFirst,
+    only_second: counts.onlySecond,
+    neither: counts.neither,
+  };
+}
+
+function formatCall(call: ComparedCall): string {
+  return call.genotype ?? call.status;
+}
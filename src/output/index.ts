@@ -3,3 +3,11 @@
  */
 
 export { toYAML, generateFilename, calculateSize, formatDisplayName as outputFormatName } from './yaml';
+export { toComparisonYAML, generateComparisonFilename } from './comparison';
+export {
+  toListDiffText,
+  toListDiffMarkdown,
+  toListDiffJSON,
+  describeListDiff,
+  describeListDigestDiff,
+} from './list-diff';
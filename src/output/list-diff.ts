@@ -0,0 +1,157 @@
+/**
+ * SNP List Diff Output
+ *
+ * Renders a list diff as plain text (terminals), Markdown (release notes) or
+ * JSON (scripts). Text and Markdown group the changes the same way: added,
+ * removed, recategorized, then entries with other edits.
+ */
+
+import type {
+  SNPEntry,
+  SNPEntryChange,
+  SNPFieldChange,
+  SNPListDiff,
+  SNPListDigestDiff,
+} from '../types';
+import { categoryPathOf } from '../snp-list/taxonomy';
+
+/**
+ * Render a list diff as plain text
+ */
+export function toListDiffText(diff: SNPListDiff): string {
+  const lines = [
+    `SNP list ${diff.fromVersion} -> ${diff.toVersion}`,
+    `  ${describeListDiff(diff)}`,
+  ];
+
+  const entryLine = (sign: string, e: SNPEntry): string =>
+    `${sign} ${e.rsid}  ${e.gene}  ${categoryPathOf(e)}`;
+  const sections: [string, string[]][] = [
+    ['Added', diff.added.map((e) => entryLine('+', e))],
+    ['Removed', diff.removed.map((e) => entryLine('-', e))],
+    [
+      'Recategorized',
+      recategorized(diff).map(({ entry, change }) => {
+        const categories = `${formatValue(change.before)} -> ${formatValue(change.after)}`;
+        return `~ ${entry.rsid}  ${entry.gene}  ${categories}`;
+      }),
+    ],
+    [
+      'Edited',
+      edited(diff).map(({ entry, changes }) => {
+        const fields = changes.map(
+          (c) => `${c.field}: ${formatValue(c.before)} -> ${formatValue(c.after)}`
+        );
+        return `~ ${entry.rsid}  ${entry.gene}  ${fields.join('; ')}`;
+      }),
+    ],
+  ];
+
+  for (const [title, items] of sections) {
+    if (items.length === 0) continue;
+    lines.push('', `${title}:`, ...items.map((item) => `  ${item}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a list diff as Markdown
+ */
+export function toListDiffMarkdown(diff: SNPListDiff): string {
+  const lines = [
+    `# SNP list changes: ${diff.fromVersion} → ${diff.toVersion}`,
+    '',
+    `${capitalize(describeListDiff(diff))}.`,
+  ];
+
+  // count is the number of entries, which differs from rows when an entry spans several
+  const table = (title: string, header: string[], rows: string[][], count = rows.length): void => {
+    if (rows.length === 0) return;
+    lines.push('', `## ${title} (${count})`, '');
+    lines.push(`| ${header.join(' | ')} |`, `| ${header.map(() => '---').join(' | ')} |`);
+    for (const row of rows) {
+      lines.push(`| ${row.map(escapeCell).join(' | ')} |`);
+    }
+  };
+  const entryRow = (e: SNPEntry): string[] => [e.rsid, e.gene, categoryPathOf(e), e.annotation];
+  table('Added', ['rsID', 'Gene', 'Category', 'Annotation'], diff.added.map(entryRow));
+  table('Removed', ['rsID', 'Gene', 'Category', 'Annotation'], diff.removed.map(entryRow));
+  table(
+    'Recategorized',
+    ['rsID', 'Gene', 'Before', 'After'],
+    recategorized(diff).map(({ entry, change }) => [
+      entry.rsid,
+      entry.gene,
+      formatValue(change.before),
+      formatValue(change.after),
+    ])
+  );
+  const editedEntries = edited(diff);
+  table(
+    'Edited',
+    ['rsID', 'Gene', 'Field', 'Before', 'After'],
+    editedEntries.flatMap(({ entry, changes }) =>
+      changes.map((c) => [
+        entry.rsid,
+        entry.gene,
+        c.field,
+        formatValue(c.before),
+        formatValue(c.after),
+      ])
+    ),
+    editedEntries.length
+  );
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render a list diff as JSON
+ */
+export function toListDiffJSON(diff: SNPListDiff): string {
+  return JSON.stringify(diff, null, 2);
+}
+
+/**
+ * One-line summary, e.g. "3 added, 1 removed, 0 recategorized, 2 edited, 40 unchanged"
+ */
+export function describeListDiff(diff: SNPListDiff): string {
+  const { added, removed, recategorized, edited, unchanged } = diff.summary;
+  return `${added} added, ${removed} removed, ${recategorized} recategorized, ${edited} edited, ${unchanged} unchanged`;
+}
+
+/**
+ * One-line summary of a diff against a list digest, e.g. "3 added, 1 removed, 2 updated"
+ */
+export function describeListDigestDiff(diff: SNPListDigestDiff): string {
+  return `${diff.added.length} added, ${diff.removed} removed, ${diff.changed.length} updated, ${diff.unchanged} unchanged`;
+}
+
+function recategorized(diff: SNPListDiff): { entry: SNPEntryChange; change: SNPFieldChange }[] {
+  return diff.changed.flatMap((entry) => {
+    const change = entry.changes.find((c) => c.field === 'category');
+    return change ? [{ entry, change }] : [];
+  });
+}
+
+function edited(diff: SNPListDiff): { entry: SNPEntryChange; changes: SNPFieldChange[] }[] {
+  return diff.changed.flatMap((entry) => {
+    const changes = entry.changes.filter((c) => c.field !== 'category');
+    return changes.length > 0 ? [{ entry, changes }] : [];
+  });
+}
+
+function formatValue(value: SNPFieldChange['before']): string {
+  if (value === undefined) return '(none)';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(none)';
+  return typeof value === 'string' && value.includes(' ') ? `"${value}"` : String(value);
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
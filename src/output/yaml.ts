@@ -6,7 +6,29 @@
  */
 
 import * as yaml from 'js-yaml';
-import type { ExtractionResult, MissingVariant, SNPCategory, OutputFormat } from '../types';
+import type {
+  CategoryPath,
+  ChromosomalSex,
+  ExtractionResult,
+  GenomeBuild,
+  HaplotypeCall,
+  MatchedVariant,
+  MatchMethod,
+  MergeSource,
+  PGxPhenotype,
+  PharmacogeneCall,
+  MissingVariant,
+  QCReport,
+  SexChromosomeStatus,
+  SNPCategory,
+  OutputFormat,
+  RiskAlleleOrigin,
+  ScoreResult,
+  StrandOrientation,
+  TrioAnalysis,
+  TrioStatus,
+  Zygosity,
+} from '../types';
 
 /** Detailed YAML output structure */
 interface DetailedOutput {
@@ -16,8 +38,15 @@ interface DetailedOutput {
     extraction_date: string;
     source_format: string;
     source_variant_count: number;
+    merged_from?: DetailedMergeSource[];
+    source_build?: GenomeBuild;
+    target_build?: GenomeBuild;
+    chip?: string;
+    chromosomal_sex?: ChromosomalSex;
+    chromosomal_sex_source?: 'inferred' | 'user';
     snp_list_version: string;
-    categories_included?: SNPCategory[];
+    categories_included?: CategoryPath[];
+    tags_included?: string[];
     disclaimer: string;
   };
   summary: {
@@ -25,19 +54,141 @@ interface DetailedOutput {
     variants_no_call: number;
     variants_missing: number;
     total_in_snp_list: number;
+    variants_discordant?: number;
+    coverage_note?: string;
   };
+  qc?: DetailedQC;
+  trio?: DetailedTrio;
+  haplotypes?: DetailedHaplotype[];
+  pharmacogenomics?: DetailedPharmacogene[];
+  polygenic_scores?: DetailedScore[];
   variants: DetailedVariant[];
   missing_variants?: FormattedMissingVariant[];
 }
 
+/** File in a merged call set, for detailed output */
+interface DetailedMergeSource {
+  file: string;
+  format: string;
+  variants: number;
+  build?: GenomeBuild;
+}
+
+/** Detailed QC report format */
+interface DetailedQC {
+  call_rate: number;
+  no_calls: number;
+  heterozygosity_rate: number | null;
+  indels: number;
+  duplicate_ids: number;
+  duplicate_examples?: string[];
+  unparseable_lines: number;
+  unparseable_line_numbers?: number[];
+  sex_chromosomes: {
+    status: SexChromosomeStatus;
+    x_heterozygosity_rate: number | null;
+    y_call_rate: number | null;
+  };
+  chromosomes: { chromosome: string; variants: number; no_calls: number; call_rate: number }[];
+}
+
+/** Detailed trio section format */
+interface DetailedTrio {
+  mother: string;
+  father: string;
+  status: TrioStatus;
+  snps_compared: number;
+  mendelian_errors: number;
+  error_rate: number | null;
+  mother_incompatible: number;
+  father_incompatible: number;
+  variants: DetailedTrioVariant[];
+}
+
+/** Matched variant checked against both parents */
+interface DetailedTrioVariant {
+  rsid: string;
+  gene: string;
+  child: string;
+  mother: string;
+  father: string;
+  mendelian_error?: true;
+  maternal_allele?: string;
+  paternal_allele?: string;
+  risk_allele_from?: RiskAlleleOrigin;
+}
+
+/** Compact trio section format */
+interface CompactTrio {
+  status: TrioStatus;
+  snps_compared: number;
+  mendelian_errors: number;
+  risk_allele_from?: Record<string, RiskAlleleOrigin>;
+}
+
+/** Compact QC report format */
+interface CompactQC {
+  call_rate: number;
+  heterozygosity_rate: number | null;
+  indels: number;
+  duplicate_ids: number;
+  unparseable_lines: number;
+  sex_check: SexChromosomeStatus;
+}
+
+/** Detailed haplotype format */
+interface DetailedHaplotype {
+  gene: string;
+  diplotype: string | null;
+  genotypes: Record<string, string>;
+  note?: string;
+}
+
+/** Detailed pharmacogene format */
+interface DetailedPharmacogene {
+  gene: string;
+  diplotype: string | null;
+  phenotype: PGxPhenotype | null;
+  genotypes: Record<string, string>;
+  activity_score?: number;
+  missing_snps?: string[];
+  note?: string;
+}
+
+/** Detailed polygenic score format */
+interface DetailedScore {
+  id: string;
+  name: string;
+  category: SNPCategory;
+  score: number | null;
+  snps_total: number;
+  snps_used: number;
+  snps_imputed: number;
+  snps_missing: number;
+  missing_snps?: string[];
+  note?: string;
+}
+
 /** Detailed variant format */
 interface DetailedVariant {
   rsid: string;
   gene: string;
   genotype: string;
   category: SNPCategory;
+  subcategory?: string;
+  tags?: string[];
   status?: 'no-call';
+  matched_by?: MatchMethod;
   annotation: string;
+  risk_allele?: string;
+  risk_allele_copies?: number;
+  zygosity?: Zygosity;
+  strand?: Exclude<StrandOrientation, 'forward'>;
+  original_genotype?: string;
+  hemizygous?: true;
+  source?: string;
+  discordant?: true;
+  calls?: Record<string, string>;
 }
 
 /** Compact output structure */
@@ -47,10 +198,18 @@ interface CompactOutput {
     version: string;
     date: string;
     format: string;
+    sources?: string[];
+    sex?: ChromosomalSex;
     disclaimer: string;
   };
+  qc?: CompactQC;
+  trio?: CompactTrio;
+  haplotypes?: Record<string, string>;
+  pharmacogenomics?: Record<string, string>;
+  polygenic_scores?: Record<string, string>;
   variants: CompactVariant[];
   missing?: string[];
+  not_genotyped?: string[];
 }
 
 /** Compact variant format */
@@ -58,6 +217,12 @@ interface CompactVariant {
   rsid: string;
   gene: string;
   genotype: string;
+  risk_allele?: string;
+  risk_copies?: number;
+  zygosity?: Zygosity;
+  strand?: Exclude<StrandOrientation, 'forward'>;
+  hemizygous?: true;
+  discordant?: true;
 }
 
 /** Formatted missing variant for detailed output */
@@ -70,6 +235,9 @@ interface FormattedMissingVariant {
 
 const COMPACT_DISCLAIMER = 'For research/educational use only. Not medical advice.';
 
+const NOT_GENOTYPED_NOTE =
+  'Some SNPs are not on this chip, per its manifest. Re-testing on a newer chip or whole-genome sequencing would cover them.';
+
 /**
  * Extract date portion from ISO date string (safer than split)
  */
@@ -102,8 +270,15 @@ function toDetailedYAML(result: ExtractionResult): string {
       extraction_date: result.metadata.date,
       source_format: result.metadata.sourceFormat,
       source_variant_count: result.metadata.sourceVariantCount,
+      merged_from: result.metadata.mergedFrom?.map(formatDetailedMergeSource),
+      source_build: result.metadata.sourceBuild,
+      target_build: result.metadata.targetBuild,
+      chip: result.metadata.chip,
+      chromosomal_sex: result.metadata.sex,
+      chromosomal_sex_source: result.metadata.sexSource,
       snp_list_version: result.metadata.snpListVersion,
       categories_included: result.metadata.categoriesIncluded,
+      tags_included: result.metadata.tagsIncluded,
       disclaimer: result.metadata.disclaimer,
     },
     summary: {
@@ -112,6 +287,38 @@ function toDetailedYAML(result: ExtractionResult): string {
       variants_missing: result.summary.missing,
       total_in_snp_list: result.summary.total,
     },
+    qc: result.qc && formatDetailedQC(result.qc),
+    trio: result.trio && formatDetailedTrio(result.trio),
+    haplotypes: result.haplotypes?.map((h) => {
+      const haplotype: DetailedHaplotype = {
+        gene: h.gene,
+        diplotype: h.diplotype,
+        genotypes: h.genotypes,
+      };
+      if (h.note) {
+        haplotype.note = h.note;
+      }
+      return haplotype;
+    }),
+    pharmacogenomics: result.pharmacogenomics?.map((p) => {
+      const pharmacogene: DetailedPharmacogene = {
+        gene: p.gene,
+        diplotype: p.diplotype,
+        phenotype: p.phenotype,
+        genotypes: p.genotypes,
+      };
+      if (p.activityScore !== undefined) {
+        pharmacogene.activity_score = p.activityScore;
+      }
+      if (p.missingSnps) {
+        pharmacogene.missing_snps = p.missingSnps;
+      }
+      if (p.note) {
+        pharmacogene.note = p.note;
+      }
+      return pharmacogene;
+    }),
+    polygenic_scores: result.scores?.map(formatDetailedScore),
     variants: result.variants.map((v) => {
       const variant: DetailedVariant = {
         rsid: v.rsid,
@@ -120,13 +327,58 @@ function toDetailedYAML(result: ExtractionResult): string {
         category: v.category,
         annotation: v.annotation,
       };
+      if (v.subcategory) {
+        variant.subcategory = v.subcategory;
+      }
+      if (v.tags && v.tags.length > 0) {
+        variant.tags = v.tags;
+      }
       if (v.status === 'no-call') {
         variant.status = 'no-call';
       }
+      // rsID matches are the norm; only call out position-based ones
+      if (v.matchedBy === 'position') {
+        variant.matched_by = 'position';
+      }
+      if (v.riskAllele) {
+        variant.risk_allele = v.riskAllele;
+      }
+      if (v.riskAlleleCount !== undefined) {
+        variant.risk_allele_copies = v.riskAlleleCount;
+      }
+      if (v.zygosity) {
+        variant.zygosity = v.zygosity;
+      }
+      // Forward strand is the norm; only call out flipped and ambiguous calls
+      if (v.strand === 'flipped' || v.strand === 'ambiguous') {
+        variant.strand = v.strand;
+      }
+      if (v.originalGenotype) {
+        variant.original_genotype = v.originalGenotype;
+      }
+      if (v.hemizygous) {
+        variant.hemizygous = true;
+      }
+      // Name the source file only when several files were merged
+      if (v.provenance) {
+        variant.source = v.provenance.source;
+        if (v.provenance.discordant && v.provenance.calls) {
+          variant.discordant = true;
+          variant.calls = Object.fromEntries(v.provenance.calls.map((c) => [c.source, c.genotype]));
+        }
+      }
       return variant;
     }),
   };
 
+  if (result.metadata.mergedFrom) {
+    output.summary.variants_discordant = countDiscordant(result.variants);
+  }
+
+  if (result.missing.some((v) => v.reason === 'not-genotyped')) {
+    output.summary.coverage_note = NOT_GENOTYPED_NOTE;
+  }
+
   if (result.missing.length > 0) {
     output.missing_variants = result.missing.map((v) => ({
       rsid: v.rsid,
@@ -146,7 +398,7 @@ function toDetailedYAML(result: ExtractionResult): string {
 }
 
 /**
- * Compact format - rsid, gene, genotype only (AI-optimized)
+ * Compact format - rsid, gene, genotype and risk allele copies (AI-optimized)
  */
 function toCompactYAML(result: ExtractionResult): string {
   const output: CompactOutput = {
@@ -155,17 +407,51 @@ function toCompactYAML(result: ExtractionResult): string {
       version: result.metadata.version,
       date: formatDateOnly(result.metadata.date),
       format: result.metadata.sourceFormat,
+      sources: result.metadata.mergedFrom?.map((s) => s.name),
+      sex: result.metadata.sex,
       disclaimer: COMPACT_DISCLAIMER,
     },
-    variants: result.variants.map((v) => ({
-      rsid: v.rsid,
-      gene: v.gene,
-      genotype: v.genotype,
-    })),
+    qc: result.qc && formatCompactQC(result.qc),
+    trio: result.trio && formatCompactTrio(result.trio),
+    haplotypes: result.haplotypes && formatCompactHaplotypes(result.haplotypes),
+    pharmacogenomics:
+      result.pharmacogenomics && formatCompactPharmacogenomics(result.pharmacogenomics),
+    polygenic_scores: result.scores && formatCompactScores(result.scores),
+    variants: result.variants.map((v) => {
+      const variant: CompactVariant = {
+        rsid: v.rsid,
+        gene: v.gene,
+        genotype: v.genotype,
+      };
+      if (v.riskAllele) {
+        variant.risk_allele = v.riskAllele;
+      }
+      if (v.riskAlleleCount !== undefined) {
+        variant.risk_copies = v.riskAlleleCount;
+      }
+      if (v.zygosity) {
+        variant.zygosity = v.zygosity;
+      }
+      if (v.strand === 'flipped' || v.strand === 'ambiguous') {
+        variant.strand = v.strand;
+      }
+      if (v.hemizygous) {
+        variant.hemizygous = true;
+      }
+      if (v.provenance?.discordant) {
+        variant.discordant = true;
+      }
+      return variant;
+    }),
   };
 
-  if (result.missing.length > 0) {
-    output.missing = result.missing.map((v) => v.rsid);
+  // SNPs the chip never assays are kept apart from ones absent from the file
+  const { notInFile, notGenotyped } = splitMissing(result.missing);
+  if (notInFile.length > 0) {
+    output.missing = notInFile;
+  }
+  if (notGenotyped.length > 0) {
+    output.not_genotyped = notGenotyped;
   }
 
   return yaml.dump(output, {
@@ -176,21 +462,260 @@ function toCompactYAML(result: ExtractionResult): string {
   });
 }
 
+/**
+ * Detailed description of a merged file
+ */
+function formatDetailedMergeSource(source: MergeSource): DetailedMergeSource {
+  const formatted: DetailedMergeSource = {
+    file: source.name,
+    format: source.format,
+    variants: source.variantCount,
+  };
+  if (source.build) {
+    formatted.build = source.build;
+  }
+  return formatted;
+}
+
+/**
+ * Count extracted variants whose merged sources disagree
+ */
+function countDiscordant(variants: MatchedVariant[]): number {
+  return variants.filter((v) => v.provenance?.discordant).length;
+}
+
+/**
+ * Detailed QC section; example lists are left out when empty
+ */
+function formatDetailedQC(qc: QCReport): DetailedQC {
+  const section: DetailedQC = {
+    call_rate: qc.callRate,
+    no_calls: qc.noCalls,
+    heterozygosity_rate: qc.heterozygosityRate,
+    indels: qc.indels,
+    duplicate_ids: qc.duplicateCount,
+    unparseable_lines: qc.unparseableLineCount,
+    sex_chromosomes: {
+      status: qc.sexChromosomes.status,
+      x_heterozygosity_rate: qc.sexChromosomes.xHeterozygosityRate,
+      y_call_rate: qc.sexChromosomes.yCallRate,
+    },
+    chromosomes: qc.chromosomes.map((c) => ({
+      chromosome: c.chromosome,
+      variants: c.variants,
+      no_calls: c.noCalls,
+      call_rate: c.callRate,
+    })),
+  };
+  if (qc.duplicateRsids.length > 0) {
+    section.duplicate_examples = qc.duplicateRsids;
+  }
+  if (qc.unparseableLines.length > 0) {
+    section.unparseable_line_numbers = qc.unparseableLines;
+  }
+  return section;
+}
+
+/**
+ * Compact QC section: headline figures only
+ */
+function formatCompactQC(qc: QCReport): CompactQC {
+  return {
+    call_rate: qc.callRate,
+    heterozygosity_rate: qc.heterozygosityRate,
+    indels: qc.indels,
+    duplicate_ids: qc.duplicateCount,
+    unparseable_lines: qc.unparseableLineCount,
+    sex_check: qc.sexChromosomes.status,
+  };
+}
+
+/**
+ * Detailed trio section; allele attribution is left out where it is ambiguous
+ */
+function formatDetailedTrio(trio: TrioAnalysis): DetailedTrio {
+  return {
+    mother: trio.mother,
+    father: trio.father,
+    status: trio.status,
+    snps_compared: trio.compared,
+    mendelian_errors: trio.mendelianErrors,
+    error_rate: trio.errorRate,
+    mother_incompatible: trio.motherIncompatible,
+    father_incompatible: trio.fatherIncompatible,
+    variants: trio.variants.map((v) => {
+      const variant: DetailedTrioVariant = {
+        rsid: v.rsid,
+        gene: v.gene,
+        child: v.child,
+        mother: v.mother,
+        father: v.father,
+      };
+      if (v.mendelianError) {
+        variant.mendelian_error = true;
+      }
+      if (v.maternalAllele && v.paternalAllele) {
+        variant.maternal_allele = v.maternalAllele;
+        variant.paternal_allele = v.paternalAllele;
+      }
+      if (v.riskAlleleFrom) {
+        variant.risk_allele_from = v.riskAlleleFrom;
+      }
+      return variant;
+    }),
+  };
+}
+
+/**
+ * Compact trio section: headline figures and risk allele origins by rsID
+ */
+function formatCompactTrio(trio: TrioAnalysis): CompactTrio {
+  const compact: CompactTrio = {
+    status: trio.status,
+    snps_compared: trio.compared,
+    mendelian_errors: trio.mendelianErrors,
+  };
+  const origins = trio.variants.flatMap((v) =>
+    v.riskAlleleFrom ? [[v.rsid, v.riskAlleleFrom] as const] : []
+  );
+  if (origins.length > 0) {
+    compact.risk_allele_from = Object.fromEntries(origins);
+  }
+  return compact;
+}
+
+/**
+ * Compact haplotypes as gene -> diplotype ("unknown" when no call was made)
+ */
+function formatCompactHaplotypes(haplotypes: HaplotypeCall[]): Record<string, string> {
+  return Object.fromEntries(haplotypes.map((h) => [h.gene, h.diplotype ?? 'unknown']));
+}
+
+/**
+ * Compact pharmacogenomics as gene -> "diplotype phenotype" ("unknown" when no call was made)
+ */
+function formatCompactPharmacogenomics(calls: PharmacogeneCall[]): Record<string, string> {
+  return Object.fromEntries(calls.map((p) => [p.gene, formatPharmacogeneCall(p)]));
+}
+
+/**
+ * Detailed polygenic score; the missing SNP list is left out when empty
+ */
+function formatDetailedScore(score: ScoreResult): DetailedScore {
+  const detailed: DetailedScore = {
+    id: score.id,
+    name: score.name,
+    category: score.category,
+    score: score.score,
+    snps_total: score.snpsTotal,
+    snps_used: score.snpsUsed,
+    snps_imputed: score.snpsImputed,
+    snps_missing: score.snpsMissing,
+  };
+  if (score.missingSnps) {
+    detailed.missing_snps = score.missingSnps;
+  }
+  if (score.note) {
+    detailed.note = score.note;
+  }
+  return detailed;
+}
+
+/**
+ * Compact polygenic scores as id -> "score (used/total SNPs, imputed)" ("unknown" when withheld)
+ */
+function formatCompactScores(scores: ScoreResult[]): Record<string, string> {
+  return Object.fromEntries(scores.map((s) => [s.id, formatScoreCall(s)]));
+}
+
+function formatScoreCall(score: ScoreResult): string {
+  if (score.score === null) return 'unknown';
+  return `${score.score} (${score.snpsUsed}/${score.snpsTotal} SNPs, ${score.snpsImputed} imputed)`;
+}
+
+/**
+ * Split missing rsIDs into those absent from the file and those the chip never assays
+ */
+function splitMissing(missing: MissingVariant[]): { notInFile: string[]; notGenotyped: string[] } {
+  const notInFile: string[] = [];
+  const notGenotyped: string[] = [];
+  for (const v of missing) {
+    (v.reason === 'not-genotyped' ? notGenotyped : notInFile).push(v.rsid);
+  }
+  return { notInFile, notGenotyped };
+}
+
+function formatPharmacogeneCall(call: PharmacogeneCall): string {
+  return call.diplotype && call.phenotype ? `${call.diplotype} ${call.phenotype}` : 'unknown';
+}
+
 /**
  * Minimal format - CSV-style for maximum density
  */
 function toMinimalCSV(result: ExtractionResult): string {
   const lines: string[] = [
     `# ${result.metadata.tool} v${result.metadata.version} | ${formatDateOnly(result.metadata.date)} | ${COMPACT_DISCLAIMER}`,
-    '# rsid,gene,genotype',
   ];
+  if (result.metadata.mergedFrom) {
+    lines.push(`# sources: ${result.metadata.mergedFrom.map((s) => s.name).join(', ')}`);
+  }
+  if (result.metadata.sex) {
+    lines.push(`# sex: ${result.metadata.sex} (${result.metadata.sexSource ?? 'inferred'})`);
+  }
+  lines.push('# rsid,gene,genotype,risk_allele,risk_copies,zygosity,strand');
 
+  // Risk columns are left empty when the list gives no risk allele or the call is missing
   for (const v of result.variants) {
-    lines.push(`${v.rsid},${v.gene},${v.genotype}`);
+    const strand = v.strand === 'forward' ? '' : (v.strand ?? '');
+    const riskColumns = [v.riskAllele ?? '', v.riskAlleleCount ?? '', v.zygosity ?? '', strand];
+    lines.push(`${v.rsid},${v.gene},${v.genotype},${riskColumns.join(',')}`);
   }
 
-  if (result.missing.length > 0) {
-    lines.push(`# missing: ${result.missing.map((v) => v.rsid).join(',')}`);
+  if (result.qc) {
+    const qc = formatCompactQC(result.qc);
+    lines.push(
+      `# qc: ${Object.entries(qc)
+        .map(([key, value]) => `${key}=${value ?? 'n/a'}`)
+        .join(',')}`
+    );
+  }
+
+  if (result.trio) {
+    const { status, snps_compared, mendelian_errors, risk_allele_from } = formatCompactTrio(
+      result.trio
+    );
+    lines.push(
+      `# trio: status=${status},snps_compared=${snps_compared},mendelian_errors=${mendelian_errors}`
+    );
+    if (risk_allele_from) {
+      const origins = Object.entries(risk_allele_from).map(([rsid, from]) => `${rsid}=${from}`);
+      lines.push(`# risk_allele_from: ${origins.join(',')}`);
+    }
+  }
+
+  for (const h of result.haplotypes ?? []) {
+    lines.push(`# haplotype: ${h.gene}=${h.diplotype ?? 'unknown'}`);
+  }
+
+  for (const p of result.pharmacogenomics ?? []) {
+    lines.push(`# pgx: ${p.gene}=${formatPharmacogeneCall(p)}`);
+  }
+
+  for (const s of result.scores ?? []) {
+    lines.push(`# score: ${s.id}=${formatScoreCall(s)}`);
+  }
+
+  const discordant = result.variants.filter((v) => v.provenance?.discordant);
+  if (discordant.length > 0) {
+    lines.push(`# discordant: ${discordant.map((v) => v.rsid).join(',')}`);
+  }
+
+  const { notInFile, notGenotyped } = splitMissing(result.missing);
+  if (notInFile.length > 0) {
+    lines.push(`# missing: ${notInFile.join(',')}`);
+  }
+  if (notGenotyped.length > 0) {
+    lines.push(`# not-genotyped: ${notGenotyped.join(',')}`);
   }
 
   return lines.join('\n') + '\n';
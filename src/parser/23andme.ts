@@ -9,37 +9,53 @@
  * - Some lines may have single character genotypes for X/Y/MT in males
  */
 
-import type { GenomeVariant, ParseResult } from '../types';
+import type { GenomeFormat, GenomeVariant, ParseResult } from '../types';
 import { ParseError } from '../types';
+import type { GenomeParser, LineParser, ParserOptions, RowProblem } from './lines';
+import { createDiagnosticCollector, isRowProblem, parseLines } from './lines';
 
-/** Internal error tracking during parsing */
-interface ParseWarning {
-  message: string;
-  line: number;
-  details?: string;
-}
+/** Column header row written by 23andMe */
+const COLUMN_HEADER = '# rsid\tchromosome\tposition\tgenotype';
+
+/**
+ * 23andMe entry for the parser registry
+ */
+export const parser23andMe: GenomeParser = {
+  id: '23andme',
+  name: '23andMe',
+  formats: ['23andme-v5', '23andme-v4', '23andme-v3'],
+  sniff: sniff23andMe,
+  resolveFormat: detect23andMeVersion,
+  parse: parse23andMe,
+  createLineParser: create23andMeParser,
+};
 
 /**
  * Parse a 23andMe genome file
  * @param content Raw file content
+ * @param options Parser options (strict mode)
  * @returns ParseResult with variants and metadata
- * @throws ParseError if file is invalid
+ * @throws ParseError if file is invalid, or on the first bad row in strict mode
  */
-export function parse23andMe(content: string): ParseResult {
-  const lines = content.split('\n');
+export function parse23andMe(content: string, options: ParserOptions = {}): ParseResult {
+  return parseLines(content, create23andMeParser(options));
+}
+
+/**
+ * Create an incremental 23andMe parser that consumes one line at a time
+ */
+export function create23andMeParser(options: ParserOptions = {}): LineParser {
   const variants: GenomeVariant[] = [];
-  const warnings: ParseWarning[] = [];
+  const diagnostics = createDiagnosticCollector(options);
 
   let generatedAt: string | undefined;
   let build: string | undefined;
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line) continue;
+  function parseLine(line: string, lineNumber: number): GenomeVariant | undefined {
     const trimmed = line.trim();
 
     // Skip empty lines
-    if (trimmed.length === 0) continue;
+    if (trimmed.length === 0) return undefined;
 
     // Parse comment lines for metadata
     if (trimmed.startsWith('#')) {
@@ -55,81 +71,127 @@ export function parse23andMe(content: string): ParseResult {
         build = buildMatch[1];
       }
 
-      continue;
+      return undefined;
     }
 
     // Parse data line
-    const variant = parseDataLine(trimmed);
-    if (variant) {
-      variants.push(variant);
-    } else if (trimmed.length > 0) {
-      // Only track warnings for non-empty lines that failed to parse
-      warnings.push({
-        message: 'Failed to parse line',
-        line: i + 1,
-        details: trimmed.slice(0, 100),
-      });
+    const parsed = parseDataLine(trimmed, (problem) =>
+      diagnostics.report(problem, lineNumber, trimmed, 'warning')
+    );
+    if (isRowProblem(parsed)) {
+      diagnostics.report(parsed, lineNumber, trimmed);
+      return undefined;
     }
+
+    variants.push(parsed);
+    return parsed;
   }
 
-  // Validate we got some data
-  if (variants.length === 0) {
-    throw new ParseError('No valid variants found in file. Please check the file format.');
+  function finish(): ParseResult {
+    // Validate we got some data
+    if (variants.length === 0) {
+      throw new ParseError('No valid variants found in file. Please check the file format.');
+    }
+
+    // Build result with optional diagnostics
+    const result: ParseResult = {
+      format: '23andme-v5',
+      variants,
+      metadata: {
+        generatedAt,
+        build,
+      },
+    };
+    diagnostics.applyTo(result);
+
+    return result;
   }
 
-  // Build result with optional warnings
-  const result: ParseResult = {
-    format: '23andme-v5',
-    variants,
-    metadata: {
-      generatedAt,
-      build,
-    },
-  };
+  return { parseLine, finish };
+}
 
-  // Include warnings if there were parse failures
-  if (warnings.length > 0) {
-    result.warnings = [
-      `${warnings.length} line${warnings.length === 1 ? '' : 's'} could not be parsed`,
-    ];
+/**
+ * Score how likely a header is from 23andMe
+ * Files carry both a "generated by 23andMe" comment and a commented column row.
+ */
+function sniff23andMe(header: string): number {
+  const hasColumns = header.includes(COLUMN_HEADER);
+  const hasVendor = header.includes('23andMe');
+  if (hasColumns && hasVendor) return 1;
+  if (hasColumns) return 0.9;
+  if (hasVendor) return 0.8;
+  return 0;
+}
+
+/**
+ * Detect specific 23andMe version from header
+ *
+ * Version history:
+ * - v3: Used build 36 (GRCh36)
+ * - v4: Used build 37 (GRCh37) with Annotation Release 103
+ * - v5: Uses build 37 (GRCh37) with Annotation Release 104
+ */
+function detect23andMeVersion(header: string): GenomeFormat {
+  // v5 uses Annotation Release 104
+  if (header.includes('Annotation Release 104')) {
+    return '23andme-v5';
+  }
+
+  // v4 uses Annotation Release 103
+  if (header.includes('Annotation Release 103')) {
+    return '23andme-v4';
   }
 
-  return result;
+  // v3 used build 36
+  if (header.includes('build 36')) {
+    return '23andme-v3';
+  }
+
+  // Default to v5 for build 37 or recent 23andMe files without specific version
+  return '23andme-v5';
 }
 
 /**
  * Parse a single data line
  * Format: rsid\tchromosome\tposition\tgenotype
+ * @param warn Receives problems that don't prevent the row from being used
+ * @returns Variant, or the problem that made the row unusable
  */
-function parseDataLine(line: string): GenomeVariant | null {
+function parseDataLine(
+  line: string,
+  warn: (problem: RowProblem) => void
+): GenomeVariant | RowProblem {
   // Split by tab
   const parts = line.split('\t');
 
   if (parts.length < 4) {
-    return null;
+    return { code: 'wrong-column-count', message: `Expected 4 columns, found ${parts.length}` };
+  }
+  if (parts.length > 4) {
+    warn({ code: 'wrong-column-count', message: `Expected 4 columns, found ${parts.length}` });
   }
 
   const [rsid, chromosome, positionStr, genotype] = parts;
 
   // Validate rsid (should start with 'rs' or 'i' for internal IDs)
   if (!rsid || (!rsid.startsWith('rs') && !rsid.startsWith('i'))) {
-    return null;
+    return { code: 'bad-id', message: `Invalid rsID "${rsid ?? ''}"` };
   }
 
   // Validate chromosome
   if (!chromosome || !isValidChromosome(chromosome)) {
-    return null;
+    return { code: 'bad-chromosome', message: `Invalid chromosome "${chromosome ?? ''}"` };
   }
 
   // Parse position (genomic coordinates are 1-based, so 0 is invalid)
   const position = parseInt(positionStr ?? '', 10);
   if (isNaN(position) || position <= 0) {
-    return null;
+    return { code: 'bad-position', message: `Invalid position "${positionStr ?? ''}"` };
   }
 
   // Validate genotype
   if (!genotype || !isValidGenotype(genotype)) {
-    return null;
+    return { code: 'invalid-genotype', message: `Invalid genotype "${genotype ?? ''}"` };
   }
 
   return {
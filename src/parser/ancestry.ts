@@ -11,35 +11,50 @@
 
 import type { GenomeVariant, ParseResult } from '../types';
 import { ParseError } from '../types';
+import type { GenomeParser, LineParser, ParserOptions, RowProblem } from './lines';
+import { createDiagnosticCollector, isRowProblem, parseLines } from './lines';
 
-/** Internal error tracking during parsing */
-interface ParseWarning {
-  message: string;
-  line: number;
-  details?: string;
-}
+/** Column header row written by AncestryDNA */
+const COLUMN_HEADER = 'rsid\tchromosome\tposition\tallele1\tallele2';
+
+/**
+ * AncestryDNA entry for the parser registry
+ */
+export const parserAncestry: GenomeParser = {
+  id: 'ancestry',
+  name: 'AncestryDNA',
+  formats: ['ancestry'],
+  sniff: sniffAncestry,
+  parse: parseAncestry,
+  createLineParser: createAncestryParser,
+};
 
 /**
  * Parse an AncestryDNA genome file
  * @param content Raw file content
+ * @param options Parser options (strict mode)
  * @returns ParseResult with variants and metadata
- * @throws ParseError if file is invalid
+ * @throws ParseError if file is invalid, or on the first bad row in strict mode
  */
-export function parseAncestry(content: string): ParseResult {
-  const lines = content.split(/\r?\n/); // Handle both Unix and Windows line endings
+export function parseAncestry(content: string, options: ParserOptions = {}): ParseResult {
+  return parseLines(content, createAncestryParser(options));
+}
+
+/**
+ * Create an incremental AncestryDNA parser that consumes one line at a time
+ */
+export function createAncestryParser(options: ParserOptions = {}): LineParser {
   const variants: GenomeVariant[] = [];
-  const warnings: ParseWarning[] = [];
+  const diagnostics = createDiagnosticCollector(options);
 
   let generatedAt: string | undefined;
   let build: string | undefined;
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line) continue;
+  function parseLine(line: string, lineNumber: number): GenomeVariant | undefined {
     const trimmed = line.trim();
 
     // Skip empty lines
-    if (trimmed.length === 0) continue;
+    if (trimmed.length === 0) return undefined;
 
     // Parse comment lines for metadata
     if (trimmed.startsWith('#')) {
@@ -55,92 +70,101 @@ export function parseAncestry(content: string): ParseResult {
         build = buildMatch[1];
       }
 
-      continue;
+      return undefined;
     }
 
     // Skip header line
     if (trimmed.toLowerCase().startsWith('rsid\t')) {
-      continue;
+      return undefined;
     }
 
     // Parse data line
-    const variant = parseDataLine(trimmed);
-    if (variant) {
-      variants.push(variant);
-    } else if (trimmed.length > 0 && !trimmed.startsWith('rsid')) {
-      // Only track warnings for non-empty, non-header lines that failed to parse
-      warnings.push({
-        message: 'Failed to parse line',
-        line: i + 1,
-        details: trimmed.slice(0, 100),
-      });
+    const parsed = parseDataLine(trimmed);
+    if (isRowProblem(parsed)) {
+      // Only report non-empty, non-header lines that failed to parse
+      if (!trimmed.startsWith('rsid')) {
+        diagnostics.report(parsed, lineNumber, trimmed);
+      }
+      return undefined;
     }
-  }
 
-  // Validate we got some data
-  if (variants.length === 0) {
-    throw new ParseError('No valid variants found in file. Please check the file format.');
+    variants.push(parsed);
+    return parsed;
   }
 
-  // Build result with optional warnings
-  const result: ParseResult = {
-    format: 'ancestry',
-    variants,
-    metadata: {
-      generatedAt,
-      build,
-    },
-  };
+  function finish(): ParseResult {
+    // Validate we got some data
+    if (variants.length === 0) {
+      throw new ParseError('No valid variants found in file. Please check the file format.');
+    }
 
-  // Include warnings if there were parse failures
-  if (warnings.length > 0) {
-    result.warnings = [
-      `${warnings.length} line${warnings.length === 1 ? '' : 's'} could not be parsed`,
-    ];
+    // Build result with optional diagnostics
+    const result: ParseResult = {
+      format: 'ancestry',
+      variants,
+      metadata: {
+        generatedAt,
+        build,
+      },
+    };
+    diagnostics.applyTo(result);
+
+    return result;
   }
 
-  return result;
+  return { parseLine, finish };
+}
+
+/**
+ * Score how likely a header is from AncestryDNA
+ */
+function sniffAncestry(header: string): number {
+  const hasColumns = header.includes(COLUMN_HEADER);
+  const hasVendor = header.includes('AncestryDNA');
+  if (hasColumns && hasVendor) return 1;
+  if (hasColumns) return 0.9;
+  if (hasVendor) return 0.8;
+  return 0;
 }
 
 /**
  * Parse a single data line
  * Format: rsid\tchromosome\tposition\tallele1\tallele2
+ * @returns Variant, or the problem that made the row unusable
  */
-function parseDataLine(line: string): GenomeVariant | null {
+function parseDataLine(line: string): GenomeVariant | RowProblem {
   // Split by tab
   const parts = line.split('\t');
 
   if (parts.length < 5) {
-    return null;
+    return { code: 'wrong-column-count', message: `Expected 5 columns, found ${parts.length}` };
   }
 
   const [rsid, chromosome, positionStr, allele1, allele2] = parts;
 
   // Validate rsid (should start with 'rs' or 'i' for internal IDs)
   if (!rsid || (!rsid.startsWith('rs') && !rsid.startsWith('i'))) {
-    return null;
+    return { code: 'bad-id', message: `Invalid rsID "${rsid ?? ''}"` };
   }
 
   // Validate and normalize chromosome (AncestryDNA uses numeric for sex chromosomes)
   if (!chromosome || !isValidChromosome(chromosome)) {
-    return null;
+    return { code: 'bad-chromosome', message: `Invalid chromosome "${chromosome ?? ''}"` };
   }
 
   // Parse position (genomic coordinates are 1-based, so 0 is invalid)
   const position = parseInt(positionStr ?? '', 10);
   if (isNaN(position) || position <= 0) {
-    return null;
-  }
-
-  // Validate alleles
-  if (!allele1 || !allele2) {
-    return null;
+    return { code: 'bad-position', message: `Invalid position "${positionStr ?? ''}"` };
   }
 
   // Combine alleles into genotype
-  const genotype = combineAlleles(allele1, allele2);
+  const genotype = allele1 && allele2 ? combineAlleles(allele1, allele2) : null;
   if (!genotype) {
-    return null;
+    return {
+      code: 'invalid-genotype',
+      message: `Invalid alleles "${allele1 ?? ''}" / "${allele2 ?? ''}"`,
+    };
   }
 
   return {
@@ -178,11 +202,12 @@ function normalizeChromosome(chr: string): string {
     case '25':
     case '26':
       return 'MT';
-    default:
+    default: {
       // Handle already-standard names
       const upper = chr.toUpperCase();
       if (upper === 'M') return 'MT';
       return upper;
+    }
   }
 }
 
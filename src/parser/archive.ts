@@ -0,0 +1,425 @@
+/**
+ * Compressed genome file support (.zip and .gz)
+ *
+ * 23andMe and AncestryDNA deliver raw data as .zip archives, and sequencing
+ * providers ship .vcf.gz (bgzip) files. Decompression uses the platform's
+ * DecompressionStream, available in modern browsers and Node 18+, so files
+ * are unpacked locally without extra dependencies or uploads.
+ *
+ * Format is detected from magic bytes, not the file extension:
+ * - gzip: 1F 8B (bgzip files are a series of gzip members)
+ * - zip:  50 4B 03 04 (local file header)
+ */
+
+import { ParseError } from '../types';
+
+/** Extensions accepted for compressed uploads */
+export const COMPRESSED_EXTENSIONS = ['.zip', '.gz'];
+
+/** Extensions of genome files we look for inside a zip archive */
+const GENOME_ENTRY_EXTENSIONS = ['.txt', '.csv', '.vcf', '.tsv'];
+
+/** Zip record signatures (little-endian) */
+const ZIP_LOCAL_HEADER_SIG = 0x04034b50;
+const ZIP_CENTRAL_HEADER_SIG = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIR_SIG = 0x06054b50;
+
+/** Zip compression methods we can handle */
+const ZIP_METHOD_STORED = 0;
+const ZIP_METHOD_DEFLATE = 8;
+
+/** A file entry from the zip central directory */
+interface ZipEntry {
+  name: string;
+  method: number;
+  flags: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Check whether raw bytes are a gzip or zip archive
+ */
+export function isCompressed(bytes: Uint8Array): boolean {
+  return isGzip(bytes) || isZip(bytes);
+}
+
+/**
+ * Decode a genome file from raw bytes, decompressing .zip/.gz archives
+ * Plain text files are decoded as UTF-8 unchanged.
+ * @param bytes Raw file content
+ * @returns File text ready for parseGenomeFile
+ * @throws ParseError if the archive is corrupt or contains no genome file
+ */
+export async function decodeGenomeFile(bytes: Uint8Array): Promise<string> {
+  const stream = await openGenomeStream(new Blob([bytes as Uint8Array<ArrayBuffer>]));
+  const reader = stream.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+/**
+ * Open a genome file as a stream of its (decompressed) bytes, for parseGenomeStream
+ * Archives are inflated as they are read, so the whole text is never held in
+ * memory: a zip's genome entry is found from the central directory at the end
+ * of the file and only that entry is streamed.
+ * @param file The file, or any Blob (e.g., from fs.openAsBlob in Node)
+ * @param onRead Called with the number of file bytes read so far (compressed, for archives)
+ * @throws ParseError if the archive is corrupt or contains no genome file; errors
+ *   found while inflating surface from the stream's reads
+ */
+export async function openGenomeStream(
+  file: Blob,
+  onRead?: (bytesRead: number) => void
+): Promise<ReadableStream<Uint8Array>> {
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  const source = isZip(header)
+    ? await openZipGenomeEntry(file, onRead)
+    : countBytes(file.stream(), onRead);
+
+  // Some providers zip an already-gzipped VCF, so gzip is checked after unzipping
+  return gunzipStream(source);
+}
+
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+function isZip(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && readUint32(bytes, 0) === ZIP_LOCAL_HEADER_SIG;
+}
+
+/**
+ * Report how many bytes have passed through a stream
+ */
+function countBytes(
+  stream: ReadableStream<Uint8Array>,
+  onRead?: (bytesRead: number) => void
+): ReadableStream<Uint8Array> {
+  if (!onRead) return stream;
+  let bytesRead = 0;
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytesRead += chunk.byteLength;
+        onRead(bytesRead);
+        controller.enqueue(chunk);
+      },
+    })
+  );
+}
+
+/**
+ * Run a stream through a DecompressionStream, reporting failures as a corrupt archive
+ */
+function inflateStream(
+  stream: ReadableStream<Uint8Array>,
+  format: 'gzip' | 'deflate-raw'
+): ReadableStream<Uint8Array> {
+  // DecompressionStream is typed to take BufferSource; it accepts any Uint8Array
+  const decompress = new DecompressionStream(format) as unknown as TransformStream<
+    Uint8Array,
+    Uint8Array
+  >;
+  const reader = stream.pipeThrough(decompress).getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch {
+        controller.error(
+          new ParseError('Failed to decompress file. The archive may be corrupted.')
+        );
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Inflate a byte array through a DecompressionStream
+ */
+async function inflate(bytes: Uint8Array, format: 'gzip' | 'deflate-raw'): Promise<Uint8Array> {
+  const stream = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream();
+  return new Uint8Array(await new Response(inflateStream(stream, format)).arrayBuffer());
+}
+
+/**
+ * Decompress a gzip stream, including multi-member bgzip files; other streams pass through
+ * DecompressionStream only reliably handles a single member, so bgzip blocks
+ * (which record their size in a "BC" extra subfield) are inflated one by one
+ * as they arrive.
+ */
+async function gunzipStream(
+  stream: ReadableStream<Uint8Array>
+): Promise<ReadableStream<Uint8Array>> {
+  const { head, stream: replayed } = await peekStream(stream, 18);
+  if (!isGzip(head)) {
+    return replayed;
+  }
+  if (readBgzfBlockSize(head, 0) === null) {
+    return inflateStream(replayed, 'gzip');
+  }
+
+  let pending: Uint8Array = new Uint8Array(0);
+  return replayed.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      async transform(chunk, controller) {
+        pending = concatBytes([pending, chunk]);
+        let offset = 0;
+        for (;;) {
+          const blockSize = readBgzfBlockSize(pending, offset);
+          if (blockSize === null || offset + blockSize > pending.length) break;
+          controller.enqueue(await inflate(pending.subarray(offset, offset + blockSize), 'gzip'));
+          offset += blockSize;
+        }
+        pending = pending.slice(offset);
+      },
+      flush() {
+        if (pending.length > 0) {
+          throw new ParseError('Failed to decompress file. The archive may be corrupted.');
+        }
+      },
+    })
+  );
+}
+
+/**
+ * Read the first bytes of a stream without consuming them
+ * @returns The first `length` bytes (fewer if the stream is shorter) and a
+ *   stream that yields the whole content again
+ */
+async function peekStream(
+  stream: ReadableStream<Uint8Array>,
+  length: number
+): Promise<{ head: Uint8Array; stream: ReadableStream<Uint8Array> }> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < length) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+  }
+
+  const head = concatBytes(chunks);
+  let replayedHead = false;
+  return {
+    head: head.subarray(0, length),
+    stream: new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (!replayedHead) {
+          replayedHead = true;
+          if (head.length > 0) {
+            controller.enqueue(head);
+            return;
+          }
+        }
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (err) {
+          controller.error(err);
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    }),
+  };
+}
+
+/**
+ * Read the total block size from a BGZF member header
+ * @returns Block size in bytes, or null if the member has no BC subfield
+ */
+function readBgzfBlockSize(bytes: Uint8Array, offset: number): number | null {
+  // Fixed gzip header is 10 bytes, then XLEN (2 bytes) when FEXTRA (0x04) is set
+  if (offset + 12 > bytes.length || bytes[offset] !== 0x1f || bytes[offset + 1] !== 0x8b) {
+    return null;
+  }
+  const flags = bytes[offset + 3] ?? 0;
+  if ((flags & 0x04) === 0) {
+    return null;
+  }
+
+  const extraLength = readUint16(bytes, offset + 10);
+  let pos = offset + 12;
+  const extraEnd = pos + extraLength;
+
+  while (pos + 4 <= extraEnd) {
+    const subfieldLength = readUint16(bytes, pos + 2);
+    // "BC" subfield holds BSIZE (total block size minus one)
+    if (bytes[pos] === 0x42 && bytes[pos + 1] === 0x43 && subfieldLength === 2) {
+      return readUint16(bytes, pos + 4) + 1;
+    }
+    pos += 4 + subfieldLength;
+  }
+
+  return null;
+}
+
+/**
+ * Find the genome file inside a zip archive and stream its decompressed bytes
+ * Picks the largest .txt/.csv/.vcf entry, ignoring macOS metadata and hidden files.
+ */
+async function openZipGenomeEntry(
+  file: Blob,
+  onRead?: (bytesRead: number) => void
+): Promise<ReadableStream<Uint8Array>> {
+  const entries = await readZipEntries(file);
+
+  const candidates = entries.filter((entry) => {
+    const baseName = entry.name.split('/').pop() ?? '';
+    if (entry.name.startsWith('__MACOSX/') || baseName.startsWith('.')) return false;
+    const lower = baseName.toLowerCase().replace(/\.gz$/, '');
+    return GENOME_ENTRY_EXTENSIONS.some((ext) => lower.endsWith(ext));
+  });
+
+  if (candidates.length === 0) {
+    throw new ParseError(
+      'No genome file found in the zip archive.',
+      undefined,
+      'Expected a .txt, .csv or .vcf file inside the archive.'
+    );
+  }
+
+  const entry = candidates.reduce((a, b) => (b.uncompressedSize > a.uncompressedSize ? b : a));
+
+  // Encrypted entries (general purpose flag bit 0) cannot be read without a password
+  if (entry.flags & 0x01) {
+    throw new ParseError('The zip archive is password-protected. Please extract it first.');
+  }
+
+  const data = countBytes((await readZipEntryData(file, entry)).stream(), onRead);
+  switch (entry.method) {
+    case ZIP_METHOD_STORED:
+      return data;
+    case ZIP_METHOD_DEFLATE:
+      return inflateStream(data, 'deflate-raw');
+    default:
+      throw new ParseError(
+        `Unsupported zip compression method (${entry.method}). Please extract the file first.`
+      );
+  }
+}
+
+/**
+ * Read file entries from the zip central directory
+ * Only the end of the file (where the directory lives) is read.
+ */
+async function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+  // The End Of Central Directory record is 22 bytes plus a comment of up to 65535 bytes
+  const tailStart = Math.max(0, file.size - 22 - 0xffff);
+  const tail = new Uint8Array(await file.slice(tailStart).arrayBuffer());
+  const eocdOffset = findEndOfCentralDirectory(tail);
+  if (eocdOffset === -1) {
+    throw new ParseError('Failed to read zip archive. The file may be corrupted.');
+  }
+
+  const entryCount = readUint16(tail, eocdOffset + 10);
+  const directorySize = readUint32(tail, eocdOffset + 12);
+  const directoryOffset = readUint32(tail, eocdOffset + 16);
+
+  // ZIP64 archives store 0xFFFFFFFF here; genome exports never need them
+  if (directoryOffset === 0xffffffff) {
+    throw new ParseError('ZIP64 archives are not supported. Please extract the file first.');
+  }
+
+  const directory = new Uint8Array(
+    await file.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer()
+  );
+  const decoder = new TextDecoder('utf-8');
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (pos + 46 > directory.length || readUint32(directory, pos) !== ZIP_CENTRAL_HEADER_SIG) {
+      throw new ParseError('Failed to read zip archive. The file may be corrupted.');
+    }
+
+    const nameLength = readUint16(directory, pos + 28);
+    const extraLength = readUint16(directory, pos + 30);
+    const commentLength = readUint16(directory, pos + 32);
+
+    entries.push({
+      flags: readUint16(directory, pos + 8),
+      method: readUint16(directory, pos + 10),
+      compressedSize: readUint32(directory, pos + 20),
+      uncompressedSize: readUint32(directory, pos + 24),
+      localHeaderOffset: readUint32(directory, pos + 42),
+      name: decoder.decode(directory.subarray(pos + 46, pos + 46 + nameLength)),
+    });
+
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Locate the End Of Central Directory record by scanning back from the end
+ */
+function findEndOfCentralDirectory(bytes: Uint8Array): number {
+  for (let pos = bytes.length - 22; pos >= 0; pos--) {
+    if (readUint32(bytes, pos) === ZIP_END_OF_CENTRAL_DIR_SIG) {
+      return pos;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Slice the compressed data for an entry (its local header has its own name/extra lengths)
+ */
+async function readZipEntryData(file: Blob, entry: ZipEntry): Promise<Blob> {
+  const pos = entry.localHeaderOffset;
+  const header = new Uint8Array(await file.slice(pos, pos + 30).arrayBuffer());
+  if (header.length < 30 || readUint32(header, 0) !== ZIP_LOCAL_HEADER_SIG) {
+    throw new ParseError('Failed to read zip archive. The file may be corrupted.');
+  }
+
+  const nameLength = readUint16(header, 26);
+  const extraLength = readUint16(header, 28);
+  const start = pos + 30 + nameLength + extraLength;
+
+  return file.slice(start, start + entry.compressedSize);
+}
+
+function readUint16(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] ?? 0) | ((bytes[offset + 1] ?? 0) << 8);
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (readUint16(bytes, offset) | (readUint16(bytes, offset + 2) << 16)) >>> 0;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
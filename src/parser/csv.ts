@@ -0,0 +1,288 @@
+/**
+ * Parser for CSV genome files (MyHeritage and FamilyTreeDNA)
+ *
+ * MyHeritage / FTDNA format:
+ * - MyHeritage files start with comment lines beginning with #
+ * - FTDNA (Family Finder) files have no comments, only the header row
+ * - Header line: RSID,CHROMOSOME,POSITION,RESULT
+ * - Data lines: "rsid","chromosome","position","genotype" (comma-separated, quoted)
+ * - Genotypes are 2 characters (e.g., "AA", "CT") or "--" for no-call
+ * - FTDNA uses "XY" for pseudoautosomal SNPs, treated here as X
+ */
+
+import type { GenomeVariant, ParseResult } from '../types';
+import { ParseError } from '../types';
+import type { GenomeParser, LineParser, ParserOptions, RowProblem } from './lines';
+import { createDiagnosticCollector, isRowProblem, parseLines } from './lines';
+
+/** Formats that share the quoted CSV layout */
+type CsvFormat = 'myheritage' | 'ftdna';
+
+/**
+ * MyHeritage entry for the parser registry
+ */
+export const parserMyHeritage: GenomeParser = {
+  id: 'myheritage',
+  name: 'MyHeritage',
+  formats: ['myheritage'],
+  sniff: sniffMyHeritage,
+  parse: parseMyHeritage,
+  createLineParser: createMyHeritageParser,
+};
+
+/**
+ * FamilyTreeDNA entry for the parser registry
+ */
+export const parserFTDNA: GenomeParser = {
+  id: 'ftdna',
+  name: 'FamilyTreeDNA',
+  formats: ['ftdna'],
+  sniff: sniffFTDNA,
+  parse: parseFTDNA,
+  createLineParser: createFTDNAParser,
+};
+
+/**
+ * Parse a MyHeritage genome file
+ * @param content Raw file content
+ * @param options Parser options (strict mode)
+ * @returns ParseResult with variants and metadata
+ * @throws ParseError if file is invalid, or on the first bad row in strict mode
+ */
+export function parseMyHeritage(content: string, options: ParserOptions = {}): ParseResult {
+  return parseLines(content, createMyHeritageParser(options));
+}
+
+/**
+ * Parse a FamilyTreeDNA (Family Finder) genome file
+ * @param content Raw file content
+ * @param options Parser options (strict mode)
+ * @returns ParseResult with variants and metadata
+ * @throws ParseError if file is invalid, or on the first bad row in strict mode
+ */
+export function parseFTDNA(content: string, options: ParserOptions = {}): ParseResult {
+  return parseLines(content, createFTDNAParser(options));
+}
+
+/**
+ * Create an incremental MyHeritage parser that consumes one line at a time
+ */
+export function createMyHeritageParser(options: ParserOptions = {}): LineParser {
+  return createCsvParser('myheritage', options);
+}
+
+/**
+ * Create an incremental FamilyTreeDNA parser that consumes one line at a time
+ */
+export function createFTDNAParser(options: ParserOptions = {}): LineParser {
+  return createCsvParser('ftdna', options);
+}
+
+/**
+ * Score how likely a header is from MyHeritage
+ * The column row alone is shared with FTDNA, so it only makes MyHeritage a runner-up.
+ */
+function sniffMyHeritage(header: string): number {
+  const hasColumns = hasCsvGenomeHeader(header);
+  const hasVendor = header.includes('MyHeritage');
+  if (hasColumns && hasVendor) return 1;
+  if (hasColumns) return 0.4;
+  if (hasVendor) return 0.3;
+  return 0;
+}
+
+/**
+ * Score how likely a header is from FamilyTreeDNA
+ * FTDNA files have no comment header, only the CSV column row.
+ */
+function sniffFTDNA(header: string): number {
+  const hasColumns = hasCsvGenomeHeader(header);
+  const hasVendor = header.includes('FamilyTreeDNA');
+  if (hasColumns && hasVendor) return 1;
+  if (hasVendor) return 0.8;
+  if (hasColumns) return 0.6;
+  return 0;
+}
+
+/**
+ * Check for the RSID,CHROMOSOME,POSITION,RESULT column row (quoted or unquoted)
+ */
+function hasCsvGenomeHeader(header: string): boolean {
+  return /^"?RSID"?,"?CHROMOSOME"?,"?POSITION"?,"?RESULT"?/im.test(header);
+}
+
+/**
+ * Shared implementation for the quoted CSV layout
+ */
+function createCsvParser(format: CsvFormat, options: ParserOptions): LineParser {
+  const variants: GenomeVariant[] = [];
+  const diagnostics = createDiagnosticCollector(options);
+
+  let generatedAt: string | undefined;
+  let build: string | undefined;
+
+  function parseLine(line: string, lineNumber: number): GenomeVariant | undefined {
+    const trimmed = line.trim();
+
+    // Skip empty lines
+    if (trimmed.length === 0) return undefined;
+
+    // Parse comment lines for metadata (MyHeritage only, FTDNA has none)
+    if (trimmed.startsWith('#')) {
+      // Extract generation date
+      const dateMatch = trimmed.match(/generated on\s*:?\s*(.+)/i);
+      if (dateMatch?.[1]) {
+        generatedAt = dateMatch[1].trim();
+      }
+
+      // Extract build info
+      const buildMatch = trimmed.match(/build\s*:?\s*(\d+)/i);
+      if (buildMatch?.[1]) {
+        build = buildMatch[1];
+      }
+
+      return undefined;
+    }
+
+    // Skip header line (may be quoted or unquoted)
+    if (/^"?rsid"?,/i.test(trimmed)) {
+      return undefined;
+    }
+
+    // Parse data line
+    const parsed = parseDataLine(trimmed, (problem) =>
+      diagnostics.report(problem, lineNumber, trimmed, 'warning')
+    );
+    if (isRowProblem(parsed)) {
+      diagnostics.report(parsed, lineNumber, trimmed);
+      return undefined;
+    }
+
+    variants.push(parsed);
+    return parsed;
+  }
+
+  function finish(): ParseResult {
+    // Validate we got some data
+    if (variants.length === 0) {
+      throw new ParseError('No valid variants found in file. Please check the file format.');
+    }
+
+    // Build result with optional diagnostics
+    const result: ParseResult = {
+      format,
+      variants,
+      metadata: {
+        generatedAt,
+        build,
+      },
+    };
+    diagnostics.applyTo(result);
+
+    return result;
+  }
+
+  return { parseLine, finish };
+}
+
+/**
+ * Parse a single data line
+ * Format: "rsid","chromosome","position","genotype"
+ * @param warn Receives problems that don't prevent the row from being used
+ * @returns Variant, or the problem that made the row unusable
+ */
+function parseDataLine(
+  line: string,
+  warn: (problem: RowProblem) => void
+): GenomeVariant | RowProblem {
+  // Split by comma and strip surrounding quotes
+  const parts = line.split(',').map(unquote);
+
+  if (parts.length < 4) {
+    return { code: 'wrong-column-count', message: `Expected 4 columns, found ${parts.length}` };
+  }
+  if (parts.length > 4) {
+    warn({ code: 'wrong-column-count', message: `Expected 4 columns, found ${parts.length}` });
+  }
+
+  const [rsid, chromosome, positionStr, genotype] = parts;
+
+  // Validate rsid (should start with 'rs' or 'i' for internal IDs)
+  if (!rsid || (!rsid.startsWith('rs') && !rsid.startsWith('i'))) {
+    return { code: 'bad-id', message: `Invalid rsID "${rsid ?? ''}"` };
+  }
+
+  // Validate chromosome
+  if (!chromosome || !isValidChromosome(chromosome)) {
+    return { code: 'bad-chromosome', message: `Invalid chromosome "${chromosome ?? ''}"` };
+  }
+
+  // Parse position (genomic coordinates are 1-based, so 0 is invalid)
+  const position = parseInt(positionStr ?? '', 10);
+  if (isNaN(position) || position <= 0) {
+    return { code: 'bad-position', message: `Invalid position "${positionStr ?? ''}"` };
+  }
+
+  // Validate genotype
+  if (!genotype || !isValidGenotype(genotype)) {
+    return { code: 'invalid-genotype', message: `Invalid genotype "${genotype ?? ''}"` };
+  }
+
+  return {
+    rsid: rsid.toLowerCase(), // Normalize to lowercase
+    chromosome: normalizeChromosome(chromosome),
+    position,
+    genotype: genotype.toUpperCase(), // Normalize to uppercase
+  };
+}
+
+/**
+ * Remove surrounding double quotes and whitespace from a CSV field
+ */
+function unquote(field: string): string {
+  const trimmed = field.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    return trimmed.slice(1, -1).trim();
+  }
+  return trimmed;
+}
+
+/**
+ * Check if chromosome value is valid
+ */
+function isValidChromosome(chr: string): boolean {
+  const normalized = chr.toUpperCase();
+  // Autosomes 1-22, sex chromosomes X/Y (and FTDNA's pseudoautosomal XY), mitochondrial MT
+  if (/^[1-9]$|^1[0-9]$|^2[0-2]$/.test(normalized)) return true;
+  if (['X', 'Y', 'XY', 'MT', 'M'].includes(normalized)) return true;
+  return false;
+}
+
+/**
+ * Normalize chromosome representation
+ */
+function normalizeChromosome(chr: string): string {
+  const upper = chr.toUpperCase();
+  if (upper === 'M') return 'MT';
+  if (upper === 'XY') return 'X';
+  return upper;
+}
+
+/**
+ * Check if genotype value is valid
+ */
+function isValidGenotype(genotype: string): boolean {
+  // No-call
+  if (genotype === '--') return true;
+
+  // Single nucleotide (for hemizygous X/Y in males)
+  if (/^[ACGT]$/.test(genotype.toUpperCase())) return true;
+
+  // Diploid genotype
+  if (/^[ACGT]{2}$/.test(genotype.toUpperCase())) return true;
+
+  // Insertions/deletions (I/D notation)
+  if (/^[DI]{1,2}$/.test(genotype.toUpperCase())) return true;
+
+  return false;
+}
@@ -3,44 +3,50 @@
  */
 
 export { detectFormat, formatDisplayName } from './detector';
+export {
+  registerParser,
+  unregisterParser,
+  getParsers,
+  findParser,
+  sniffFormat,
+  MIN_CONFIDENCE,
+} from './registry';
 export { parse23andMe } from './23andme';
 export { parseAncestry } from './ancestry';
+export { parseMyHeritage, parseFTDNA } from './csv';
+export { parseVCF } from './vcf';
+export {
+  decodeGenomeFile,
+  isCompressed,
+  openGenomeStream,
+  COMPRESSED_EXTENSIONS,
+} from './archive';
+export {
+  createStreamParser,
+  createLineParser,
+  parseGenomeStream,
+  parseGenomeChunks,
+} from './stream';
+export type { StreamParser, StreamParseOptions } from './stream';
+export type { GenomeParser, LineParser, ParserOptions } from './lines';
 
 import type { ParseResult } from '../types';
-import { ParseError } from '../types';
-import { detectFormat } from './detector';
-import { parse23andMe } from './23andme';
-import { parseAncestry } from './ancestry';
+import type { StreamParseOptions } from './stream';
+import { createStreamParser } from './stream';
 
 /**
  * Parse a genome file, auto-detecting format
+ * Runs the same incremental parser used for streamed files over the whole content.
  * @param content Raw file content
+ * @param options Optional progress and per-variant callbacks, strict mode and a forced format
  * @returns ParseResult with variants and metadata
- * @throws Error if format is unsupported or parsing fails
+ * @throws ParseError if format is unsupported or parsing fails
  */
-export function parseGenomeFile(content: string): ParseResult {
-  const format = detectFormat(content);
-
-  switch (format) {
-    case '23andme-v5':
-    case '23andme-v4':
-    case '23andme-v3': {
-      const result = parse23andMe(content);
-      // Use the detected format, not the hardcoded one from the parser
-      result.format = format;
-      return result;
-    }
-
-    case 'ancestry':
-      return parseAncestry(content);
-
-    case 'unknown':
-      throw createUnsupportedFormatError(
-        'Unable to detect file format. Please upload a raw data file from 23andMe or AncestryDNA.'
-      );
-  }
-}
-
-function createUnsupportedFormatError(message: string): ParseError {
-  return new ParseError(message, undefined, 'Supported formats: 23andMe (.txt), AncestryDNA (.txt)');
+export function parseGenomeFile(
+  content: string,
+  options: StreamParseOptions = {}
+): ParseResult {
+  const parser = createStreamParser(options);
+  parser.write(content);
+  return parser.end();
 }
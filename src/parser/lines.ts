@@ -0,0 +1,171 @@
+/**
+ * Line-oriented parser interface shared by all format parsers
+ *
+ * Each format exposes a factory returning a LineParser, which consumes one
+ * line at a time so files can be parsed incrementally from a stream without
+ * holding the whole text (or an array of every line) in memory.
+ */
+
+import type {
+  DiagnosticSeverity,
+  GenomeFormat,
+  GenomeVariant,
+  ParseDiagnostic,
+  ParseDiagnosticCode,
+  ParseResult,
+} from '../types';
+import { ParseError } from '../types';
+
+/** Characters of the offending line kept in a diagnostic */
+const EXCERPT_LENGTH = 100;
+
+/**
+ * Options shared by all format parsers
+ */
+export interface ParserOptions {
+  strict?: boolean; // Throw a ParseError on the first row that cannot be parsed
+}
+
+/**
+ * A problem with one data row, before its line number and excerpt are attached
+ */
+export interface RowProblem {
+  code: ParseDiagnosticCode;
+  message: string;
+}
+
+/**
+ * Check whether a row parse returned a problem instead of a variant
+ */
+export function isRowProblem<T extends object>(value: T | RowProblem): value is RowProblem {
+  return 'code' in value;
+}
+
+/**
+ * Incremental parser for a single genome file format
+ */
+export interface LineParser {
+  /**
+   * Consume one line (without its line terminator)
+   * @param line Raw line content
+   * @param lineNumber 1-based line number, used in diagnostics
+   * @returns The variant parsed from the line, if any
+   */
+  parseLine(line: string, lineNumber: number): GenomeVariant | undefined;
+
+  /**
+   * Finish parsing and build the result
+   * @throws ParseError if no valid variants were found
+   */
+  finish(): ParseResult;
+}
+
+/**
+ * A genome file format: how to recognize it and how to parse it
+ * Built-in formats and custom ones are registered the same way (see registry).
+ */
+export interface GenomeParser {
+  id: string; // Registry key; registering a parser with the same id replaces it
+  name: string; // Display name, e.g. "AncestryDNA"
+  formats: readonly GenomeFormat[]; // Formats this parser reads; the first is the default
+
+  /**
+   * Score how likely the file header is in this format
+   * @param header First ~2KB of the file
+   * @returns Confidence from 0 (not this format) to 1 (certain)
+   */
+  sniff(header: string): number;
+
+  /**
+   * Pick which of the parser's formats (e.g., a chip version) the header describes
+   * Parsers reading a single format can leave this out.
+   */
+  resolveFormat?(header: string): GenomeFormat;
+
+  /**
+   * Parse complete file content
+   * @throws ParseError if the file is invalid
+   */
+  parse(content: string, options?: ParserOptions): ParseResult;
+
+  /**
+   * Create an incremental parser for streaming
+   * Without one, streamed files are buffered and handed to parse() whole.
+   */
+  createLineParser?(options?: ParserOptions): LineParser;
+}
+
+/**
+ * Collects row diagnostics for a parser and attaches them to its result
+ */
+export interface DiagnosticCollector {
+  /**
+   * Record a problem on a row
+   * @throws ParseError in strict mode when the problem is an error
+   */
+  report(
+    problem: RowProblem,
+    lineNumber: number,
+    line: string,
+    severity?: DiagnosticSeverity
+  ): void;
+
+  /** Attach diagnostics and the summary warning to a finished result */
+  applyTo(result: ParseResult): void;
+}
+
+/**
+ * Create a diagnostic collector honouring the parser options
+ */
+export function createDiagnosticCollector(options: ParserOptions = {}): DiagnosticCollector {
+  const diagnostics: ParseDiagnostic[] = [];
+  let errorCount = 0;
+
+  return {
+    report(problem, lineNumber, line, severity = 'error') {
+      const excerpt = line.trim().slice(0, EXCERPT_LENGTH);
+      if (severity === 'error') {
+        if (options.strict) {
+          throw new ParseError(`Line ${lineNumber}: ${problem.message}`, lineNumber, excerpt);
+        }
+        errorCount++;
+      }
+      diagnostics.push({ ...problem, severity, line: lineNumber, excerpt });
+    },
+
+    applyTo(result) {
+      if (diagnostics.length === 0) return;
+      result.diagnostics = diagnostics;
+      if (errorCount > 0) {
+        result.warnings = [`${errorCount} line${errorCount === 1 ? '' : 's'} could not be parsed`];
+      }
+    },
+  };
+}
+
+/**
+ * Run a LineParser over complete file content
+ * Walks the string with indexOf rather than split() to avoid a second copy of every line.
+ */
+export function parseLines(content: string, parser: LineParser): ParseResult {
+  let start = 0;
+  let lineNumber = 0;
+
+  while (start <= content.length) {
+    let end = content.indexOf('\n', start);
+    if (end === -1) end = content.length;
+
+    lineNumber++;
+    parser.parseLine(stripCarriageReturn(content.slice(start, end)), lineNumber);
+    start = end + 1;
+  }
+
+  return parser.finish();
+}
+
+/**
+ * Remove a trailing \r left over from Windows line endings
+ */
+export function stripCarriageReturn(line: string): string {
+  return line.endsWith('\r') ? line.slice(0, -1) : line;
+}
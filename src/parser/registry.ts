@@ -0,0 +1,120 @@
+/**
+ * Parser registry
+ *
+ * Every genome file format is a GenomeParser: a sniff() that scores a file
+ * header and the functions that parse it. Detection asks every registered
+ * parser for a score and reports the winner alongside the runner-up, so a
+ * close call is visible instead of silently picking one format. Library
+ * consumers can register parsers for formats this package does not ship.
+ */
+
+import type { FormatCandidate, FormatDetection, GenomeFormat, ParseResult } from '../types';
+import { parser23andMe } from './23andme';
+import { parserAncestry } from './ancestry';
+import { parserMyHeritage, parserFTDNA } from './csv';
+import { parserVCF } from './vcf';
+import type { GenomeParser, LineParser, ParserOptions } from './lines';
+
+/** Scores below this are too weak to parse a file as that format */
+export const MIN_CONFIDENCE = 0.5;
+
+/** Registered parsers, in tie-breaking order (built-ins first) */
+const parsers: GenomeParser[] = [
+  parserVCF,
+  parser23andMe,
+  parserAncestry,
+  parserMyHeritage,
+  parserFTDNA,
+];
+
+/**
+ * Register a parser for a custom format
+ * A parser with the same id (including a built-in one) is replaced in place.
+ */
+export function registerParser(parser: GenomeParser): void {
+  const index = parsers.findIndex((p) => p.id === parser.id);
+  if (index === -1) {
+    parsers.push(parser);
+  } else {
+    parsers[index] = parser;
+  }
+}
+
+/**
+ * Remove a registered parser
+ * @returns Whether a parser with that id was registered
+ */
+export function unregisterParser(id: string): boolean {
+  const index = parsers.findIndex((p) => p.id === id);
+  if (index === -1) return false;
+  parsers.splice(index, 1);
+  return true;
+}
+
+/**
+ * All registered parsers, in tie-breaking order
+ */
+export function getParsers(): readonly GenomeParser[] {
+  return parsers;
+}
+
+/**
+ * Find the parser that reads a format
+ */
+export function findParser(format: GenomeFormat): GenomeParser | undefined {
+  return parsers.find((p) => p.formats.includes(format));
+}
+
+/**
+ * Score a file header against every registered parser
+ * @param header First ~2KB of the file
+ * @returns The winning format, or 'unknown' with the best weak guess as runner-up
+ */
+export function sniffFormat(header: string): FormatDetection {
+  const scored = parsers
+    .map((parser) => ({ parser, confidence: clampConfidence(parser.sniff(header)) }))
+    .filter((s) => s.confidence > 0);
+
+  // Stable sort keeps registration order for ties
+  scored.sort((a, b) => b.confidence - a.confidence);
+  const candidates: FormatCandidate[] = scored.map(({ parser, confidence }) => ({
+    format: parser.resolveFormat?.(header) ?? (parser.formats[0] as GenomeFormat),
+    confidence,
+  }));
+
+  const [best, second] = candidates;
+  if (!best || best.confidence < MIN_CONFIDENCE) {
+    const detection: FormatDetection = { format: 'unknown', confidence: 0 };
+    if (best) detection.runnerUp = best;
+    return detection;
+  }
+
+  const detection: FormatDetection = { ...best };
+  if (second) detection.runnerUp = second;
+  return detection;
+}
+
+/**
+ * Create the LineParser for a registered parser
+ * Parsers without incremental support buffer the lines and parse them whole.
+ */
+export function lineParserFor(parser: GenomeParser, options: ParserOptions = {}): LineParser {
+  if (parser.createLineParser) {
+    return parser.createLineParser(options);
+  }
+
+  const lines: string[] = [];
+  return {
+    parseLine(line: string): undefined {
+      lines.push(line);
+      return undefined;
+    },
+    finish(): ParseResult {
+      return parser.parse(lines.join('\n'), options);
+    },
+  };
+}
+
+function clampConfidence(value: number): number {
+  return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+}
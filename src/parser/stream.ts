@@ -0,0 +1,222 @@
+/**
+ * Streaming genome file parser
+ *
+ * Feeds text chunks through the format-specific LineParsers so large files
+ * (100MB chip exports, multi-GB VCFs) are parsed without keeping the whole
+ * text or an array of every line in memory. The format is detected once the
+ * first ~2KB have arrived, matching detectFormat's window, unless the caller
+ * forces one.
+ *
+ * Sources:
+ * - createStreamParser: push string chunks manually
+ * - parseGenomeStream: a web ReadableStream (e.g., File.stream() in the browser)
+ * - parseGenomeChunks: any async iterable of bytes (e.g., a Node Readable)
+ */
+
+import type {
+  FormatDetection,
+  GenomeFormat,
+  GenomeVariant,
+  ParseProgress,
+  ParseResult,
+} from '../types';
+import { ParseError } from '../types';
+import { DETECTION_WINDOW } from './detector';
+import { findParser, lineParserFor, sniffFormat } from './registry';
+import type { LineParser, ParserOptions } from './lines';
+import { stripCarriageReturn } from './lines';
+
+/**
+ * Options for streaming parses
+ */
+export interface StreamParseOptions extends ParserOptions {
+  totalBytes?: number; // Total input size, for progress percentages
+  onProgress?: (progress: ParseProgress) => void; // Called after each chunk
+  onVariant?: (variant: GenomeVariant) => void; // Called for every parsed variant
+  signal?: AbortSignal; // Aborts reading between chunks
+  format?: GenomeFormat; // Parse as this format instead of detecting it
+}
+
+/**
+ * Push-based parser: write text chunks in order, then call end()
+ */
+export interface StreamParser {
+  /**
+   * Consume the next chunk of text
+   * @param chunk Text chunk (may end mid-line)
+   * @param byteLength Size of the chunk in the source, for progress (defaults to chunk.length)
+   * @throws ParseError if the format cannot be detected
+   */
+  write(chunk: string, byteLength?: number): void;
+
+  /**
+   * Flush the final line and build the result
+   * @throws ParseError if the format is unsupported or no variants were found
+   */
+  end(): ParseResult;
+}
+
+/**
+ * Create the LineParser for a detected or forced format
+ * @throws ParseError for unknown or unregistered formats
+ */
+export function createLineParser(format: GenomeFormat, options: ParserOptions = {}): LineParser {
+  const parser = format === 'unknown' ? undefined : findParser(format);
+  if (!parser) {
+    throw createUnsupportedFormatError(
+      format === 'unknown'
+        ? 'Unable to detect file format. Please upload a raw data file from 23andMe, AncestryDNA, MyHeritage or FamilyTreeDNA, or a VCF file.'
+        : `Unsupported file format: ${format}`
+    );
+  }
+  return lineParserFor(parser, options);
+}
+
+/**
+ * Create a push-based streaming parser with format auto-detection
+ */
+export function createStreamParser(options: StreamParseOptions = {}): StreamParser {
+  let pending = ''; // Undetected header text, then the trailing partial line
+  let detection: FormatDetection = { format: 'unknown', confidence: 0 };
+  let lineParser: LineParser | null = null;
+  let bytesRead = 0;
+  let lineNumber = 0;
+  let variantCount = 0;
+
+  function detect(): LineParser {
+    detection = options.format
+      ? { format: options.format, confidence: 1, forced: true }
+      : sniffFormat(pending.slice(0, DETECTION_WINDOW));
+    lineParser = createLineParser(detection.format, { strict: options.strict });
+    return lineParser;
+  }
+
+  function handleLine(parser: LineParser, line: string): void {
+    lineNumber++;
+    const variant = parser.parseLine(stripCarriageReturn(line), lineNumber);
+    if (variant) {
+      variantCount++;
+      options.onVariant?.(variant);
+    }
+  }
+
+  function consumeCompleteLines(parser: LineParser): void {
+    let start = 0;
+    let end = pending.indexOf('\n', start);
+    while (end !== -1) {
+      handleLine(parser, pending.slice(start, end));
+      start = end + 1;
+      end = pending.indexOf('\n', start);
+    }
+    pending = pending.slice(start);
+  }
+
+  function reportProgress(): void {
+    options.onProgress?.({
+      bytesRead,
+      totalBytes: options.totalBytes,
+      linesRead: lineNumber,
+      variantCount,
+    });
+  }
+
+  return {
+    write(chunk: string, byteLength = chunk.length): void {
+      pending += chunk;
+      bytesRead += byteLength;
+
+      // Wait for enough header text to detect the format reliably
+      const parser = lineParser ?? (pending.length >= DETECTION_WINDOW ? detect() : null);
+      if (parser) {
+        consumeCompleteLines(parser);
+      }
+
+      reportProgress();
+    },
+
+    end(): ParseResult {
+      const parser = lineParser ?? detect();
+      consumeCompleteLines(parser);
+      if (pending.length > 0) {
+        handleLine(parser, pending);
+        pending = '';
+      }
+      reportProgress();
+
+      const result = parser.finish();
+      // Use the detected or forced format (e.g., 23andMe version), not the parser's default
+      result.format = detection.format;
+      result.detection = detection;
+
+      // Parsers without incremental support only yield variants once finished
+      if (variantCount === 0 && options.onVariant) {
+        result.variants.forEach(options.onVariant);
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * Parse a genome file from a web ReadableStream of bytes (e.g., File.stream())
+ * @throws ParseError if parsing fails, or the signal's reason if aborted
+ */
+export async function parseGenomeStream(
+  stream: ReadableStream<Uint8Array>,
+  options: StreamParseOptions = {}
+): Promise<ParseResult> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder('utf-8');
+  const parser = createStreamParser(options);
+
+  try {
+    for (;;) {
+      options.signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.write(decoder.decode(value, { stream: true }), value.byteLength);
+    }
+  } catch (err) {
+    await reader.cancel().catch(() => undefined);
+    throw err;
+  }
+
+  // Flush any bytes the decoder held back (already counted in bytesRead)
+  const tail = decoder.decode();
+  if (tail) parser.write(tail, 0);
+  return parser.end();
+}
+
+/**
+ * Parse a genome file from an async iterable of chunks (e.g., a Node Readable)
+ * @throws ParseError if parsing fails, or the signal's reason if aborted
+ */
+export async function parseGenomeChunks(
+  chunks: AsyncIterable<Uint8Array | string>,
+  options: StreamParseOptions = {}
+): Promise<ParseResult> {
+  const decoder = new TextDecoder('utf-8');
+  const parser = createStreamParser(options);
+
+  for await (const chunk of chunks) {
+    options.signal?.throwIfAborted();
+    if (typeof chunk === 'string') {
+      parser.write(chunk);
+    } else {
+      parser.write(decoder.decode(chunk, { stream: true }), chunk.byteLength);
+    }
+  }
+
+  // Flush any bytes the decoder held back (already counted in bytesRead)
+  const tail = decoder.decode();
+  if (tail) parser.write(tail, 0);
+  return parser.end();
+}
+
+function createUnsupportedFormatError(message: string): ParseError {
+  return new ParseError(
+    message,
+    undefined,
+    'Supported formats: 23andMe (.txt), AncestryDNA (.txt), MyHeritage (.csv), FamilyTreeDNA (.csv), VCF (.vcf)'
+  );
+}
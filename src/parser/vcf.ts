@@ -0,0 +1,291 @@
+/**
+ * Parser for VCF / gVCF genome files (whole-genome and exome sequencing)
+ *
+ * VCF format:
+ * - Meta lines start with ## (e.g., ##fileformat=VCFv4.2, ##reference=GRCh37)
+ * - Header line: #CHROM\tPOS\tID\tREF\tALT\tQUAL\tFILTER\tINFO\tFORMAT\tSAMPLE
+ * - Data lines are tab-separated; only the first sample column is used
+ * - GT values index into [REF, ...ALT] (e.g., "0/1", "1|2", "./.", haploid "1")
+ * - ALT may list several alleles (multi-allelic sites) or be "." / <NON_REF> (gVCF)
+ * - ID may be "." when no rsID is assigned; such rows get a "chrom:pos" identifier
+ * - Rows on non-primary contigs (alts, decoys, unplaced scaffolds) are skipped
+ */
+
+import type { GenomeVariant, ParseResult } from '../types';
+import { ParseError } from '../types';
+import type { GenomeParser, LineParser, ParserOptions, RowProblem } from './lines';
+import { createDiagnosticCollector, isRowProblem, parseLines } from './lines';
+
+/**
+ * VCF entry for the parser registry
+ */
+export const parserVCF: GenomeParser = {
+  id: 'vcf',
+  name: 'VCF (sequencing)',
+  formats: ['vcf'],
+  sniff: sniffVCF,
+  parse: parseVCF,
+  createLineParser: createVCFParser,
+};
+
+/** Chromosome 1 length per build, used when only ##contig headers identify the build */
+const CHR1_LENGTH_TO_BUILD: Record<string, string> = {
+  '247249719': '36',
+  '249250621': '37',
+  '248956422': '38',
+};
+
+/**
+ * Parse a VCF or gVCF genome file
+ * @param content Raw file content
+ * @param options Parser options (strict mode)
+ * @returns ParseResult with variants and metadata
+ * @throws ParseError if file is invalid, or on the first bad row in strict mode
+ */
+export function parseVCF(content: string, options: ParserOptions = {}): ParseResult {
+  return parseLines(content, createVCFParser(options));
+}
+
+/**
+ * Create an incremental VCF parser that consumes one line at a time
+ */
+export function createVCFParser(options: ParserOptions = {}): LineParser {
+  const variants: GenomeVariant[] = [];
+  const diagnostics = createDiagnosticCollector(options);
+
+  let generatedAt: string | undefined;
+  let build: string | undefined;
+
+  function parseLine(line: string, lineNumber: number): GenomeVariant | undefined {
+    const trimmed = line.trim();
+
+    // Skip empty lines
+    if (trimmed.length === 0) return undefined;
+
+    // Parse meta lines for metadata
+    if (trimmed.startsWith('##')) {
+      const dateMatch = trimmed.match(/^##fileDate=(.+)/i);
+      if (dateMatch?.[1]) {
+        generatedAt = dateMatch[1].trim();
+      }
+
+      // ##reference takes precedence over anything inferred from ##contig
+      if (/^##reference=/i.test(trimmed)) {
+        build = detectBuild(trimmed) ?? build;
+      } else if (!build && /^##contig=/i.test(trimmed)) {
+        build = detectBuild(trimmed);
+      }
+
+      return undefined;
+    }
+
+    // Skip column header line
+    if (trimmed.startsWith('#')) {
+      return undefined;
+    }
+
+    // Parse data line ('skip' marks valid rows we deliberately ignore)
+    const parsed = parseDataLine(line);
+    if (parsed === 'skip') {
+      return undefined;
+    } else if (isRowProblem(parsed)) {
+      diagnostics.report(parsed, lineNumber, trimmed);
+      return undefined;
+    }
+
+    variants.push(parsed);
+    return parsed;
+  }
+
+  function finish(): ParseResult {
+    // Validate we got some data
+    if (variants.length === 0) {
+      throw new ParseError('No valid variants found in file. Please check the file format.');
+    }
+
+    // Build result with optional diagnostics
+    const result: ParseResult = {
+      format: 'vcf',
+      variants,
+      metadata: {
+        generatedAt,
+        build,
+      },
+    };
+    diagnostics.applyTo(result);
+
+    return result;
+  }
+
+  return { parseLine, finish };
+}
+
+/**
+ * Score how likely a header is VCF
+ * Meta lines may name the chip vendor a VCF was converted from, so a
+ * ##fileformat line is certain and outranks any vendor mention.
+ */
+function sniffVCF(header: string): number {
+  if (header.trimStart().startsWith('##fileformat=VCF')) return 1;
+  if (/^#CHROM\tPOS\tID\tREF\tALT/m.test(header)) return 0.7;
+  return 0;
+}
+
+/**
+ * Detect the reference build from a ##reference or ##contig meta line
+ * @returns Build number as a string (e.g., "37"), matching the other parsers
+ */
+function detectBuild(metaLine: string): string | undefined {
+  if (/GRCh38|hg38|b38/i.test(metaLine)) return '38';
+  if (/GRCh37|hg19|b37|hs37d5/i.test(metaLine)) return '37';
+  if (/NCBI36|GRCh36|hg18|b36/i.test(metaLine)) return '36';
+
+  // Fall back to the length of chromosome 1 when no assembly name is given
+  const contigMatch = metaLine.match(/ID=(?:chr)?1,.*length=(\d+)/i);
+  if (contigMatch?.[1]) {
+    return CHR1_LENGTH_TO_BUILD[contigMatch[1]];
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a single data line
+ * Format: CHROM\tPOS\tID\tREF\tALT\tQUAL\tFILTER\tINFO\tFORMAT\tSAMPLE
+ * @returns Variant, 'skip' for rows outside the primary assembly, or the problem
+ *          that made the row unusable
+ */
+function parseDataLine(line: string): GenomeVariant | 'skip' | RowProblem {
+  const parts = line.split('\t');
+
+  if (parts.length < 10) {
+    return { code: 'wrong-column-count', message: `Expected 10 columns, found ${parts.length}` };
+  }
+
+  const [chrom, positionStr, id, ref, alt, , , , format, sample] = parts;
+
+  if (!chrom) {
+    return { code: 'bad-chromosome', message: 'Missing chromosome' };
+  }
+  if (!ref || !alt || !format || !sample) {
+    return { code: 'invalid-genotype', message: 'Missing REF, ALT, FORMAT or sample column' };
+  }
+
+  // Skip alt contigs, decoys and unplaced scaffolds
+  const chromosome = chrom.replace(/^chr/i, '');
+  if (!isValidChromosome(chromosome)) {
+    return 'skip';
+  }
+
+  // Parse position (VCF coordinates are 1-based, so 0 is invalid)
+  const position = parseInt(positionStr ?? '', 10);
+  if (isNaN(position) || position <= 0) {
+    return { code: 'bad-position', message: `Invalid position "${positionStr ?? ''}"` };
+  }
+
+  // Locate the GT field within the sample column
+  const gtIndex = format.split(':').indexOf('GT');
+  if (gtIndex === -1) {
+    return { code: 'invalid-genotype', message: 'FORMAT has no GT field' };
+  }
+  const gt = sample.split(':')[gtIndex];
+  if (!gt) {
+    return { code: 'invalid-genotype', message: 'Sample has no GT value' };
+  }
+
+  const genotype = genotypeFromGT(gt, ref.toUpperCase(), alt.toUpperCase().split(','));
+  if (!genotype) {
+    return { code: 'invalid-genotype', message: `Invalid GT "${gt}"` };
+  }
+
+  return {
+    rsid: pickRsid(id, chromosome, position),
+    chromosome: normalizeChromosome(chromosome),
+    position,
+    genotype,
+  };
+}
+
+/**
+ * Choose an identifier for the row
+ * The ID column may hold several ";"-separated IDs or "." when none is assigned
+ */
+function pickRsid(id: string | undefined, chromosome: string, position: number): string {
+  const ids = (id ?? '').split(';').map((s) => s.trim().toLowerCase());
+  const rsid = ids.find((s) => s.startsWith('rs'));
+  if (rsid) return rsid;
+
+  return `${normalizeChromosome(chromosome)}:${position}`;
+}
+
+/**
+ * Convert a GT value into the two-letter genotype string used by the other parsers
+ *
+ * - SNV alleles become bases ("0/1" with REF=C, ALT=T -> "CT")
+ * - Indel alleles use 23andMe's I/D notation
+ * - Haploid calls yield a single letter, as for hemizygous X/Y in chip files
+ * - Missing calls ("./.") and symbolic alleles (<NON_REF>, *) become "--"
+ *
+ * @returns Genotype or null if the GT value is malformed
+ */
+function genotypeFromGT(gt: string, ref: string, alts: string[]): string | null {
+  const indices = gt.split(/[/|]/);
+  if (indices.length === 0 || indices.length > 2) {
+    return null;
+  }
+
+  // Missing call
+  if (indices.some((idx) => idx === '.')) {
+    return '--';
+  }
+
+  const alleles = [ref, ...alts];
+  const called: string[] = [];
+
+  for (const idx of indices) {
+    const n = parseInt(idx, 10);
+    if (isNaN(n) || n < 0 || n >= alleles.length) {
+      return null;
+    }
+    called.push(alleles[n] as string);
+  }
+
+  // Symbolic or spanning-deletion alleles carry no base information
+  if (called.some((a) => a === '.' || a === '*' || a.startsWith('<'))) {
+    return '--';
+  }
+
+  // Simple SNV: every called allele is a single base
+  if (called.every((a) => /^[ACGT]$/.test(a))) {
+    return called.join('');
+  }
+
+  // Indel: classify each allele relative to REF
+  const isInsertionSite = alts.some((a) => /^[ACGTN]+$/.test(a) && a.length > ref.length);
+  const indelAlleles = called.map((a) => {
+    if (a === ref) return isInsertionSite ? 'D' : 'I';
+    return a.length > ref.length ? 'I' : 'D';
+  });
+
+  return indelAlleles.join('');
+}
+
+/**
+ * Check if chromosome value is valid (after stripping any "chr" prefix)
+ */
+function isValidChromosome(chr: string): boolean {
+  const normalized = chr.toUpperCase();
+  // Autosomes 1-22, sex chromosomes X/Y, mitochondrial MT
+  if (/^[1-9]$|^1[0-9]$|^2[0-2]$/.test(normalized)) return true;
+  if (['X', 'Y', 'MT', 'M'].includes(normalized)) return true;
+  return false;
+}
+
+/**
+ * Normalize chromosome representation
+ */
+function normalizeChromosome(chr: string): string {
+  const upper = chr.toUpperCase();
+  if (upper === 'M') return 'MT';
+  return upper;
+}
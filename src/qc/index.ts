@@ -0,0 +1,253 @@
+/**
+ * QC module - quality-control report for a parsed genome file
+ *
+ * Summarizes how trustworthy a file is before anything is extracted from it:
+ * call rates overall and per chromosome, autosomal heterozygosity, indel and
+ * duplicate counts, whether the X and Y calls agree on a chromosomal sex, and
+ * which rows could not be parsed.
+ */
+
+import type {
+  ChromosomalSex,
+  ChromosomeQC,
+  GenomeVariant,
+  ParseResult,
+  QCReport,
+  SexChromosomeQC,
+  SexChromosomeStatus,
+} from '../types';
+
+/** Maximum duplicate IDs and unparseable line numbers listed in a report */
+export const QC_LIST_LIMIT = 20;
+
+/** X heterozygosity at or above this suggests two X chromosomes */
+const FEMALE_MIN_X_HETEROZYGOSITY = 0.1;
+
+/** X heterozygosity at or below this suggests one X (pseudoautosomal sites allow a little) */
+const MALE_MAX_X_HETEROZYGOSITY = 0.03;
+
+/** Y call rate at or above this suggests a Y chromosome */
+const MALE_MIN_Y_CALL_RATE = 0.5;
+
+/** Y call rate at or below this suggests no Y chromosome (some probes cross-hybridize) */
+const FEMALE_MAX_Y_CALL_RATE = 0.1;
+
+/** Chromosome display order */
+const CHROMOSOME_ORDER = [...Array.from({ length: 22 }, (_, i) => String(i + 1)), 'X', 'Y', 'MT'];
+
+/** Running counts for one chromosome */
+interface ChromosomeCounts {
+  variants: number;
+  noCalls: number;
+  called: number; // Called diploid genotypes
+  haploid: number; // Single-allele calls (hemizygous X/Y, MT)
+  heterozygous: number;
+}
+
+/**
+ * Build a QC report for a parsed genome file
+ */
+export function buildQCReport(parseResult: ParseResult): QCReport {
+  const counts = new Map<string, ChromosomeCounts>();
+  const seenIds = new Set<string>();
+  const duplicates = new Set<string>();
+  let noCalls = 0;
+  let indels = 0;
+
+  for (const variant of parseResult.variants) {
+    countVariant(counts, variant);
+
+    if (seenIds.has(variant.rsid)) {
+      duplicates.add(variant.rsid);
+    } else {
+      seenIds.add(variant.rsid);
+    }
+
+    if (variant.genotype === '--') {
+      noCalls++;
+    } else if (/[DI]/.test(variant.genotype)) {
+      indels++;
+    }
+  }
+
+  // Heterozygosity is measured on autosomes, where everyone carries two copies
+  let autosomalCalled = 0;
+  let autosomalHeterozygous = 0;
+  for (const [chromosome, c] of counts) {
+    if (/^\d+$/.test(chromosome)) {
+      autosomalCalled += c.called;
+      autosomalHeterozygous += c.heterozygous;
+    }
+  }
+
+  const totalVariants = parseResult.variants.length;
+  // Warnings flag rows that were kept, so only errors count as unparseable
+  const skippedLines = (parseResult.diagnostics ?? [])
+    .filter((d) => d.severity === 'error')
+    .map((d) => d.line);
+
+  return {
+    totalVariants,
+    calledVariants: totalVariants - noCalls,
+    noCalls,
+    callRate: rate(totalVariants - noCalls, totalVariants) ?? 0,
+    heterozygosityRate: rate(autosomalHeterozygous, autosomalCalled),
+    indels,
+    duplicateCount: duplicates.size,
+    duplicateRsids: [...duplicates].slice(0, QC_LIST_LIMIT),
+    unparseableLineCount: skippedLines.length,
+    unparseableLines: skippedLines.slice(0, QC_LIST_LIMIT),
+    chromosomes: sortChromosomes(counts),
+    sexChromosomes: checkSexChromosomes(counts.get('X'), counts.get('Y')),
+  };
+}
+
+/**
+ * Infer chromosomal sex from X heterozygosity and Y calls
+ * @returns 'unknown' when the signals are missing or disagree
+ */
+export function inferSex(variants: GenomeVariant[]): ChromosomalSex {
+  const counts = new Map<string, ChromosomeCounts>();
+  for (const variant of variants) {
+    if (variant.chromosome === 'X' || variant.chromosome === 'Y') {
+      countVariant(counts, variant);
+    }
+  }
+  return sexFromStatus(checkSexChromosomes(counts.get('X'), counts.get('Y')).status);
+}
+
+/**
+ * Chromosomal sex implied by a sex-chromosome check
+ */
+export function sexFromStatus(status: SexChromosomeStatus): ChromosomalSex {
+  switch (status) {
+    case 'female-pattern':
+      return 'female';
+    case 'male-pattern':
+      return 'male';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Add a variant to its chromosome's running counts
+ */
+function countVariant(counts: Map<string, ChromosomeCounts>, variant: GenomeVariant): void {
+  let chromosome = counts.get(variant.chromosome);
+  if (!chromosome) {
+    chromosome = { variants: 0, noCalls: 0, called: 0, haploid: 0, heterozygous: 0 };
+    counts.set(variant.chromosome, chromosome);
+  }
+  chromosome.variants++;
+
+  if (variant.genotype === '--') {
+    chromosome.noCalls++;
+  } else if (variant.genotype.length === 2) {
+    chromosome.called++;
+    if (isHeterozygous(variant)) chromosome.heterozygous++;
+  } else {
+    chromosome.haploid++;
+  }
+}
+
+/**
+ * Judge whether X heterozygosity and Y calls agree on a chromosomal sex
+ */
+function checkSexChromosomes(
+  x: ChromosomeCounts | undefined,
+  y: ChromosomeCounts | undefined
+): SexChromosomeQC {
+  // Haploid X calls (one X, as chips report it for males) are never heterozygous
+  const xHeterozygosityRate = x ? rate(x.heterozygous, x.called + x.haploid) : null;
+  const yCallRate = y ? rate(y.variants - y.noCalls, y.variants) : null;
+
+  return {
+    status: sexChromosomeStatus(xHeterozygosityRate, yCallRate),
+    xHeterozygosityRate,
+    yCallRate,
+  };
+}
+
+function sexChromosomeStatus(
+  xHeterozygosityRate: number | null,
+  yCallRate: number | null
+): SexChromosomeStatus {
+  // Sequencing VCFs often leave out Y entirely, so a missing signal is not evidence
+  if (xHeterozygosityRate === null || yCallRate === null) return 'unknown';
+
+  const xFemale = xHeterozygosityRate >= FEMALE_MIN_X_HETEROZYGOSITY;
+  const xMale = xHeterozygosityRate <= MALE_MAX_X_HETEROZYGOSITY;
+  const yMale = yCallRate >= MALE_MIN_Y_CALL_RATE;
+  const yFemale = yCallRate <= FEMALE_MAX_Y_CALL_RATE;
+
+  if (xFemale && yFemale) return 'female-pattern';
+  if (xMale && yMale) return 'male-pattern';
+  if ((xFemale && yMale) || (xMale && yFemale)) return 'inconsistent';
+  return 'unknown';
+}
+
+function sortChromosomes(counts: Map<string, ChromosomeCounts>): ChromosomeQC[] {
+  const rank = (chromosome: string) => {
+    const index = CHROMOSOME_ORDER.indexOf(chromosome);
+    return index === -1 ? CHROMOSOME_ORDER.length : index;
+  };
+
+  return [...counts.entries()]
+    .sort(([a], [b]) => rank(a) - rank(b))
+    .map(([chromosome, c]) => ({
+      chromosome,
+      variants: c.variants,
+      noCalls: c.noCalls,
+      callRate: rate(c.variants - c.noCalls, c.variants) ?? 0,
+    }));
+}
+
+function isHeterozygous(variant: GenomeVariant): boolean {
+  return variant.genotype[0] !== variant.genotype[1];
+}
+
+/**
+ * Ratio rounded to 4 decimals, or null when there is nothing to divide by
+ */
+function rate(count: number, total: number): number | null {
+  return total > 0 ? Math.round((count / total) * 10000) / 10000 : null;
+}
+
+/**
+ * Format a rate as a percentage (e.g., 0.9812 -> "98.12%")
+ */
+export function formatRate(value: number | null): string {
+  return value === null ? 'n/a' : `${(value * 100).toFixed(2)}%`;
+}
+
+/**
+ * Render a QC report as plain text (CLI)
+ */
+export function formatQCReport(report: QCReport): string {
+  const lines = [
+    `Variants:           ${report.totalVariants.toLocaleString()}`,
+    `Call rate:          ${formatRate(report.callRate)} (${report.noCalls.toLocaleString()} no-calls)`,
+    `Heterozygosity:     ${formatRate(report.heterozygosityRate)} (autosomal)`,
+    `Indels:             ${report.indels.toLocaleString()}`,
+    `Duplicate IDs:      ${report.duplicateCount.toLocaleString()}${formatList(report.duplicateRsids, report.duplicateCount)}`,
+    `Unparseable lines:  ${report.unparseableLineCount.toLocaleString()}${formatList(report.unparseableLines, report.unparseableLineCount)}`,
+    `Sex chromosomes:    ${report.sexChromosomes.status} (X heterozygosity ${formatRate(report.sexChromosomes.xHeterozygosityRate)}, Y call rate ${formatRate(report.sexChromosomes.yCallRate)})`,
+    '',
+    'Chromosome  Variants  No-calls  Call rate',
+  ];
+
+  for (const c of report.chromosomes) {
+    lines.push(
+      `${c.chromosome.padEnd(10)}  ${String(c.variants).padStart(8)}  ${String(c.noCalls).padStart(8)}  ${formatRate(c.callRate).padStart(9)}`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function formatList(items: (string | number)[], total: number): string {
+  if (items.length === 0) return '';
+  const more = total > items.length ? `, +${total - items.length} more` : '';
+  return ` (${items.join(', ')}${more})`;
+}
@@ -0,0 +1,234 @@
+/**
+ * SNP list diff - what changed between two versions of a list
+ *
+ * Entries are matched by rsID (case-insensitively). An entry in both lists is
+ * compared field by field: sources, alleles and tags as sets, since their order
+ * carries no meaning, and allele codes regardless of case. The category is
+ * compared as a full path, so moving an entry to another subcategory counts
+ * as recategorizing it. Everything else must match exactly, so a reworded
+ * annotation counts as an edit.
+ */
+
+import type {
+  SNPEntry,
+  SNPEntryChange,
+  SNPEntryField,
+  SNPFieldChange,
+  SNPList,
+  SNPListDiff,
+  SNPListDigest,
+  SNPListDigestDiff,
+  SNPListDigestKey,
+} from '../types';
+import { categoryPathOf } from './taxonomy';
+
+/** Fields compared, in the order changes are listed */
+const DIFF_FIELDS: SNPEntryField[] = [
+  'gene',
+  'category',
+  'annotation',
+  'riskAllele',
+  'alleles',
+  'sources',
+  'tags',
+  'chromosome',
+  'position',
+];
+
+/**
+ * Diff two versions of a SNP list
+ * @param from The older list
+ * @param to The newer list
+ */
+export function diffSNPLists(from: SNPList, to: SNPList): SNPListDiff {
+  const before = new Map(from.variants.map((entry) => [entry.rsid.toLowerCase(), entry]));
+  const afterKeys = new Set(to.variants.map((entry) => entry.rsid.toLowerCase()));
+
+  const added: SNPEntry[] = [];
+  const changed: SNPEntryChange[] = [];
+  let unchanged = 0;
+
+  for (const entry of to.variants) {
+    const previous = before.get(entry.rsid.toLowerCase());
+    if (!previous) {
+      added.push(entry);
+      continue;
+    }
+
+    const changes = diffEntries(previous, entry);
+    if (changes.length > 0) {
+      changed.push({ rsid: entry.rsid, gene: entry.gene, changes });
+    } else {
+      unchanged++;
+    }
+  }
+
+  const removed = from.variants.filter((entry) => !afterKeys.has(entry.rsid.toLowerCase()));
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    summary: {
+      added: added.length,
+      removed: removed.length,
+      recategorized: changed.filter((c) => c.changes.some((f) => f.field === 'category')).length,
+      edited: changed.filter((c) => c.changes.some((f) => f.field !== 'category')).length,
+      unchanged,
+    },
+    added,
+    removed,
+    changed,
+  };
+}
+
+/**
+ * A copy of a list small enough to keep in browser storage and diff later
+ * Annotations are replaced by a short hash, so edits to them still show up.
+ */
+export function snapshotSNPList(list: SNPList): SNPList {
+  return {
+    version: list.version,
+    generatedAt: list.generatedAt,
+    count: list.count,
+    variants: list.variants.map((entry) => ({ ...entry, annotation: hashText(entry.annotation) })),
+  };
+}
+
+/** Prefix that keeps the digest key apart from other keys derived from the same secret */
+const DIGEST_KEY_CONTEXT = 'genomegist-list-digest';
+
+/** Hex digits kept from each HMAC (128 bits) */
+const DIGEST_HEX_LENGTH = 32;
+
+/**
+ * Derive the HMAC-SHA-256 key list digests are hashed with
+ * A digest can only be read back with the same secret, so the rsIDs in it
+ * cannot be recovered by hashing candidates without it.
+ * @param secret The license token the digest belongs to
+ */
+export async function deriveDigestKey(secret: string): Promise<SNPListDigestKey> {
+  const keyMaterial = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`${DIGEST_KEY_CONTEXT}:${secret}`)
+  );
+  return crypto.subtle.importKey('raw', keyMaterial, { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+}
+
+/**
+ * Reduce a list to its version and a keyed hash per entry
+ * Unlike a snapshot this holds no entry content, so it can be stored for the
+ * paid list; a diff against it can name new and changed entries from the newer
+ * list, but not which fields changed or which entries were removed.
+ * @param key Key from deriveDigestKey
+ */
+export async function digestSNPList(list: SNPList, key: SNPListDigestKey): Promise<SNPListDigest> {
+  const hashes = await Promise.all(list.variants.map((entry) => hashDigestEntry(entry, key)));
+  return { version: list.version, entries: Object.fromEntries(hashes) };
+}
+
+/**
+ * Diff a list digest against a newer list
+ * @param from Digest of the older list
+ * @param to The newer list
+ * @param key Key the digest was made with
+ */
+export async function diffSNPListDigest(
+  from: SNPListDigest,
+  to: SNPList,
+  key: SNPListDigestKey
+): Promise<SNPListDigestDiff> {
+  const hashes = await Promise.all(to.variants.map((entry) => hashDigestEntry(entry, key)));
+  const added: SNPEntry[] = [];
+  const changed: SNPEntry[] = [];
+  const seen = new Set<string>();
+  let unchanged = 0;
+
+  to.variants.forEach((entry, i) => {
+    const [rsidHash, entryHash] = hashes[i] as [string, string];
+    const previous = from.entries[rsidHash];
+    seen.add(rsidHash);
+    if (previous === undefined) {
+      added.push(entry);
+    } else if (previous !== entryHash) {
+      changed.push(entry);
+    } else {
+      unchanged++;
+    }
+  });
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    added,
+    changed,
+    removed: Object.keys(from.entries).filter((hash) => !seen.has(hash)).length,
+    unchanged,
+  };
+}
+
+function diffEntries(before: SNPEntry, after: SNPEntry): SNPFieldChange[] {
+  const changes: SNPFieldChange[] = [];
+
+  for (const field of DIFF_FIELDS) {
+    const from = field === 'category' ? categoryPathOf(before) : before[field];
+    const to = field === 'category' ? categoryPathOf(after) : after[field];
+    if (normalize(field, from) === normalize(field, to)) continue;
+
+    const change: SNPFieldChange = { field };
+    if (from !== undefined) change.before = from;
+    if (to !== undefined) change.after = to;
+    changes.push(change);
+  }
+
+  return changes;
+}
+
+/**
+ * Comparable form of a field value
+ */
+function normalize(field: SNPEntryField, value: SNPFieldChange['before']): string {
+  if (value === undefined) return '';
+  if (Array.isArray(value)) {
+    const items = field === 'alleles' ? value.map((a) => a.toUpperCase()) : value;
+    return JSON.stringify([...new Set(items)].sort());
+  }
+  if (field === 'riskAllele') return String(value).toUpperCase();
+  return String(value);
+}
+
+/**
+ * Keyed hashes of an entry's rsID and of its compared fields, in comparable form
+ * The rsID is part of the field hash, so equal entries under different rsIDs
+ * don't hash alike.
+ */
+async function hashDigestEntry(entry: SNPEntry, key: SNPListDigestKey): Promise<[string, string]> {
+  const rsid = entry.rsid.toLowerCase();
+  const values = DIFF_FIELDS.map((field) =>
+    normalize(field, field === 'category' ? categoryPathOf(entry) : entry[field])
+  );
+  return Promise.all([hmacHex(key, rsid), hmacHex(key, [rsid, ...values].join('\n'))]);
+}
+
+/**
+ * HMAC-SHA-256 of a string, truncated to DIGEST_HEX_LENGTH hex digits
+ */
+async function hmacHex(key: SNPListDigestKey, text: string): Promise<string> {
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(mac), (byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .slice(0, DIGEST_HEX_LENGTH);
+}
+
+/**
+ * FNV-1a hash of a string, as 8 hex digits
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,258 @@
+/**
+ * Custom SNP list import
+ *
+ * Users can bring their own panel as the JSON list format or as a CSV/TSV
+ * table. Table columns are matched to SNPEntry fields by header name
+ * (case and punctuation ignored, common aliases accepted); only rsid and
+ * gene are required. Every list ends up in validateSNPList, so a custom list
+ * is held to the same rules as the bundled ones; errors in a table are
+ * reported by line.
+ */
+
+import type { ListValidationReport, SNPList } from '../types';
+import { checkSNPList, validateSNPList } from './validation';
+
+/** Category given to rows without one */
+const DEFAULT_CATEGORY = 'uncategorized';
+
+/** Accepted header names per SNPEntry field, normalized (lowercase letters and digits) */
+const COLUMN_ALIASES: Record<string, string[]> = {
+  rsid: ['rsid', 'rs', 'rsnumber', 'snp', 'snpid', 'id', 'marker'],
+  gene: ['gene', 'genesymbol', 'symbol'],
+  category: ['category', 'group', 'panel'],
+  subcategory: ['subcategory', 'subgroup'],
+  tags: ['tags', 'tag', 'labels', 'keywords'],
+  annotation: ['annotation', 'description', 'note', 'notes', 'summary'],
+  sources: ['sources', 'source', 'references', 'reference'],
+  riskAllele: ['riskallele', 'risk', 'effectallele'],
+  alleles: ['alleles', 'sitealleles'],
+  chromosome: ['chromosome', 'chr', 'chrom'],
+  position: ['position', 'pos', 'bp', 'location'],
+};
+
+/** Separator for multi-value cells (sources, tags); "/" is left alone for URLs and HLA alleles */
+const LIST_SEPARATOR = /[;|]/;
+
+/** Alleles are single letters, so they may also be written "G/A" */
+const ALLELE_SEPARATOR = /[;|/]/;
+
+/**
+ * List data read from a file, before validation
+ */
+interface ListData {
+  data: unknown;
+  lines?: number[]; // File line of each entry, for tables
+}
+
+/**
+ * Parse a user-supplied SNP list file
+ * @param content File contents
+ * @param filename Used to pick the format and to name table lists
+ * @throws Error describing the first problem found
+ */
+export function parseSNPListFile(content: string, filename: string): SNPList {
+  return toSNPList(readListFile(content, filename));
+}
+
+/**
+ * Check a SNP list file and report every problem found, without throwing
+ * Issues in table lists carry the line number of the offending row.
+ */
+export function checkSNPListFile(content: string, filename: string): ListValidationReport {
+  let list: ListData;
+  try {
+    list = readListFile(content, filename);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      valid: false,
+      variantCount: 0,
+      errors: [{ severity: 'error', path: '', message }],
+      warnings: [],
+    };
+  }
+  return checkListData(list);
+}
+
+/**
+ * Options for importing a CSV/TSV SNP list
+ */
+export interface DelimitedImportOptions {
+  delimiter?: ',' | '\t';
+  version?: string; // Recorded as the list version in outputs (default "custom")
+}
+
+/**
+ * Import a CSV or TSV table as a SNP list
+ * Blank lines and lines starting with # are skipped; the first other line is the header.
+ * @throws Error naming the line of the first invalid row
+ */
+export function importDelimitedSNPList(
+  content: string,
+  options: DelimitedImportOptions = {}
+): SNPList {
+  return toSNPList(readTable(content, options));
+}
+
+function readListFile(content: string, filename: string): ListData {
+  const text = content.replace(/^\uFEFF/, '');
+  const lower = filename.toLowerCase();
+
+  if (lower.endsWith('.json') || /^\s*[{[]/.test(text)) {
+    try {
+      return { data: JSON.parse(text) };
+    } catch {
+      throw new Error('Failed to parse SNP list: invalid JSON format');
+    }
+  }
+
+  const delimiter = lower.endsWith('.tsv') || text.split('\n', 1)[0]?.includes('\t') ? '\t' : ',';
+  return readTable(text, { delimiter, version: listNameFrom(filename) });
+}
+
+/**
+ * Read table rows into list data; only a missing header or column throws
+ */
+function readTable(content: string, options: DelimitedImportOptions): ListData {
+  const delimiter = options.delimiter ?? ',';
+  const rows = content
+    .split(/\r?\n/)
+    .map((line, index) => ({ line, lineNumber: index + 1 }))
+    .filter(({ line }) => line.trim() && !line.startsWith('#'));
+
+  const [header, ...dataRows] = rows;
+  if (!header) {
+    throw new Error('Invalid SNP list: the file is empty');
+  }
+
+  const columns = mapColumns(splitRow(header.line, delimiter));
+  for (const required of ['rsid', 'gene']) {
+    if (columns[required] === undefined) {
+      throw new Error(`Invalid SNP list: no ${required} column in the header`);
+    }
+  }
+
+  const variants = dataRows.map(({ line }) => {
+    const cells = splitRow(line, delimiter);
+    const cell = (field: string): string => {
+      const index = columns[field];
+      return index === undefined ? '' : (cells[index] ?? '').trim();
+    };
+
+    const entry: Record<string, unknown> = {
+      rsid: cell('rsid').toLowerCase(),
+      gene: cell('gene'),
+      category: cell('category').toLowerCase() || DEFAULT_CATEGORY,
+      annotation: cell('annotation'),
+      sources: splitList(cell('sources')),
+    };
+    if (cell('subcategory')) entry.subcategory = cell('subcategory').toLowerCase();
+    if (cell('tags')) entry.tags = splitList(cell('tags'));
+    if (cell('riskAllele')) entry.riskAllele = cell('riskAllele').toUpperCase();
+    if (cell('alleles')) {
+      entry.alleles = splitList(cell('alleles').toUpperCase(), ALLELE_SEPARATOR);
+    }
+    if (cell('chromosome')) entry.chromosome = cell('chromosome').replace(/^chr/i, '');
+    if (cell('position')) {
+      // Anything but a number is kept as written, for validation to report
+      const position = Number(cell('position'));
+      entry.position = Number.isNaN(position) ? cell('position') : position;
+    }
+    return entry;
+  });
+
+  return {
+    data: {
+      version: options.version ?? 'custom',
+      generatedAt: new Date().toISOString(),
+      variants,
+    },
+    lines: dataRows.map((row) => row.lineNumber),
+  };
+}
+
+function checkListData(list: ListData): ListValidationReport {
+  const report = checkSNPList(list.data);
+  if (list.lines) {
+    for (const issue of [...report.errors, ...report.warnings]) {
+      const index = /^variants\[(\d+)\]/.exec(issue.path)?.[1];
+      if (index !== undefined) issue.line = list.lines[Number(index)];
+    }
+  }
+  return report;
+}
+
+/**
+ * Validate list data; table errors are reported by line
+ */
+function toSNPList(list: ListData): SNPList {
+  if (list.lines) {
+    const [first] = checkListData(list).errors;
+    if (first?.line !== undefined) {
+      throw new Error(`Line ${first.line}: ${first.message}`);
+    }
+  }
+  return validateSNPList(list.data);
+}
+
+/**
+ * Map header cells to SNPEntry fields
+ * @returns Column index per field
+ */
+function mapColumns(headers: string[]): Record<string, number | undefined> {
+  const normalized = headers.map((h) => h.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const columns: Record<string, number | undefined> = {};
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+    const index = normalized.findIndex((h) => aliases.includes(h));
+    if (index !== -1) columns[field] = index;
+  }
+  return columns;
+}
+
+/**
+ * Split a table row, honouring double-quoted cells (with "" as an escaped quote)
+ */
+function splitRow(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+
+  return cells;
+}
+
+function splitList(value: string, separator = LIST_SEPARATOR): string[] {
+  return value
+    .split(separator)
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Name a table list after its file ("panels/lab-panel.csv" -> "lab-panel")
+ */
+export function listNameFrom(filename: string): string {
+  const base = filename.split(/[\\/]/).pop() ?? filename;
+  return base.replace(/\.[^.]+$/, '') || 'custom';
+}
@@ -3,3 +3,31 @@
  */
 
 export { loadFreeSNPList, validateSNPList } from './loader';
+export { checkSNPListFile, parseSNPListFile, importDelimitedSNPList } from './import';
+export { checkSNPList, formatValidationReport } from './validation';
+export type { DelimitedImportOptions } from './import';
+export {
+  applySNPListOverlays,
+  compositeVersion,
+  overlayFromList,
+  parseSNPListOverlayFile,
+  validateSNPListOverlay,
+} from './overlay';
+export {
+  deriveDigestKey,
+  diffSNPListDigest,
+  diffSNPLists,
+  digestSNPList,
+  snapshotSNPList,
+} from './diff';
+export {
+  buildCategoryTree,
+  categoryPathLabel,
+  categoryPathOf,
+  flattenCategoryTree,
+  isCategoryPath,
+  listTags,
+  matchesEntryFilter,
+  parseCategoryPath,
+} from './taxonomy';
+export type { EntryFilter } from './taxonomy';
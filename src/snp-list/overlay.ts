@@ -0,0 +1,176 @@
+/**
+ * SNP list overlays - compose a list from a base list and a stack of layers
+ *
+ * Layers are applied in order, each one adding entries, overriding fields of
+ * existing entries and excluding entries by rsID (in that order, so a layer's
+ * exclusions always win). rsIDs are matched case-insensitively. Between
+ * layers the later one wins; within a layer, naming the same rsID twice in
+ * `add` or `replace` is an error rather than a silent pick. Entries keep
+ * their place in the list when replaced; new ones are appended in layer order.
+ *
+ * The result's version records the whole stack ("2025.01+lab-panel@3+exclude"),
+ * so extractions made from a composite list can be traced back to it.
+ */
+
+import type { SNPEntry, SNPEntryOverride, SNPList, SNPListOverlay } from '../types';
+import { validateSNPEntry, validateSNPList } from './validation';
+import { listNameFrom, parseSNPListFile } from './import';
+import { normalizeSNPEntry } from './taxonomy';
+
+/**
+ * Apply overlays to a base list, in order
+ * @throws Error naming the overlay with a duplicate rsID or an override for a missing entry
+ */
+export function applySNPListOverlays(base: SNPList, overlays: SNPListOverlay[]): SNPList {
+  const entries = new Map<string, SNPEntry>();
+  for (const entry of base.variants) {
+    entries.set(entry.rsid.toLowerCase(), entry);
+  }
+
+  for (const overlay of overlays) {
+    applyOverlay(entries, overlay);
+  }
+
+  const variants = [...entries.values()];
+  return {
+    ...base,
+    version: compositeVersion(base.version, overlays),
+    count: variants.length,
+    variants,
+  };
+}
+
+/**
+ * Composite version string for a base list version and its overlays
+ */
+export function compositeVersion(baseVersion: string, overlays: SNPListOverlay[]): string {
+  return [
+    baseVersion,
+    ...overlays.map((o) => (o.version ? `${o.name}@${o.version}` : o.name)),
+  ].join('+');
+}
+
+/**
+ * Use a whole SNP list as an overlay that adds (or replaces) all its entries
+ */
+export function overlayFromList(list: SNPList, name: string): SNPListOverlay {
+  const overlay: SNPListOverlay = { name, add: list.variants };
+  if (list.version !== name) overlay.version = list.version;
+  return overlay;
+}
+
+/**
+ * Parse an overlay file: a JSON overlay with add/replace/remove sections, or
+ * any SNP list file (JSON, CSV or TSV), which adds its entries
+ * @param filename Names the overlay unless the JSON gives a name
+ */
+export function parseSNPListOverlayFile(content: string, filename: string): SNPListOverlay {
+  const name = listNameFrom(filename);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content.replace(/^\uFEFF/, ''));
+  } catch {
+    // Not JSON: a table list
+    return overlayFromList(parseSNPListFile(content, filename), name);
+  }
+
+  const obj = data as Record<string, unknown> | null;
+  if (obj && typeof obj === 'object' && !('variants' in obj)) {
+    return validateSNPListOverlay({ name, ...obj });
+  }
+  return overlayFromList(validateSNPList(data), name);
+}
+
+/**
+ * Validate that loaded data matches the SNPListOverlay structure
+ */
+export function validateSNPListOverlay(data: unknown): SNPListOverlay {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Invalid overlay: expected an object');
+  }
+
+  const obj = data as Record<string, unknown>;
+  if (typeof obj.name !== 'string' || !obj.name) {
+    throw new Error('Invalid overlay: missing name');
+  }
+  const overlay: SNPListOverlay = { name: obj.name };
+  if (obj.version !== undefined) {
+    if (typeof obj.version !== 'string') {
+      throw new Error(`Invalid overlay "${obj.name}": version must be a string`);
+    }
+    overlay.version = obj.version;
+  }
+
+  for (const section of ['add', 'replace', 'remove'] as const) {
+    if (obj[section] !== undefined && !Array.isArray(obj[section])) {
+      throw new Error(`Invalid overlay "${obj.name}": ${section} must be an array`);
+    }
+  }
+
+  if (obj.add) {
+    for (const entry of obj.add as unknown[]) {
+      validateSNPEntry(entry);
+    }
+    overlay.add = (obj.add as SNPEntry[]).map(normalizeSNPEntry);
+  }
+  if (obj.replace) {
+    for (const override of obj.replace as Record<string, unknown>[]) {
+      if (!override || typeof override.rsid !== 'string') {
+        throw new Error(`Invalid overlay "${obj.name}": every replace entry needs an rsid`);
+      }
+    }
+    overlay.replace = obj.replace as SNPEntryOverride[];
+  }
+  if (obj.remove) {
+    if (!(obj.remove as unknown[]).every((rsid) => typeof rsid === 'string')) {
+      throw new Error(`Invalid overlay "${obj.name}": remove must list rsIDs`);
+    }
+    overlay.remove = obj.remove as string[];
+  }
+
+  return overlay;
+}
+
+function applyOverlay(entries: Map<string, SNPEntry>, overlay: SNPListOverlay): void {
+  const label = `Overlay "${overlay.name}"`;
+
+  const added = new Set<string>();
+  for (const entry of overlay.add ?? []) {
+    const key = entry.rsid.toLowerCase();
+    if (added.has(key)) {
+      throw new Error(`${label} adds ${entry.rsid} more than once`);
+    }
+    added.add(key);
+    entries.set(key, entry);
+  }
+
+  const replaced = new Set<string>();
+  for (const override of overlay.replace ?? []) {
+    const key = override.rsid.toLowerCase();
+    const entry = entries.get(key);
+    if (!entry) {
+      throw new Error(`${label} replaces ${override.rsid}, which is not in the list`);
+    }
+    if (replaced.has(key)) {
+      throw new Error(`${label} replaces ${override.rsid} more than once`);
+    }
+    replaced.add(key);
+
+    const merged: SNPEntry = { ...entry, ...override, rsid: entry.rsid };
+    // A new category drops the old subcategory unless the override gives one
+    if (override.category !== undefined && override.subcategory === undefined) {
+      delete merged.subcategory;
+    }
+    try {
+      validateSNPEntry(merged);
+    } catch (err) {
+      throw new Error(`${label}: ${err instanceof Error ? err.message : err}`);
+    }
+    entries.set(key, normalizeSNPEntry(merged));
+  }
+
+  for (const rsid of overlay.remove ?? []) {
+    entries.delete(rsid.toLowerCase());
+  }
+}
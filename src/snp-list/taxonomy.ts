@@ -0,0 +1,205 @@
+/**
+ * Category taxonomy - subcategories and tags below the generated categories
+ *
+ * Every entry sits in one of the generated top-level categories and may name a
+ * subcategory path below it ("vitamin_d", or deeper: "b12/absorption"), so the
+ * list forms a tree of category paths such as "vitamins_minerals/vitamin_d".
+ * Lists may write the full path as the category; normalizeSNPEntry splits it.
+ * Tags are free-form labels that cut across the tree and match regardless of case.
+ *
+ * A filter selects an entry when its path is one of the filter's paths or lies
+ * below one, and, when tags are given, the entry carries at least one of them.
+ */
+
+import type {
+  CategoryNode,
+  CategoryPath,
+  SNPCategory,
+  SNPEntry,
+  SNPList,
+  TagCount,
+} from '../types';
+import { ALL_CATEGORIES, CATEGORY_LABELS } from '../types';
+
+/** One level of a subcategory path */
+const SEGMENT_PATTERN = /^[a-z0-9_]+$/;
+
+/**
+ * Which entries to extract
+ */
+export interface EntryFilter {
+  categories?: CategoryPath[]; // Subtrees to include (default: all)
+  tags?: string[]; // Tags an entry needs one of (default: any entry)
+}
+
+/**
+ * The category path of an entry, e.g., "vitamins_minerals/vitamin_d"
+ */
+export function categoryPathOf(entry: Pick<SNPEntry, 'category' | 'subcategory'>): CategoryPath {
+  return entry.subcategory ? `${entry.category}/${entry.subcategory}` : entry.category;
+}
+
+/**
+ * Split a category path into its category and subcategory
+ * @returns null when the category is unknown or a subcategory level is malformed
+ */
+export function parseCategoryPath(
+  path: string
+): { category: SNPCategory; subcategory?: string } | null {
+  const [category, ...segments] = path.split('/');
+  if (!ALL_CATEGORIES.includes(category as SNPCategory)) return null;
+  if (!segments.every((segment) => SEGMENT_PATTERN.test(segment))) return null;
+
+  const parsed: { category: SNPCategory; subcategory?: string } = {
+    category: category as SNPCategory,
+  };
+  if (segments.length > 0) parsed.subcategory = segments.join('/');
+  return parsed;
+}
+
+/**
+ * Whether a string is a valid category path
+ */
+export function isCategoryPath(path: string): path is CategoryPath {
+  return parseCategoryPath(path) !== null;
+}
+
+/**
+ * Whether a subcategory path is well formed (lowercase letters, digits and
+ * underscores, levels separated by "/")
+ */
+export function isSubcategory(subcategory: string): boolean {
+  return subcategory.split('/').every((segment) => SEGMENT_PATTERN.test(segment));
+}
+
+/**
+ * Move a subcategory written into the category ("vitamins_minerals/vitamin_d")
+ * to its own field; other entries are returned as they are
+ */
+export function normalizeSNPEntry(entry: SNPEntry): SNPEntry {
+  const parsed = entry.category.includes('/') ? parseCategoryPath(entry.category) : null;
+  if (!parsed) return entry;
+  return { ...entry, ...parsed };
+}
+
+/**
+ * Whether a path is one of the given paths or lies below one
+ */
+export function isInSubtree(path: string, subtrees: readonly string[]): boolean {
+  return subtrees.some((subtree) => path === subtree || path.startsWith(`${subtree}/`));
+}
+
+/**
+ * Whether an entry carries at least one of the tags (case-insensitive)
+ */
+export function hasAnyTag(entry: Pick<SNPEntry, 'tags'>, tags: readonly string[]): boolean {
+  if (!entry.tags) return false;
+  const wanted = new Set(tags.map((tag) => tag.toLowerCase()));
+  return entry.tags.some((tag) => wanted.has(tag.toLowerCase()));
+}
+
+/**
+ * Whether an entry passes a filter
+ */
+export function matchesEntryFilter(entry: SNPEntry, filter: EntryFilter): boolean {
+  if (filter.categories && !isInSubtree(categoryPathOf(entry), filter.categories)) {
+    return false;
+  }
+  if (filter.tags && filter.tags.length > 0 && !hasAnyTag(entry, filter.tags)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Build the category tree of a list
+ * Every generated category is a root (in their usual order), even when the
+ * list has no entries in it; subcategories are the ones the list uses.
+ */
+export function buildCategoryTree(list?: SNPList | null): CategoryNode[] {
+  const roots = ALL_CATEGORIES.map((category) => categoryNode(category));
+  const byPath = new Map<string, CategoryNode>(roots.map((node) => [node.path, node]));
+
+  for (const entry of list?.variants ?? []) {
+    let node = byPath.get(entry.category);
+    if (!node) continue;
+    node.count++;
+
+    let path: string = entry.category;
+    for (const segment of entry.subcategory?.split('/') ?? []) {
+      path = `${path}/${segment}`;
+      let child = byPath.get(path);
+      if (!child) {
+        child = categoryNode(path as CategoryPath);
+        byPath.set(path, child);
+        node.children.push(child);
+      }
+      child.count++;
+      node = child;
+    }
+  }
+
+  const sortChildren = (node: CategoryNode): void => {
+    node.children.sort((a, b) => a.name.localeCompare(b.name));
+    node.children.forEach(sortChildren);
+  };
+  roots.forEach(sortChildren);
+  return roots;
+}
+
+/**
+ * Every path in a tree, parents before their children
+ */
+export function flattenCategoryTree(nodes: CategoryNode[]): CategoryNode[] {
+  return nodes.flatMap((node) => [node, ...flattenCategoryTree(node.children)]);
+}
+
+/**
+ * Tags used in a list, most used first
+ * Tags differing only in case are counted together under their first spelling.
+ */
+export function listTags(list: SNPList): TagCount[] {
+  const counts = new Map<string, TagCount>();
+  for (const entry of list.variants) {
+    for (const tag of new Set(entry.tags ?? [])) {
+      const key = tag.toLowerCase();
+      const count = counts.get(key);
+      if (count) {
+        count.count++;
+      } else {
+        counts.set(key, { tag, count: 1 });
+      }
+    }
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Display name of a category path: the category's label, then each
+ * subcategory level ("Vitamins & Minerals › Vitamin D")
+ */
+export function categoryPathLabel(path: string): string {
+  const [category, ...segments] = path.split('/');
+  const label = CATEGORY_LABELS[category as SNPCategory]?.name ?? category;
+  return [label, ...segments.map(subcategoryLabel)].join(' › ');
+}
+
+/**
+ * Display name of one subcategory level ("vitamin_d" -> "Vitamin D")
+ */
+export function subcategoryLabel(segment: string): string {
+  return segment
+    .split('_')
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function categoryNode(path: CategoryPath): CategoryNode {
+  const segments = path.split('/');
+  const name =
+    segments.length === 1
+      ? CATEGORY_LABELS[path as SNPCategory].name
+      : subcategoryLabel(segments[segments.length - 1] as string);
+  return { path, name, count: 0, children: [] };
+}
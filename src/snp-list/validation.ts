@@ -2,87 +2,340 @@
  * SNP List Validation
  *
  * Shared validation logic for SNP lists, used by both browser and CLI loaders.
+ * checkSNPList collects every problem in a list into a report; the validate*
+ * functions throw on the first error and are what the loaders use.
  */
 
-import type { SNPList, SNPEntry } from '../types';
+import type {
+  DiagnosticSeverity,
+  ListValidationIssue,
+  ListValidationReport,
+  SNPCategory,
+  SNPList,
+  SNPEntry,
+  ScoreDefinition,
+} from '../types';
 import { ALL_CATEGORIES } from '../types';
+import { isSubcategory, normalizeSNPEntry, parseCategoryPath } from './taxonomy';
+
+/** Allele codes an entry can use: bases on the list's strand, or I/D for indels */
+const ALLELE_PATTERN = /^[ACGTID]$/i;
+
+/** Chromosome names a position can be on ("chr" prefix allowed) */
+const CHROMOSOMES = new Set([
+  ...Array.from({ length: 22 }, (_, i) => String(i + 1)),
+  'X',
+  'Y',
+  'MT',
+  'M',
+]);
 
 /**
  * Validate that loaded data matches expected SNPList structure
+ * @throws Error describing the first error (and how many more there are)
  */
 export function validateSNPList(data: unknown): SNPList {
-  if (!data || typeof data !== 'object') {
-    throw new Error('Invalid SNP list: expected an object');
+  const report = checkSNPList(data);
+  const [first] = report.errors;
+  if (first) {
+    const where = first.path ? `${first.path}: ` : '';
+    const more = report.errors.length > 1 ? ` (and ${report.errors.length - 1} more errors)` : '';
+    throw new Error(`Invalid SNP list: ${where}${first.message}${more}`);
   }
 
   const obj = data as Record<string, unknown>;
+  // Entries may write their subcategory into the category ("vitamins_minerals/vitamin_d")
+  const variants = (obj.variants as SNPEntry[]).map(normalizeSNPEntry);
+  const list: SNPList = {
+    version: obj.version as string,
+    generatedAt: typeof obj.generatedAt === 'string' ? obj.generatedAt : new Date().toISOString(),
+    count: variants.length,
+    variants,
+  };
 
-  if (typeof obj.version !== 'string') {
-    throw new Error('Invalid SNP list: missing version');
+  // Positions default to GRCh37 when the list doesn't say
+  if (typeof obj.build === 'string') {
+    list.build = obj.build;
   }
 
-  if (!Array.isArray(obj.variants)) {
-    throw new Error('Invalid SNP list: missing variants array');
+  if (obj.scores !== undefined) {
+    list.scores = obj.scores as ScoreDefinition[];
   }
 
-  // Validate each variant has required fields
-  for (const variant of obj.variants) {
-    validateSNPEntry(variant);
-  }
+  return list;
+}
 
-  // Validate count field matches array length if provided
-  const actualCount = obj.variants.length;
-  if (typeof obj.count === 'number' && obj.count !== actualCount) {
-    console.warn(
-      `SNP list count mismatch: JSON says ${obj.count}, but array has ${actualCount} entries`
-    );
+/**
+ * Check a SNP list and report every problem found, without throwing
+ */
+export function checkSNPList(data: unknown): ListValidationReport {
+  const issues: ListValidationIssue[] = [];
+  const add = (severity: DiagnosticSeverity, path: string, message: string): void => {
+    issues.push({ severity, path, message });
+  };
+
+  const obj = data && typeof data === 'object' ? (data as Record<string, unknown>) : null;
+  if (!obj) {
+    add('error', '', 'expected an object');
+  } else {
+    if (typeof obj.version !== 'string') {
+      add('error', 'version', 'missing version');
+    }
+
+    if (!Array.isArray(obj.variants)) {
+      add('error', 'variants', 'missing variants array');
+    } else {
+      checkVariants(obj.variants, add);
+
+      if (typeof obj.count === 'number' && obj.count !== obj.variants.length) {
+        add(
+          'warning',
+          'count',
+          `count says ${obj.count}, but the list has ${obj.variants.length} entries`
+        );
+      }
+    }
+
+    if (obj.scores !== undefined) {
+      if (!Array.isArray(obj.scores)) {
+        add('error', 'scores', 'scores must be an array');
+      } else {
+        obj.scores.forEach((score, i) => {
+          for (const issue of checkScoreDefinition(score)) {
+            add(issue.severity, `scores[${i}]${issue.path ? `.${issue.path}` : ''}`, issue.message);
+          }
+        });
+      }
+    }
   }
 
-  return {
-    version: obj.version,
-    generatedAt: typeof obj.generatedAt === 'string' ? obj.generatedAt : new Date().toISOString(),
-    count: actualCount,
-    variants: obj.variants as SNPEntry[],
+  const report: ListValidationReport = {
+    valid: !issues.some((issue) => issue.severity === 'error'),
+    variantCount: obj && Array.isArray(obj.variants) ? obj.variants.length : 0,
+    errors: issues.filter((issue) => issue.severity === 'error'),
+    warnings: issues.filter((issue) => issue.severity === 'warning'),
   };
+  if (obj && typeof obj.version === 'string') report.version = obj.version;
+  return report;
 }
 
 /**
  * Validate a single SNP entry
+ * @throws Error describing the entry's first error
  */
 export function validateSNPEntry(entry: unknown): asserts entry is SNPEntry {
+  const [first] = checkSNPEntry(entry).filter((issue) => issue.severity === 'error');
+  if (first) {
+    throw new Error(`Invalid SNP entry: ${first.message}`);
+  }
+}
+
+/**
+ * Format a validation report as plain text, errors first
+ */
+export function formatValidationReport(report: ListValidationReport): string {
+  const version = report.version ? ` version ${report.version}` : '';
+  const lines = [
+    `SNP list${version}: ${report.variantCount.toLocaleString()} entries, ` +
+      `${report.errors.length} errors, ${report.warnings.length} warnings`,
+  ];
+
+  for (const issue of [...report.errors, ...report.warnings]) {
+    const line = issue.line !== undefined ? `line ${issue.line} ` : '';
+    const where = issue.path ? `${issue.path}: ` : '';
+    lines.push(`  ${issue.severity.padEnd(7)} ${line}${where}${issue.message}`);
+  }
+
+  lines.push(report.valid ? 'List is valid.' : 'List is NOT valid.');
+  return lines.join('\n');
+}
+
+/**
+ * Check every entry, then look for rsIDs listed more than once
+ * A repeated rsID is only a warning: the list still loads, with the entry extracted twice.
+ */
+function checkVariants(
+  variants: unknown[],
+  add: (severity: DiagnosticSeverity, path: string, message: string) => void
+): void {
+  const seen = new Set<string>();
+
+  variants.forEach((entry, i) => {
+    for (const issue of checkSNPEntry(entry)) {
+      add(issue.severity, `variants[${i}]${issue.path ? `.${issue.path}` : ''}`, issue.message);
+    }
+
+    const rsid = (entry as Record<string, unknown> | null)?.rsid;
+    if (typeof rsid !== 'string') return;
+    const key = rsid.toLowerCase();
+    if (seen.has(key)) {
+      add('warning', `variants[${i}].rsid`, `duplicate rsid ${rsid}`);
+    } else {
+      seen.add(key);
+    }
+  });
+}
+
+/**
+ * Check one entry; paths are relative to the entry
+ */
+function checkSNPEntry(entry: unknown): ListValidationIssue[] {
   if (!entry || typeof entry !== 'object') {
-    throw new Error('Invalid SNP entry: expected an object');
+    return [{ severity: 'error', path: '', message: 'expected an object' }];
   }
 
+  const issues: ListValidationIssue[] = [];
+  const add = (severity: DiagnosticSeverity, path: string, message: string): void => {
+    issues.push({ severity, path, message });
+  };
   const obj = entry as Record<string, unknown>;
 
   if (typeof obj.rsid !== 'string' || !obj.rsid.startsWith('rs')) {
-    throw new Error(`Invalid SNP entry: invalid rsid "${obj.rsid}"`);
+    add('error', 'rsid', `invalid rsid "${obj.rsid}"`);
+  } else if (!/^rs\d+$/.test(obj.rsid)) {
+    add('warning', 'rsid', `unusual rsid "${obj.rsid}" (expected "rs" and digits)`);
   }
 
   if (typeof obj.gene !== 'string') {
-    throw new Error(`Invalid SNP entry: missing gene for ${obj.rsid}`);
+    add('error', 'gene', `missing gene for ${obj.rsid}`);
   }
 
   if (typeof obj.category !== 'string') {
-    throw new Error(`Invalid SNP entry: missing category for ${obj.rsid}`);
+    add('error', 'category', `missing category for ${obj.rsid}`);
+  } else if (!ALL_CATEGORIES.includes(obj.category.split('/')[0] as SNPCategory)) {
+    // Validate category is a known value using ALL_CATEGORIES from types.ts
+    add('error', 'category', `unknown category "${obj.category}" for ${obj.rsid}`);
+  } else if (!parseCategoryPath(obj.category)) {
+    add('error', 'category', `invalid category path "${obj.category}" for ${obj.rsid}`);
+  } else if (obj.category.includes('/') && obj.subcategory !== undefined) {
+    const message = `subcategory given both in the category path and on its own for ${obj.rsid}`;
+    add('error', 'subcategory', message);
   }
 
-  // Validate category is a known value using ALL_CATEGORIES from types.ts
-  if (!ALL_CATEGORIES.includes(obj.category as typeof ALL_CATEGORIES[number])) {
-    throw new Error(`Invalid SNP entry: unknown category "${obj.category}" for ${obj.rsid}`);
+  if (obj.subcategory !== undefined) {
+    if (typeof obj.subcategory !== 'string' || !isSubcategory(obj.subcategory)) {
+      add('error', 'subcategory', `invalid subcategory "${obj.subcategory}" for ${obj.rsid}`);
+    }
+  }
+
+  if (obj.tags !== undefined) {
+    if (!Array.isArray(obj.tags) || !obj.tags.every((t) => typeof t === 'string' && t.trim())) {
+      add('error', 'tags', `tags must be an array of non-empty strings for ${obj.rsid}`);
+    }
   }
 
   if (typeof obj.annotation !== 'string') {
-    throw new Error(`Invalid SNP entry: missing annotation for ${obj.rsid}`);
+    add('error', 'annotation', `missing annotation for ${obj.rsid}`);
+  } else if (!obj.annotation.trim()) {
+    add('warning', 'annotation', `empty annotation for ${obj.rsid}`);
   }
 
   if (!Array.isArray(obj.sources)) {
-    throw new Error(`Invalid SNP entry: missing sources for ${obj.rsid}`);
+    add('error', 'sources', `missing sources for ${obj.rsid}`);
+  } else if (!obj.sources.every((s) => typeof s === 'string')) {
+    add('error', 'sources', `sources must be array of strings for ${obj.rsid}`);
+  } else if (obj.sources.length === 0) {
+    add('warning', 'sources', `no sources for ${obj.rsid}`);
+  }
+
+  const riskAllele = obj.riskAllele;
+  if (riskAllele !== undefined && !isAllele(riskAllele)) {
+    add('error', 'riskAllele', `invalid risk allele "${riskAllele}" for ${obj.rsid}`);
+  }
+
+  if (obj.alleles !== undefined) {
+    if (!Array.isArray(obj.alleles) || !obj.alleles.every(isAllele)) {
+      add('error', 'alleles', `alleles must be single allele codes for ${obj.rsid}`);
+    } else if (
+      isAllele(riskAllele) &&
+      !obj.alleles.some((a: string) => a.toUpperCase() === riskAllele.toUpperCase())
+    ) {
+      const message = `risk allele ${riskAllele} is not among the alleles for ${obj.rsid}`;
+      add('warning', 'riskAllele', message);
+    }
+  }
+
+  if (obj.chromosome !== undefined) {
+    const chromosome = String(obj.chromosome).replace(/^chr/i, '').toUpperCase();
+    if (typeof obj.chromosome !== 'string' || !CHROMOSOMES.has(chromosome)) {
+      add('error', 'chromosome', `invalid chromosome "${obj.chromosome}" for ${obj.rsid}`);
+    }
+  }
+
+  if (obj.position !== undefined) {
+    if (typeof obj.position !== 'number' || !Number.isInteger(obj.position) || obj.position <= 0) {
+      add('error', 'position', `invalid position "${obj.position}" for ${obj.rsid}`);
+    }
+  }
+
+  return issues;
+}
+
+function isAllele(value: unknown): value is string {
+  return typeof value === 'string' && ALLELE_PATTERN.test(value);
+}
+
+/**
+ * Validate a polygenic score definition
+ * @throws Error describing the score's first error
+ */
+export function validateScoreDefinition(score: unknown): asserts score is ScoreDefinition {
+  const [first] = checkScoreDefinition(score);
+  if (first) {
+    throw new Error(`Invalid score: ${first.message}`);
   }
+}
 
-  // Validate sources are all strings
-  if (!obj.sources.every((s) => typeof s === 'string')) {
-    throw new Error(`Invalid SNP entry: sources must be array of strings for ${obj.rsid}`);
+/**
+ * Check one score definition; paths are relative to the score
+ */
+function checkScoreDefinition(score: unknown): ListValidationIssue[] {
+  if (!score || typeof score !== 'object') {
+    return [{ severity: 'error', path: '', message: 'expected an object' }];
   }
+
+  const issues: ListValidationIssue[] = [];
+  const add = (path: string, message: string): void => {
+    issues.push({ severity: 'error', path, message });
+  };
+  const obj = score as Record<string, unknown>;
+
+  if (typeof obj.id !== 'string' || !obj.id) {
+    add('id', 'missing id');
+  }
+
+  if (typeof obj.name !== 'string') {
+    add('name', `missing name for ${obj.id}`);
+  }
+
+  if (!ALL_CATEGORIES.includes(obj.category as typeof ALL_CATEGORIES[number])) {
+    add('category', `unknown category "${obj.category}" for ${obj.id}`);
+  }
+
+  if (!Array.isArray(obj.snps)) {
+    add('snps', `missing snps array for ${obj.id}`);
+    return issues;
+  }
+
+  obj.snps.forEach((item: unknown, j) => {
+    const path = `snps[${j}]`;
+    const snp = item && typeof item === 'object' ? (item as Record<string, unknown>) : null;
+    if (!snp || typeof snp.rsid !== 'string' || !snp.rsid.startsWith('rs')) {
+      add(`${path}.rsid`, `invalid rsid "${snp?.rsid}" in ${obj.id}`);
+      if (!snp) return;
+    }
+    if (typeof snp.effectAllele !== 'string' || !snp.effectAllele) {
+      add(`${path}.effectAllele`, `missing effect allele for ${snp.rsid} in ${obj.id}`);
+    }
+    if (typeof snp.weight !== 'number' || !Number.isFinite(snp.weight)) {
+      add(`${path}.weight`, `invalid weight for ${snp.rsid} in ${obj.id}`);
+    }
+    const frequency = snp.effectAlleleFrequency;
+    const validFrequency = typeof frequency === 'number' && frequency >= 0 && frequency <= 1;
+    if (frequency !== undefined && !validFrequency) {
+      add(`${path}.effectAlleleFrequency`, `frequency must be 0-1 for ${snp.rsid} in ${obj.id}`);
+    }
+  });
+
+  return issues;
 }
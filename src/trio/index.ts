@@ -0,0 +1,208 @@
+/**
+ * Trio module - check a child's genotypes against both parents
+ *
+ * A child inherits one allele at each autosomal SNP from each parent. Where
+ * no such split of the child's genotype exists, the SNP is a Mendelian error:
+ * a genotyping error when rare, a mislabeled file when common. When the child
+ * shares no allele at all with one parent on many SNPs, that parent's file is
+ * the likely culprit. Where the split is unambiguous, each allele - and so
+ * each copy of a risk allele - is attributed to the parent it came from.
+ *
+ * Only autosomes are checked: X, Y and MT follow different inheritance.
+ */
+
+import type {
+  GenomeVariant,
+  MatchedVariant,
+  ParseResult,
+  RiskAlleleOrigin,
+  TrioAnalysis,
+  TrioStatus,
+  TrioVariant,
+} from '../types';
+import type { NamedParseResult } from '../merge';
+
+/**
+ * The three files of a parent-child trio
+ */
+export interface TrioInput {
+  child: ParseResult;
+  mother: NamedParseResult;
+  father: NamedParseResult;
+}
+
+/** Fewer autosomal SNPs called in all three files than this is not enough to judge */
+export const MIN_TRIO_OVERLAP = 100;
+
+/** Share of SNPs with no allele in common with a parent that points to the wrong parent */
+const PARENT_MISMATCH_RATE = 0.01;
+
+/** Mendelian error rate expected from genotyping errors alone */
+const MAX_CONSISTENT_ERROR_RATE = 0.005;
+
+const AUTOSOMES = new Set(Array.from({ length: 22 }, (_, i) => String(i + 1)));
+
+/** Child alleles split by parent */
+interface AlleleSplit {
+  maternal: string;
+  paternal: string;
+}
+
+/** Trio check for one SNP */
+interface TrioCheck {
+  error: boolean;
+  motherIncompatible: boolean;
+  fatherIncompatible: boolean;
+  split?: AlleleSplit; // Set when exactly one split is possible
+}
+
+/**
+ * Run Mendelian checks over the chip overlap and attribute the matched variants
+ * @param trio Parsed child and parent files
+ * @param matched Variants extracted from the child's file
+ */
+export function analyzeTrio(trio: TrioInput, matched: MatchedVariant[]): TrioAnalysis {
+  const motherCalls = callsByRsid(trio.mother.result.variants);
+  const fatherCalls = callsByRsid(trio.father.result.variants);
+
+  let compared = 0;
+  let mendelianErrors = 0;
+  let motherIncompatible = 0;
+  let fatherIncompatible = 0;
+  const seen = new Set<string>();
+
+  for (const variant of trio.child.variants) {
+    const key = variant.rsid.toLowerCase();
+    if (!AUTOSOMES.has(variant.chromosome) || seen.has(key)) continue;
+    seen.add(key);
+
+    const mother = motherCalls.get(key);
+    const father = fatherCalls.get(key);
+    if (!isDiploidCall(variant.genotype) || !mother || !father) continue;
+
+    const check = checkTrio(variant.genotype, mother, father);
+    compared++;
+    if (check.error) mendelianErrors++;
+    if (check.motherIncompatible) motherIncompatible++;
+    if (check.fatherIncompatible) fatherIncompatible++;
+  }
+
+  const variants: TrioVariant[] = [];
+  for (const v of matched) {
+    const mother = motherCalls.get(v.rsid.toLowerCase());
+    const father = fatherCalls.get(v.rsid.toLowerCase());
+    if (v.status !== 'found' || v.hemizygous || !isDiploidCall(v.genotype)) continue;
+    if (!mother || !father) continue;
+    variants.push(attributeVariant(v, mother, father));
+  }
+
+  return {
+    mother: trio.mother.name,
+    father: trio.father.name,
+    status: classifyTrio(compared, mendelianErrors, motherIncompatible, fatherIncompatible),
+    compared,
+    mendelianErrors,
+    errorRate: compared > 0 ? round(mendelianErrors / compared) : null,
+    motherIncompatible,
+    fatherIncompatible,
+    variants,
+  };
+}
+
+/**
+ * Index a parent's autosomal diploid calls by lowercase rsID (first row wins)
+ */
+function callsByRsid(variants: GenomeVariant[]): Map<string, string> {
+  const calls = new Map<string, string>();
+  for (const v of variants) {
+    const key = v.rsid.toLowerCase();
+    if (AUTOSOMES.has(v.chromosome) && isDiploidCall(v.genotype) && !calls.has(key)) {
+      calls.set(key, v.genotype.toUpperCase());
+    }
+  }
+  return calls;
+}
+
+function isDiploidCall(genotype: string): boolean {
+  return genotype.length === 2 && !genotype.includes('-');
+}
+
+/**
+ * Find the ways to draw one child allele from each parent
+ */
+function checkTrio(child: string, mother: string, father: string): TrioCheck {
+  const [a, b] = [...child.toUpperCase()] as [string, string];
+  const orders: [string, string][] = [[a, b]];
+  if (a !== b) orders.push([b, a]);
+  const splits: AlleleSplit[] = orders
+    .filter(([maternal, paternal]) => mother.includes(maternal) && father.includes(paternal))
+    .map(([maternal, paternal]) => ({ maternal, paternal }));
+
+  const check: TrioCheck = {
+    error: splits.length === 0,
+    motherIncompatible: !mother.includes(a) && !mother.includes(b),
+    fatherIncompatible: !father.includes(a) && !father.includes(b),
+  };
+  if (splits.length === 1) check.split = splits[0];
+  return check;
+}
+
+/**
+ * Check a matched variant and attribute its alleles (and risk allele) to the parents
+ * Genotypes are compared as written in the files; a risk allele given on the
+ * other strand is read through the child's strand-flipped genotype.
+ */
+function attributeVariant(v: MatchedVariant, mother: string, father: string): TrioVariant {
+  const child = (v.originalGenotype ?? v.genotype).toUpperCase();
+  const check = checkTrio(child, mother, father);
+  const variant: TrioVariant = {
+    rsid: v.rsid,
+    gene: v.gene,
+    child,
+    mother,
+    father,
+    mendelianError: check.error,
+  };
+
+  if (check.split) {
+    variant.maternalAllele = check.split.maternal;
+    variant.paternalAllele = check.split.paternal;
+  }
+
+  // Risk allele as written in the file (the oriented genotype lines up with the file's)
+  const riskIndex = v.riskAllele
+    ? v.genotype.toUpperCase().indexOf(v.riskAllele.toUpperCase())
+    : -1;
+  const risk = child[riskIndex];
+  if (risk && !check.error) {
+    variant.riskAlleleFrom = riskOrigin(risk, check.split);
+  }
+
+  return variant;
+}
+
+function riskOrigin(risk: string, split: AlleleSplit | undefined): RiskAlleleOrigin {
+  if (!split) return 'undetermined';
+  if (split.maternal === risk && split.paternal === risk) return 'both';
+  return split.maternal === risk ? 'mother' : 'father';
+}
+
+function classifyTrio(
+  compared: number,
+  errors: number,
+  motherIncompatible: number,
+  fatherIncompatible: number
+): TrioStatus {
+  if (compared < MIN_TRIO_OVERLAP) return 'insufficient-data';
+
+  const motherMismatch = motherIncompatible / compared > PARENT_MISMATCH_RATE;
+  const fatherMismatch = fatherIncompatible / compared > PARENT_MISMATCH_RATE;
+  if (motherMismatch !== fatherMismatch) {
+    return motherMismatch ? 'mother-mismatch' : 'father-mismatch';
+  }
+  return errors / compared > MAX_CONSISTENT_ERROR_RATE ? 'inconsistent' : 'consistent';
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
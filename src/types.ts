@@ -30,12 +30,89 @@ export interface GenomeVariant {
   chromosome: string; // e.g., "1", "X", "MT"
   position: number; // Base pair position
   genotype: string; // e.g., "CT", "AA", "--" (no-call)
+  provenance?: GenotypeProvenance; // Set on merged call sets
 }
 
 /**
- * Supported genome file formats
+ * One file's call at a SNP in a merged call set
  */
-export type GenomeFormat = '23andme-v5' | '23andme-v4' | '23andme-v3' | 'ancestry' | 'unknown';
+export interface SourceCall {
+  source: string; // File name
+  genotype: string;
+}
+
+/**
+ * Where a genotype in a merged call set came from
+ */
+export interface GenotypeProvenance {
+  source: string; // File the genotype was taken from
+  filled?: boolean; // A higher-priority file had a no-call here
+  discordant?: boolean; // Files called the SNP differently; the highest-priority call was kept
+  calls?: SourceCall[]; // Every file's call, when more than one file has the SNP
+}
+
+/**
+ * A file that went into a merged call set
+ */
+export interface MergeSource {
+  name: string;
+  format: GenomeFormat;
+  variantCount: number;
+  build?: GenomeBuild;
+}
+
+/**
+ * Counts from merging several files
+ */
+export interface MergeSummary {
+  sources: MergeSource[]; // In priority order
+  overlapping: number; // SNPs present in more than one file
+  filled: number; // No-calls filled from another file
+  discordant: number; // SNPs called differently by two files
+}
+
+/**
+ * Genome file formats with a built-in parser
+ */
+export type BuiltinGenomeFormat =
+  | '23andme-v5'
+  | '23andme-v4'
+  | '23andme-v3'
+  | 'ancestry'
+  | 'myheritage'
+  | 'ftdna'
+  | 'vcf'
+  | 'unknown';
+
+/**
+ * Genome file format identifier
+ * Built-in formats plus any registered by a custom parser (see parser/registry).
+ */
+export type GenomeFormat = BuiltinGenomeFormat | (string & {});
+
+/**
+ * A format considered during detection
+ */
+export interface FormatCandidate {
+  format: GenomeFormat;
+  confidence: number; // 0 (not this format) to 1 (certain)
+}
+
+/**
+ * Outcome of format detection for a parsed file
+ */
+export interface FormatDetection extends FormatCandidate {
+  runnerUp?: FormatCandidate; // Best-scoring other parser, if any scored above 0
+  forced?: boolean; // Format was chosen by the user rather than detected
+}
+
+/**
+ * Reference genome builds supported by liftover
+ * - 36: NCBI36 / hg18 (23andMe v3)
+ * - 37: GRCh37 / hg19 (most chip exports, SNP list positions)
+ * - 38: GRCh38 / hg38 (recent sequencing VCFs)
+ */
+export type GenomeBuild = '36' | '37' | '38';
 
 /**
  * Result of parsing a genome file
@@ -45,9 +122,51 @@ export interface ParseResult {
   variants: GenomeVariant[];
   metadata: {
     generatedAt?: string; // Date from file header
-    build?: string; // Reference genome build (e.g., "37")
+    build?: string; // Reference genome build (e.g., "37", "38")
   };
   warnings?: string[]; // Non-fatal issues encountered during parsing
+  diagnostics?: ParseDiagnostic[]; // Per-row problems, in line order
+  detection?: FormatDetection; // Set when the format was detected or forced
+  merge?: MergeSummary; // Set when several files were merged into this call set
+}
+
+/**
+ * Kind of problem found on a data row
+ */
+export type ParseDiagnosticCode =
+  | 'wrong-column-count'
+  | 'bad-id'
+  | 'bad-chromosome'
+  | 'bad-position'
+  | 'invalid-genotype';
+
+/**
+ * Diagnostic severity
+ * - error: the row was dropped
+ * - warning: the row was kept but looks malformed
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A problem found on one row of a genome file
+ */
+export interface ParseDiagnostic {
+  code: ParseDiagnosticCode;
+  severity: DiagnosticSeverity;
+  line: number; // 1-based line number
+  message: string;
+  excerpt: string; // Start of the offending line
+  source?: string; // File name, in merged call sets
+}
+
+/**
+ * Progress of an incremental (streaming) parse
+ */
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes?: number; // Known when parsing a File or a file on disk
+  linesRead: number;
+  variantCount: number;
 }
 
 /**
@@ -78,8 +197,9 @@ export class ParseError extends Error {
  * Tier selection options
  * - free: Free tier with limited SNPs (~15, uses bundled SNP list)
  * - full: Paid tier with all categories (1,000+ SNPs, requires license key)
+ * - custom: A SNP list file supplied by the user (JSON, CSV or TSV)
  */
-export type Tier = 'free' | 'full';
+export type Tier = 'free' | 'full' | 'custom';
 
 /**
  * Whether a tier requires a paid license key
@@ -87,6 +207,7 @@ export type Tier = 'free' | 'full';
 export const TIER_REQUIRES_LICENSE: Record<Tier, boolean> = {
   free: false,
   full: true,
+  custom: false,
 };
 
 /**
@@ -117,6 +238,30 @@ export const PRESET_REQUIRES_TOKEN: Record<CategoryPreset, boolean> = {
 
 // Note: CATEGORY_LABELS is imported from './generated/snp-categories'
 
+/**
+ * A category, or a subcategory below it (e.g., "vitamins_minerals/vitamin_d")
+ * Filtering by a path selects its whole subtree.
+ */
+export type CategoryPath = SNPCategory | `${SNPCategory}/${string}`;
+
+/**
+ * A node of the category tree, counting the list entries in its subtree
+ */
+export interface CategoryNode {
+  path: CategoryPath;
+  name: string; // Display name, e.g., "Vitamin D"
+  count: number;
+  children: CategoryNode[]; // Subcategories, sorted by name
+}
+
+/**
+ * A tag used in a SNP list and how many entries carry it
+ */
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
 /**
  * Estimate of matches by category (for preview)
  */
@@ -132,27 +277,208 @@ export interface SNPEntry {
   rsid: string; // e.g., "rs1801133"
   gene: string; // e.g., "MTHFR"
   category: SNPCategory;
+  subcategory?: string; // Optional: path below the category, e.g., "vitamin_d" or "b12/absorption"
+  tags?: string[]; // Optional: free-form labels, e.g., ["bone_health", "pregnancy"]
   annotation: string; // Brief description from public sources
   sources: string[]; // e.g., ["ClinVar", "PharmGKB"]
   riskAllele?: string; // Optional: the variant allele of interest
+  alleles?: string[]; // Optional: alleles at the site on the list's strand, e.g., ["C", "T"]
   chromosome?: string; // For validation
   position?: number; // For validation
 }
 
+/**
+ * One SNP's contribution to a polygenic score
+ */
+export interface ScoreSNP {
+  rsid: string;
+  effectAllele: string; // Allele whose copies are weighted, on the list's strand
+  otherAllele?: string; // The site's other allele, used to orient genotypes
+  weight: number; // Effect per copy of the effect allele (e.g., beta or log odds ratio)
+  effectAlleleFrequency?: number; // Population frequency (0-1), used to impute a missing SNP
+}
+
+/**
+ * A polygenic score: a weighted sum of effect allele copies over a SNP set
+ */
+export interface ScoreDefinition {
+  id: string; // e.g., "ldl-cholesterol"
+  name: string; // e.g., "LDL cholesterol"
+  category: SNPCategory;
+  description?: string;
+  source?: string; // Publication or PGS Catalog ID the weights come from
+  snps: ScoreSNP[];
+}
+
 /**
  * The full SNP list structure
  */
 export interface SNPList {
   version: string; // e.g., "2025.01"
   generatedAt: string; // ISO date
+  build?: string; // Reference build of entry positions (default "37")
   count: number;
   variants: SNPEntry[];
+  scores?: ScoreDefinition[]; // Polygenic scores computed alongside the single-SNP extraction
+}
+
+/**
+ * Field overrides for an entry already in the list (the rsID itself can't change)
+ */
+export type SNPEntryOverride = Partial<SNPEntry> & { rsid: string };
+
+/**
+ * A layer applied on top of a SNP list
+ * Within a layer, entries are added first, then overridden, then removed.
+ */
+export interface SNPListOverlay {
+  name: string; // e.g., "lab-panel"; stamped into the composite list version
+  version?: string;
+  add?: SNPEntry[]; // New entries; an rsID already in the list is replaced by this entry
+  replace?: SNPEntryOverride[]; // Must name rsIDs already in the list
+  remove?: string[]; // rsIDs to exclude; ones not in the list are ignored
+}
+
+/**
+ * A problem found while validating a SNP list
+ * - error: the list can't be used until it is fixed
+ * - warning: the list loads, but the entry looks wrong or incomplete
+ */
+export interface ListValidationIssue {
+  severity: DiagnosticSeverity;
+  path: string; // Where in the list, e.g., "variants[12].riskAllele" ("" for the whole file)
+  message: string;
+  line?: number; // 1-based line number, for lists imported from a table
+}
+
+/**
+ * Every problem found in a SNP list, errors kept apart from warnings
+ */
+export interface ListValidationReport {
+  valid: boolean; // True when there are no errors (warnings allowed)
+  version?: string;
+  variantCount: number;
+  errors: ListValidationIssue[];
+  warnings: ListValidationIssue[];
+}
+
+/**
+ * SNP entry fields a list diff compares (entries are matched by rsID)
+ * A subcategory is compared as part of the entry's category path.
+ */
+export type SNPEntryField = Exclude<keyof SNPEntry, 'rsid' | 'subcategory'>;
+
+/**
+ * One field of an entry that differs between two list versions
+ */
+export interface SNPFieldChange {
+  field: SNPEntryField;
+  before?: SNPEntry[SNPEntryField]; // Unset when the field was added
+  after?: SNPEntry[SNPEntryField]; // Unset when the field was dropped
+}
+
+/**
+ * An entry present in both list versions with at least one field changed
+ */
+export interface SNPEntryChange {
+  rsid: string;
+  gene: string; // As in the newer list
+  changes: SNPFieldChange[];
+}
+
+/**
+ * What changed between two versions of a SNP list
+ */
+export interface SNPListDiff {
+  fromVersion: string;
+  toVersion: string;
+  summary: {
+    added: number;
+    removed: number;
+    recategorized: number; // Entries whose category changed
+    edited: number; // Entries with changes to any other field
+    unchanged: number;
+  };
+  added: SNPEntry[]; // In the newer list's order
+  removed: SNPEntry[]; // In the older list's order
+  changed: SNPEntryChange[]; // In the newer list's order
+}
+
+/**
+ * A SNP list reduced to its version and one keyed hash per entry
+ * Kept in browser storage for lists that must not be stored in the clear.
+ */
+export interface SNPListDigest {
+  version: string;
+  entries: Record<string, string>; // HMAC of the rsID -> HMAC of the entry's compared fields
+}
+
+/**
+ * Web Crypto key list digests are hashed with (CryptoKey; the CLI has no DOM types)
+ */
+export type SNPListDigestKey = Awaited<ReturnType<typeof crypto.subtle.importKey>>;
+
+/**
+ * What changed since a list digest: entries of the newer list that are new or
+ * differ, and how many of the digest's entries are gone
+ */
+export interface SNPListDigestDiff {
+  fromVersion: string;
+  toVersion: string;
+  added: SNPEntry[]; // In the newer list's order
+  changed: SNPEntry[]; // In the newer list's order
+  removed: number;
+  unchanged: number;
 }
 
 // =============================================================================
 // Extraction Result Types
 // =============================================================================
 
+/**
+ * Lookup maps over parsed genome variants
+ * Position keys are "chromosome:position" (e.g., "1:11856378") for files
+ * whose rows lack rsIDs (VCF "." IDs, 23andMe internal "i" IDs)
+ */
+export interface GenomeLookup {
+  byRsid: Map<string, GenomeVariant>;
+  byPosition: Map<string, GenomeVariant>;
+}
+
+/**
+ * How a SNP list entry was matched to a genome variant
+ * - rsid: matched on rsID
+ * - position: no rsID match, matched on chromosome and position
+ */
+export type MatchMethod = 'rsid' | 'position';
+
+/**
+ * Genotype relative to the SNP list's risk allele
+ * - homozygous-reference: no copies of the risk allele
+ * - heterozygous: one copy
+ * - homozygous-risk: two copies
+ * - hemizygous-reference / hemizygous-risk: single-copy site (male X/Y) without / with it
+ */
+export type Zygosity =
+  | 'homozygous-reference'
+  | 'heterozygous'
+  | 'homozygous-risk'
+  | 'hemizygous-reference'
+  | 'hemizygous-risk';
+
+/**
+ * Chromosomal sex, inferred from X heterozygosity and Y calls or set by the user
+ */
+export type ChromosomalSex = 'female' | 'male' | 'unknown';
+
+/**
+ * Strand of a genotype relative to the SNP list entry
+ * - forward: alleles already match the list's orientation
+ * - flipped: alleles only matched after complementing; genotype was flipped
+ * - ambiguous: palindromic (A/T or C/G) site where the strand cannot be told apart
+ */
+export type StrandOrientation = 'forward' | 'flipped' | 'ambiguous';
+
 /**
  * A matched variant with genotype
  */
@@ -161,9 +487,19 @@ export interface MatchedVariant {
   gene: string;
   genotype: string; // From genome file, e.g., "CT"
   category: SNPCategory;
+  subcategory?: string; // From SNP list
+  tags?: string[]; // From SNP list
   annotation: string;
   sources: string[];
   status: 'found' | 'no-call'; // 'found' = has genotype, 'no-call' = "--" in file
+  matchedBy: MatchMethod;
+  riskAllele?: string; // From SNP list, e.g., "T"
+  riskAlleleCount?: 0 | 1 | 2; // Copies of riskAllele in genotype (unset if the strand is unknown)
+  zygosity?: Zygosity; // Set along with riskAlleleCount
+  strand?: StrandOrientation; // Set when the list entry gives alleles to orient against
+  originalGenotype?: string; // Genotype as written in the file, when strand is 'flipped'
+  hemizygous?: boolean; // Single-copy call (male X outside the pseudoautosomal regions, Y)
+  provenance?: GenotypeProvenance; // Source file(s), when several files were merged
 }
 
 /**
@@ -173,7 +509,7 @@ export interface MissingVariant {
   rsid: string;
   gene: string;
   category: SNPCategory;
-  reason: 'not-in-file' | 'not-genotyped';
+  reason: 'not-in-file' | 'not-genotyped'; // not-genotyped = not on the chip, per its manifest
 }
 
 /**
@@ -187,7 +523,180 @@ export interface ExtractionMetadata {
   sourceVariantCount: number; // Total variants in genome file
   snpListVersion: string;
   disclaimer: string;
-  categoriesIncluded?: SNPCategory[]; // Categories that were extracted (if filtered)
+  categoriesIncluded?: CategoryPath[]; // Category subtrees that were extracted (if filtered)
+  tagsIncluded?: string[]; // Tags an entry needed one of to be extracted (if filtered)
+  sourceBuild?: GenomeBuild; // Build of the genome file (from its header, or inferred)
+  targetBuild?: GenomeBuild; // Build of the SNP list; positions were lifted over when they differ
+  chip?: string; // Genotyping chip known for the source format
+  sex?: ChromosomalSex; // Sex used to read X/Y genotypes
+  sexSource?: 'inferred' | 'user'; // Whether sex was inferred from the file or set by the user
+  mergedFrom?: MergeSource[]; // Files merged into the call set, in priority order
+}
+
+/**
+ * A diplotype called from several SNPs that jointly define a gene's haplotypes
+ */
+export interface HaplotypeCall {
+  gene: string; // e.g., "APOE"
+  diplotype: string | null; // e.g., "e3/e4"; null when the defining SNPs are incomplete
+  genotypes: Record<string, string>; // Defining rsID -> genotype used ("--" for no-call/missing)
+  note?: string; // Why no call was made, or alternative diplotypes
+}
+
+/**
+ * Phenotype predicted from a pharmacogene diplotype
+ * Metabolizer terms apply to enzymes (CYP2C19, CYP2C9, CYP2D6), function terms
+ * to transporters (SLCO1B1) and sensitivity terms to drug targets (VKORC1).
+ */
+export type PGxPhenotype =
+  | 'poor-metabolizer'
+  | 'intermediate-metabolizer'
+  | 'normal-metabolizer'
+  | 'rapid-metabolizer'
+  | 'ultrarapid-metabolizer'
+  | 'poor-function'
+  | 'decreased-function'
+  | 'normal-function'
+  | 'normal-sensitivity'
+  | 'increased-sensitivity'
+  | 'high-sensitivity';
+
+/**
+ * Star-allele diplotype and phenotype for a pharmacogene
+ */
+export interface PharmacogeneCall {
+  gene: string; // e.g., "CYP2C19"
+  diplotype: string | null; // e.g., "*1/*2"; null when no defining SNP was genotyped
+  phenotype: PGxPhenotype | null;
+  activityScore?: number; // Sum of the two alleles' activity values
+  genotypes: Record<string, string>; // Defining rsID -> genotype used (genotyped SNPs only)
+  missingSnps?: string[]; // Defining rsIDs not found, not extracted or no-call
+  note?: string; // Untested alleles and method limitations
+}
+
+/**
+ * Call counts for one chromosome
+ */
+export interface ChromosomeQC {
+  chromosome: string; // "1"-"22", "X", "Y", "MT"
+  variants: number;
+  noCalls: number;
+  callRate: number; // Called / total, 0-1
+}
+
+/**
+ * Whether X heterozygosity and Y calls agree on a chromosomal sex
+ * - female-pattern: heterozygous X calls, few or no Y calls
+ * - male-pattern: (almost) no heterozygous X calls, Y calls present
+ * - inconsistent: the two signals disagree (contamination, sample mix-up, aneuploidy)
+ * - unknown: too few X or Y rows to judge
+ */
+export type SexChromosomeStatus = 'female-pattern' | 'male-pattern' | 'inconsistent' | 'unknown';
+
+/**
+ * Sex-chromosome consistency check
+ */
+export interface SexChromosomeQC {
+  status: SexChromosomeStatus;
+  xHeterozygosityRate: number | null; // Heterozygous / called on X, null without X calls
+  yCallRate: number | null; // Called / total on Y, null without Y rows
+}
+
+/**
+ * Quality-control report for a parsed genome file
+ */
+export interface QCReport {
+  totalVariants: number;
+  calledVariants: number;
+  noCalls: number;
+  callRate: number; // Called / total, 0-1
+  heterozygosityRate: number | null; // Heterozygous / called diploid autosomal calls
+  indels: number; // I/D calls
+  duplicateCount: number; // IDs appearing on more than one row
+  duplicateRsids: string[]; // First few duplicated IDs
+  unparseableLineCount: number;
+  unparseableLines: number[]; // First few unparseable line numbers
+  chromosomes: ChromosomeQC[];
+  sexChromosomes: SexChromosomeQC;
+}
+
+/**
+ * A polygenic score computed from a genome file
+ */
+export interface ScoreResult {
+  id: string;
+  name: string;
+  category: SNPCategory;
+  score: number | null; // Weighted dosage sum; null when too few of the SNPs were genotyped
+  snpsTotal: number;
+  snpsUsed: number; // Genotyped in the file
+  snpsImputed: number; // Missing or no-call, counted at the expected dosage (2 x frequency)
+  snpsMissing: number; // Missing or no-call without a frequency to impute from, left out
+  missingSnps?: string[]; // rsIDs left out
+  note?: string; // Why no score was given
+}
+
+/**
+ * Whether a parent-child trio looks like a real family
+ * - consistent: Mendelian errors at genotyping-error level
+ * - mother-mismatch / father-mismatch: the child shares no allele with that
+ *   parent far too often (mislabeled or swapped file)
+ * - inconsistent: too many errors to pin on one parent
+ * - insufficient-data: too few autosomal SNPs called in all three files
+ */
+export type TrioStatus =
+  | 'consistent'
+  | 'mother-mismatch'
+  | 'father-mismatch'
+  | 'inconsistent'
+  | 'insufficient-data';
+
+/**
+ * Origin of a child's risk alleles
+ * 'both' = one copy from each parent; 'undetermined' = both parents could have passed it on
+ */
+export type RiskAlleleOrigin = 'mother' | 'father' | 'both' | 'undetermined';
+
+/**
+ * A matched SNP list variant checked against both parents
+ */
+export interface TrioVariant {
+  rsid: string;
+  gene: string;
+  child: string;
+  mother: string;
+  father: string;
+  mendelianError: boolean; // No way to draw one allele from each parent
+  maternalAllele?: string; // Set when the child's alleles can be attributed
+  paternalAllele?: string;
+  riskAlleleFrom?: RiskAlleleOrigin; // Set when the child carries the list's risk allele
+}
+
+/**
+ * Mendelian consistency of a child's file against both parents' files
+ * Counts cover autosomal SNPs called in all three files.
+ */
+export interface TrioAnalysis {
+  mother: string; // Parent file names
+  father: string;
+  status: TrioStatus;
+  compared: number;
+  mendelianErrors: number;
+  errorRate: number | null; // mendelianErrors / compared, null when nothing was compared
+  motherIncompatible: number; // Child shares no allele with the mother
+  fatherIncompatible: number;
+  variants: TrioVariant[]; // Matched SNP list variants called in all three files
+}
+
+/**
+ * Options for an extraction
+ */
+export interface ExtractionOptions {
+  sex?: ChromosomalSex; // Overrides the sex inferred from the file ('unknown' disables X/Y dosage)
+  tags?: string[]; // Only extract entries carrying at least one of these tags (case-insensitive)
+  genomeLookup?: GenomeLookup; // Pre-built lookup in the genome's own build (for performance)
+  onProgress?: (processed: number, total: number) => void; // SNP list entries processed so far
+  signal?: AbortSignal; // Aborts an async extraction between batches of entries
 }
 
 /**
@@ -197,6 +706,11 @@ export interface ExtractionResult {
   metadata: ExtractionMetadata;
   variants: MatchedVariant[];
   missing: MissingVariant[];
+  haplotypes?: HaplotypeCall[]; // Present when the extracted SNPs define any haplotypes
+  pharmacogenomics?: PharmacogeneCall[]; // Present when the extracted SNPs define any star alleles
+  scores?: ScoreResult[]; // Present when the SNP list defines scores in the extracted categories
+  qc?: QCReport; // Present when a QC report was requested for the output
+  trio?: TrioAnalysis; // Present when both parents' files were given
   summary: {
     found: number;
     noCall: number;
@@ -205,6 +719,88 @@ export interface ExtractionResult {
   };
 }
 
+// =============================================================================
+// Comparison Types
+// =============================================================================
+
+/**
+ * How two people's calls for one SNP relate
+ * - shared: both called, same genotype (allele order ignored)
+ * - different: both called, genotypes differ
+ * - only-first / only-second: one person has a call, the other a no-call or no row
+ * - neither: no call for either person
+ */
+export type ComparisonStatus = 'shared' | 'different' | 'only-first' | 'only-second' | 'neither';
+
+/**
+ * One person's call for a compared SNP
+ */
+export interface ComparedCall {
+  status: MatchedVariant['status'] | MissingVariant['reason'];
+  genotype?: string; // Set when found
+}
+
+/**
+ * A SNP from the list lined up across both extractions
+ */
+export interface VariantComparison {
+  rsid: string;
+  gene: string;
+  category: SNPCategory;
+  status: ComparisonStatus;
+  first: ComparedCall;
+  second: ComparedCall;
+}
+
+/**
+ * SNP counts per comparison status
+ */
+export interface ComparisonCounts {
+  shared: number;
+  different: number;
+  onlyFirst: number;
+  onlySecond: number;
+  neither: number;
+}
+
+/**
+ * Comparison counts for one category
+ */
+export interface CategoryComparison extends ComparisonCounts {
+  category: SNPCategory;
+}
+
+/**
+ * A compared person's extraction, summarized
+ */
+export interface ComparedPerson {
+  name: string; // Label, usually the genome file name
+  sourceFormat: GenomeFormat;
+  chip?: string;
+  sex?: ChromosomalSex;
+  found: number;
+  noCall: number;
+  missing: number;
+}
+
+/**
+ * Two extractions from the same SNP list, lined up by rsID
+ */
+export interface ComparisonResult {
+  metadata: {
+    tool: string;
+    version: string;
+    date: string; // ISO timestamp
+    snpListVersion: string;
+    disclaimer: string;
+    first: ComparedPerson;
+    second: ComparedPerson;
+  };
+  summary: ComparisonCounts & { total: number };
+  categories: CategoryComparison[]; // Categories with any compared SNP, in list order
+  variants: VariantComparison[];
+}
+
 // =============================================================================
 // Output Format Types
 // =============================================================================
@@ -222,13 +818,43 @@ export type OutputFormat = 'detailed' | 'compact' | 'minimal';
 // Application State Types
 // =============================================================================
 
+/**
+ * Summary of a parsed genome file
+ * The full ParseResult stays in the processing worker; the UI only needs this.
+ */
+export interface ParsedFileSummary {
+  filename: string;
+  format: GenomeFormat;
+  variantCount: number;
+  metadata: ParseResult['metadata'];
+  warnings?: string[];
+  diagnostics?: ParseDiagnostic[];
+  detection?: FormatDetection;
+  merge?: MergeSummary;
+  qc: QCReport;
+}
+
+/**
+ * Preview of an extraction for the UI (counts only, no variant data)
+ */
+export interface MatchPreview {
+  byCategory: Record<SNPCategory, number>; // Matches per category across the whole list
+  byPath: Record<string, number>; // Matches per category and subcategory path with any match
+  matched: number; // Matches (including no-calls) in the selected categories and tags
+  noCall: number;
+  missing: number;
+}
+
 /**
  * Processing status for UI
+ * progress is a 0-100 percentage for the current phase
  */
 export type ProcessingStatus =
   | { state: 'idle' }
-  | { state: 'reading'; filename: string }
-  | { state: 'parsing'; filename: string }
-  | { state: 'matching'; variantCount: number }
+  | { state: 'reading'; filename: string; progress: number }
+  | { state: 'parsing'; filename: string; progress: number }
+  | { state: 'parsed'; file: ParsedFileSummary }
+  | { state: 'matching'; variantCount: number; progress: number }
   | { state: 'complete'; result: ExtractionResult }
+  | { state: 'cancelled' }
   | { state: 'error'; error: ParseError };
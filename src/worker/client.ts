@@ -0,0 +1,190 @@
+/**
+ * Main-thread client for the processing worker
+ *
+ * Wraps the message protocol in a small API: parse and extract report every
+ * ProcessingStatus through a callback and resolve with the terminal status;
+ * preview resolves with match counts. Only one parse/extract job runs at a
+ * time - starting another supersedes the previous one.
+ */
+
+import type {
+  CategoryPath,
+  ChromosomalSex,
+  GenomeFormat,
+  MatchPreview,
+  ProcessingStatus,
+  SNPList,
+} from '../types';
+import { ParseError } from '../types';
+import type { PipelineRequest, PipelineResponse, WorkerStatus } from './protocol';
+
+type StatusCallback = (status: ProcessingStatus) => void;
+
+/** A parse or extract job awaiting a terminal status */
+interface PendingJob {
+  onStatus: StatusCallback;
+  resolve: (status: ProcessingStatus) => void;
+}
+
+/** A preview request awaiting its counts */
+interface PendingPreview {
+  resolve: (preview: MatchPreview) => void;
+  reject: (error: ParseError) => void;
+}
+
+/**
+ * Client API for the processing worker
+ */
+export interface PipelineClient {
+  /**
+   * Parse files in the worker; resolves with 'parsed', 'cancelled' or 'error'
+   * Several files (from one person) are merged into one call set, the first taking priority.
+   * Pass format to skip detection and read every file as that format.
+   */
+  parse(files: File[], onStatus: StatusCallback, format?: GenomeFormat): Promise<ProcessingStatus>;
+  /** Count matches for the loaded file without extracting; tags narrow the selection */
+  preview(snpList: SNPList, categories: CategoryPath[], tags?: string[]): Promise<MatchPreview>;
+  /**
+   * Extract variants for the loaded file; resolves with 'complete', 'cancelled' or 'error'
+   * Pass sex to override the sex inferred from the file, and tags to keep only entries
+   * carrying one of them.
+   */
+  extract(
+    snpList: SNPList,
+    categories: CategoryPath[],
+    onStatus: StatusCallback,
+    sex?: ChromosomalSex,
+    tags?: string[]
+  ): Promise<ProcessingStatus>;
+  /** Cancel the running parse/extract job, reporting 'cancelled' to its callback */
+  cancel(): void;
+}
+
+/**
+ * Create a client backed by a new processing worker
+ */
+export function createPipelineClient(): PipelineClient {
+  const worker = new Worker(new URL('./pipeline.worker.ts', import.meta.url), {
+    type: 'module',
+  });
+
+  let nextJobId = 1;
+  let activeJobId: number | null = null;
+  const jobs = new Map<number, PendingJob>();
+  const previews = new Map<number, PendingPreview>();
+
+  worker.addEventListener('message', (event: MessageEvent<PipelineResponse>) => {
+    const message = event.data;
+
+    if (message.type === 'preview') {
+      previews.get(message.jobId)?.resolve(message.preview);
+      previews.delete(message.jobId);
+      return;
+    }
+
+    const status = deserializeStatus(message.status);
+
+    // Preview failures arrive as error statuses
+    const pendingPreview = previews.get(message.jobId);
+    if (pendingPreview) {
+      if (status.state === 'error') pendingPreview.reject(status.error);
+      previews.delete(message.jobId);
+      return;
+    }
+
+    // Ignore messages for jobs that were cancelled or superseded
+    const job = jobs.get(message.jobId);
+    if (!job) return;
+
+    job.onStatus(status);
+    if (isTerminal(status)) {
+      finishJob(message.jobId, status);
+    }
+  });
+
+  function post(request: PipelineRequest): void {
+    worker.postMessage(request);
+  }
+
+  function finishJob(jobId: number, status: ProcessingStatus): void {
+    jobs.get(jobId)?.resolve(status);
+    jobs.delete(jobId);
+    if (activeJobId === jobId) activeJobId = null;
+  }
+
+  // Start a parse/extract job, silently dropping any job still running
+  function startJob(
+    onStatus: StatusCallback,
+    buildRequest: (jobId: number) => PipelineRequest
+  ): Promise<ProcessingStatus> {
+    if (activeJobId !== null) {
+      post({ type: 'cancel', jobId: activeJobId });
+      finishJob(activeJobId, { state: 'cancelled' });
+    }
+
+    const jobId = nextJobId++;
+    activeJobId = jobId;
+
+    return new Promise((resolve) => {
+      jobs.set(jobId, { onStatus, resolve });
+      post(buildRequest(jobId));
+    });
+  }
+
+  return {
+    parse(files, onStatus, format) {
+      return startJob(onStatus, (jobId) => ({ type: 'parse', jobId, files, format }));
+    },
+
+    preview(snpList, categories, tags) {
+      const jobId = nextJobId++;
+      return new Promise((resolve, reject) => {
+        previews.set(jobId, { resolve, reject });
+        post({ type: 'preview', jobId, snpList, categories, tags });
+      });
+    },
+
+    extract(snpList, categories, onStatus, sex, tags) {
+      return startJob(onStatus, (jobId) => ({
+        type: 'extract',
+        jobId,
+        snpList,
+        categories,
+        sex,
+        tags,
+      }));
+    },
+
+    cancel() {
+      if (activeJobId === null) return;
+      const jobId = activeJobId;
+      const job = jobs.get(jobId);
+      post({ type: 'cancel', jobId });
+
+      // Finish first so a callback that cancels again (e.g., via a UI reset) is a no-op
+      const cancelled: ProcessingStatus = { state: 'cancelled' };
+      finishJob(jobId, cancelled);
+      job?.onStatus(cancelled);
+    },
+  };
+}
+
+function isTerminal(status: ProcessingStatus): boolean {
+  return (
+    status.state === 'parsed' ||
+    status.state === 'complete' ||
+    status.state === 'cancelled' ||
+    status.state === 'error'
+  );
+}
+
+/**
+ * Rebuild ParseError instances lost in structured cloning
+ */
+function deserializeStatus(status: WorkerStatus): ProcessingStatus {
+  if (status.state === 'error') {
+    const { message, line, details } = status.error;
+    return { state: 'error', error: new ParseError(message, line, details) };
+  }
+  return status;
+}
@@ -0,0 +1,260 @@
+/**
+ * Processing pipeline run inside the worker: parse -> lookup -> extract
+ *
+ * Kept separate from the worker entry point so it can be driven directly in
+ * tests (or on the main thread) by passing any message sink as `post`.
+ */
+
+import type {
+  CategoryPath,
+  ExtractionOptions,
+  GenomeBuild,
+  GenomeFormat,
+  GenomeLookup,
+  GenomeVariant,
+  ParsedFileSummary,
+  ParseResult,
+  SNPList,
+} from '../types';
+import { ParseError } from '../types';
+import { COMPRESSED_EXTENSIONS, openGenomeStream, parseGenomeStream } from '../parser';
+import type { StreamParseOptions } from '../parser';
+import {
+  addToGenomeLookup,
+  createGenomeLookup,
+  extractVariantsAsync,
+  previewMatches,
+  resolveGenomeBuild,
+} from '../extractor';
+import { DEFAULT_TARGET_BUILD, normalizeBuild } from '../liftover';
+import { buildQCReport } from '../qc';
+import { mergeParseResults } from '../merge';
+import type { NamedParseResult } from '../merge';
+import type { PipelineRequest, PipelineResponse, SerializedError, WorkerStatus } from './protocol';
+
+/** Thrown internally when a job is cancelled */
+const CANCELLED = Symbol('cancelled');
+
+/**
+ * Pipeline state and request handler
+ */
+export interface Pipeline {
+  handleMessage(request: PipelineRequest): Promise<void>;
+}
+
+/**
+ * Create a pipeline that reports to the given message sink
+ */
+export function createPipeline(post: (message: PipelineResponse) => void): Pipeline {
+  let parseResult: ParseResult | null = null;
+  let genomeLookup: GenomeLookup | null = null;
+  let buildLookup: { build: GenomeBuild; lookup: GenomeLookup } | null = null; // Lifted for previews
+  const activeJobs = new Map<number, AbortController>();
+
+  function postStatus(jobId: number, status: WorkerStatus): void {
+    post({ type: 'status', jobId, status });
+  }
+
+  async function handleMessage(request: PipelineRequest): Promise<void> {
+    if (request.type === 'cancel') {
+      activeJobs.get(request.jobId)?.abort();
+      return;
+    }
+
+    const job = new AbortController();
+    activeJobs.set(request.jobId, job);
+
+    try {
+      switch (request.type) {
+        case 'parse':
+          await parse(request.jobId, request.files, request.format, job.signal);
+          break;
+        case 'preview':
+          preview(request.jobId, request.snpList, request.categories, request.tags);
+          break;
+        case 'extract':
+          await extract(
+            request.jobId,
+            request.snpList,
+            request.categories,
+            { sex: request.sex, tags: request.tags },
+            job.signal
+          );
+          break;
+      }
+    } catch (err) {
+      if (err === CANCELLED || job.signal.aborted) {
+        postStatus(request.jobId, { state: 'cancelled' });
+      } else {
+        postStatus(request.jobId, { state: 'error', error: serializeError(err) });
+      }
+    } finally {
+      activeJobs.delete(request.jobId);
+    }
+  }
+
+  async function parse(
+    jobId: number,
+    files: File[],
+    format: GenomeFormat | undefined,
+    signal: AbortSignal
+  ): Promise<void> {
+    // Drop the previous file before reading the next one
+    parseResult = null;
+    genomeLookup = null;
+    buildLookup = null;
+
+    let result: ParseResult;
+    let lookup: GenomeLookup;
+    const [single] = files;
+    if (files.length === 1 && single) {
+      // The lookup is built as variants stream in, so matching needs no extra pass
+      lookup = createGenomeLookup();
+      result = await parseFile(jobId, single, format, signal, (variant) =>
+        addToGenomeLookup(lookup, variant)
+      );
+    } else {
+      const parsed: NamedParseResult[] = [];
+      for (const file of files) {
+        parsed.push({ name: file.name, result: await parseFile(jobId, file, format, signal) });
+      }
+      result = mergeParseResults(parsed);
+      lookup = createGenomeLookup(result.variants);
+    }
+
+    parseResult = result;
+    genomeLookup = lookup;
+
+    const summary: ParsedFileSummary = {
+      filename: files.map((f) => f.name).join(' + '),
+      format: result.format,
+      variantCount: result.variants.length,
+      metadata: result.metadata,
+      warnings: result.warnings,
+      diagnostics: result.diagnostics,
+      detection: result.detection,
+      qc: buildQCReport(result),
+    };
+    if (result.merge) {
+      summary.merge = result.merge;
+    }
+    postStatus(jobId, { state: 'parsed', file: summary });
+  }
+
+  /**
+   * Read and parse one file, reporting progress under its name
+   */
+  async function parseFile(
+    jobId: number,
+    file: File,
+    format: GenomeFormat | undefined,
+    signal: AbortSignal,
+    onVariant?: (variant: GenomeVariant) => void
+  ): Promise<ParseResult> {
+    let lastPercent = -1;
+    const reportParsing = (bytesRead: number, totalBytes: number) => {
+      const percent = totalBytes > 0 ? Math.floor((bytesRead / totalBytes) * 100) : 0;
+      if (percent !== lastPercent) {
+        lastPercent = percent;
+        postStatus(jobId, { state: 'parsing', filename: file.name, progress: percent });
+      }
+    };
+
+    let result: ParseResult;
+    const fileName = file.name.toLowerCase();
+
+    if (COMPRESSED_EXTENSIONS.some((ext) => fileName.endsWith(ext))) {
+      // Archives are inflated as they are read; progress counts compressed bytes
+      postStatus(jobId, { state: 'reading', filename: file.name, progress: 0 });
+      const stream = await openGenomeStream(file, (bytesRead) =>
+        reportParsing(bytesRead, file.size)
+      );
+      throwIfCancelled(signal);
+      result = await parseGenomeStream(stream, { signal, format, onVariant });
+    } else {
+      const options: StreamParseOptions = {
+        totalBytes: file.size,
+        signal,
+        format,
+        onVariant,
+        onProgress: (progress) => reportParsing(progress.bytesRead, file.size),
+      };
+      result = await parseGenomeStream(file.stream(), options);
+    }
+    throwIfCancelled(signal);
+
+    return result;
+  }
+
+  function preview(
+    jobId: number,
+    snpList: SNPList,
+    categories: CategoryPath[],
+    tags: string[] | undefined
+  ): void {
+    if (!parseResult || !genomeLookup) {
+      throw new ParseError('No file loaded. Please upload a genome file first.');
+    }
+
+    // Previews repeat on every settings change, so keep the lookup lifted to the list's build
+    const build = normalizeBuild(snpList.build) ?? DEFAULT_TARGET_BUILD;
+    if (buildLookup?.build !== build) {
+      const { lookup } = resolveGenomeBuild(parseResult, build, genomeLookup);
+      buildLookup = { build, lookup };
+    }
+
+    post({
+      type: 'preview',
+      jobId,
+      preview: previewMatches(snpList, categories, buildLookup.lookup, tags),
+    });
+  }
+
+  async function extract(
+    jobId: number,
+    snpList: SNPList,
+    categories: CategoryPath[],
+    options: ExtractionOptions,
+    signal: AbortSignal
+  ): Promise<void> {
+    if (!parseResult || !genomeLookup) {
+      throw new ParseError('No file loaded. Please upload a genome file first.');
+    }
+
+    const variantCount = parseResult.variants.length;
+    let lastPercent = -1;
+    const result = await extractVariantsAsync(parseResult, snpList, categories, {
+      ...options,
+      genomeLookup,
+      signal,
+      onProgress: (done, total) => {
+        const percent = total > 0 ? Math.floor((done / total) * 100) : 100;
+        if (percent !== lastPercent) {
+          lastPercent = percent;
+          postStatus(jobId, { state: 'matching', variantCount, progress: percent });
+        }
+      },
+    });
+    throwIfCancelled(signal);
+
+    postStatus(jobId, { state: 'complete', result });
+  }
+
+  return { handleMessage };
+}
+
+function throwIfCancelled(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw CANCELLED;
+  }
+}
+
+function serializeError(err: unknown): SerializedError {
+  if (err instanceof ParseError) {
+    return { message: err.message, line: err.line, details: err.details };
+  }
+  if (err instanceof Error) {
+    return { message: err.message || 'Failed to process file.' };
+  }
+  return { message: 'An unexpected error occurred. Please try again.' };
+}
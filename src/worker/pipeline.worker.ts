@@ -0,0 +1,18 @@
+/**
+ * Processing worker entry point
+ *
+ * Runs parsing and extraction off the main thread so large files don't freeze the page.
+ * Loaded by the client with `new Worker(new URL(...), { type: 'module' })`.
+ */
+
+import { createPipeline } from './pipeline';
+import type { PipelineRequest } from './protocol';
+
+// The app's tsconfig uses the DOM lib; a Worker-typed view of `self` gives the right postMessage
+const scope = self as unknown as Worker;
+
+const pipeline = createPipeline((message) => scope.postMessage(message));
+
+scope.addEventListener('message', (event: MessageEvent<PipelineRequest>) => {
+  pipeline.handleMessage(event.data);
+});
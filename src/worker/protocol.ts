@@ -0,0 +1,63 @@
+/**
+ * Message protocol between the UI and the processing worker
+ *
+ * The worker owns the parsed genome (ParseResult and lookup maps) so the
+ * large variant array never crosses back to the main thread. Every request
+ * carries a jobId; the worker answers with status messages for that job,
+ * ending in a terminal state (parsed, complete, cancelled or error).
+ */
+
+import type {
+  CategoryPath,
+  ChromosomalSex,
+  GenomeFormat,
+  MatchPreview,
+  ProcessingStatus,
+  SNPList,
+} from '../types';
+
+/**
+ * Messages sent from the UI to the worker
+ */
+export type PipelineRequest =
+  | { type: 'parse'; jobId: number; files: File[]; format?: GenomeFormat } // Several files are merged; format forces a parser
+  | {
+      type: 'preview';
+      jobId: number;
+      snpList: SNPList;
+      categories: CategoryPath[];
+      tags?: string[]; // Only count entries with one of these tags as selected
+    }
+  | {
+      type: 'extract';
+      jobId: number;
+      snpList: SNPList;
+      categories: CategoryPath[];
+      sex?: ChromosomalSex; // User override of the inferred sex
+      tags?: string[]; // Only extract entries with one of these tags
+    }
+  | { type: 'cancel'; jobId: number };
+
+/**
+ * ParseError fields in a structured-clone-safe shape
+ * Class instances lose their prototype when posted, so errors are rebuilt on receipt.
+ */
+export interface SerializedError {
+  message: string;
+  line?: number;
+  details?: string;
+}
+
+/**
+ * ProcessingStatus as sent over the wire
+ */
+export type WorkerStatus =
+  | Exclude<ProcessingStatus, { state: 'error' }>
+  | { state: 'error'; error: SerializedError };
+
+/**
+ * Messages sent from the worker to the UI
+ */
+export type PipelineResponse =
+  | { type: 'status'; jobId: number; status: WorkerStatus }
+  | { type: 'preview'; jobId: number; preview: MatchPreview };
@@ -0,0 +1,151 @@
+/**
+ * Comparison tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareExtractions } from '../src/compare';
+import type { ExtractionResult, MatchedVariant, MissingVariant } from '../src/types';
+
+function extractionOf(
+  variants: Partial<MatchedVariant>[],
+  missing: MissingVariant[] = [],
+  snpListVersion = '2025.01'
+): ExtractionResult {
+  const matched: MatchedVariant[] = variants.map((v) => ({
+    rsid: 'rs0',
+    gene: 'GENE',
+    genotype: '--',
+    category: 'methylation',
+    annotation: 'Test',
+    sources: ['Test'],
+    status: v.genotype && v.genotype !== '--' ? 'found' : 'no-call',
+    matchedBy: 'rsid',
+    ...v,
+  }));
+  return {
+    metadata: {
+      tool: 'GenomeGist',
+      version: '1.0.0',
+      date: '2025-01-23T12:00:00Z',
+      sourceFormat: '23andme-v5',
+      sourceVariantCount: 650000,
+      snpListVersion,
+      disclaimer: 'Test disclaimer',
+    },
+    variants: matched,
+    missing,
+    summary: {
+      found: matched.filter((v) => v.status === 'found').length,
+      noCall: matched.filter((v) => v.status === 'no-call').length,
+      missing: missing.length,
+      total: matched.length + missing.length,
+    },
+  };
+}
+
+describe('compareExtractions', () => {
+  it('classifies shared and differing genotypes, ignoring allele order', () => {
+    const comparison = compareExtractions(
+      {
+        name: 'alex.txt',
+        result: extractionOf([
+          { rsid: 'rs1', genotype: 'CT' },
+          { rsid: 'rs2', genotype: 'AA' },
+        ]),
+      },
+      {
+        name: 'sam.txt',
+        result: extractionOf([
+          { rsid: 'rs1', genotype: 'TC' },
+          { rsid: 'rs2', genotype: 'AG' },
+        ]),
+      }
+    );
+
+    expect(comparison.variants.map((v) => [v.rsid, v.status])).toEqual([
+      ['rs1', 'shared'],
+      ['rs2', 'different'],
+    ]);
+    expect(comparison.variants[1]?.first).toEqual({ status: 'found', genotype: 'AA' });
+    expect(comparison.metadata.first.name).toBe('alex.txt');
+  });
+
+  it('counts SNPs only one person has a call for as coverage differences', () => {
+    const comparison = compareExtractions(
+      {
+        name: 'a',
+        result: extractionOf(
+          [
+            { rsid: 'rs1', genotype: 'CT' },
+            { rsid: 'rs2', genotype: '--' },
+          ],
+          [{ rsid: 'rs3', gene: 'GENE', category: 'methylation', reason: 'not-genotyped' }]
+        ),
+      },
+      {
+        name: 'b',
+        result: extractionOf(
+          [{ rsid: 'rs3', genotype: 'GG' }],
+          [
+            { rsid: 'rs1', gene: 'GENE', category: 'methylation', reason: 'not-in-file' },
+            { rsid: 'rs2', gene: 'GENE', category: 'methylation', reason: 'not-in-file' },
+          ]
+        ),
+      }
+    );
+
+    expect(comparison.summary).toEqual({
+      shared: 0,
+      different: 0,
+      onlyFirst: 1,
+      onlySecond: 1,
+      neither: 1,
+      total: 3,
+    });
+    expect(comparison.variants.find((v) => v.rsid === 'rs3')?.first).toEqual({
+      status: 'not-genotyped',
+    });
+  });
+
+  it('treats a doubled hemizygous call as the single allele', () => {
+    const comparison = compareExtractions(
+      { name: 'a', result: extractionOf([{ rsid: 'rs1', genotype: 'A', hemizygous: true }]) },
+      { name: 'b', result: extractionOf([{ rsid: 'rs1', genotype: 'AA', hemizygous: true }]) }
+    );
+
+    expect(comparison.variants[0]?.status).toBe('shared');
+  });
+
+  it('counts per category in list order', () => {
+    const comparison = compareExtractions(
+      {
+        name: 'a',
+        result: extractionOf([
+          { rsid: 'rs1', genotype: 'AA' },
+          { rsid: 'rs2', genotype: 'CT', category: 'lipids' },
+        ]),
+      },
+      {
+        name: 'b',
+        result: extractionOf([
+          { rsid: 'rs1', genotype: 'AA' },
+          { rsid: 'rs2', genotype: 'CC', category: 'lipids' },
+        ]),
+      }
+    );
+
+    expect(comparison.categories).toEqual([
+      { category: 'lipids', shared: 0, different: 1, onlyFirst: 0, onlySecond: 0, neither: 0 },
+      { category: 'methylation', shared: 1, different: 0, onlyFirst: 0, onlySecond: 0, neither: 0 },
+    ]);
+  });
+
+  it('refuses extractions from different SNP list versions', () => {
+    expect(() =>
+      compareExtractions(
+        { name: 'a', result: extractionOf([], [], '2025.01') },
+        { name: 'b', result: extractionOf([], [], '2025.02') }
+      )
+    ).toThrow('different SNP lists');
+  });
+});
@@ -3,8 +3,20 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { extractVariants } from '../src/extractor/matcher';
-import type { ParseResult, SNPList } from '../src/types';
+import {
+  extractVariants,
+  estimateMatches,
+  createGenomeLookup,
+  previewMatches,
+  resolveGenomeBuild,
+} from '../src/extractor/matcher';
+import { interpretGenotype, isStrandResolved, orientGenotype } from '../src/extractor/alleles';
+import { callHaplotypes } from '../src/extractor/haplotypes';
+import { callPharmacogenes } from '../src/extractor/pharmacogenomics';
+import { assessCoverage, missingReason } from '../src/extractor/coverage';
+import { isPseudoautosomal, resolvePloidy } from '../src/extractor/sex';
+import { calculateScores } from '../src/extractor/scores';
+import type { ParseResult, ScoreDefinition, SNPList } from '../src/types';
 
 // Mock parsed genome data
 const mockParseResult: ParseResult = {
@@ -143,3 +155,704 @@ describe('extractVariants', () => {
     expect(result.variants[0]?.rsid).toBe('rs1801133');
   });
 });
+
+describe('position-based matching', () => {
+  const positionList: SNPList = {
+    ...mockSNPList,
+    variants: [
+      {
+        rsid: 'rs1801133',
+        gene: 'MTHFR',
+        category: 'methylation',
+        annotation: 'C677T variant',
+        sources: ['ClinVar'],
+        chromosome: '1',
+        position: 11856378,
+      },
+      {
+        rsid: 'rs7412',
+        gene: 'APOE',
+        category: 'lipids',
+        annotation: 'e2 determinant',
+        sources: ['ClinVar'],
+        chromosome: '19',
+        position: 45412079,
+      },
+    ],
+  };
+
+  const unnamedParseResult: ParseResult = {
+    format: 'vcf',
+    variants: [
+      { rsid: 'rs1801133', chromosome: '1', position: 11856378, genotype: 'CT' },
+      { rsid: '19:45412079', chromosome: '19', position: 45412079, genotype: 'CT' },
+    ],
+    metadata: {},
+  };
+
+  it('records rsID matches', () => {
+    const result = extractVariants(unnamedParseResult, positionList);
+    expect(result.variants.find((v) => v.rsid === 'rs1801133')?.matchedBy).toBe('rsid');
+  });
+
+  it('falls back to chromosome:position when the rsID is absent', () => {
+    const result = extractVariants(unnamedParseResult, positionList);
+    const apoe = result.variants.find((v) => v.rsid === 'rs7412');
+
+    expect(apoe?.genotype).toBe('CT');
+    expect(apoe?.matchedBy).toBe('position');
+    expect(result.missing).toHaveLength(0);
+  });
+
+  it('matches internal 23andMe IDs by position', () => {
+    const internal: ParseResult = {
+      ...unnamedParseResult,
+      variants: [{ rsid: 'i6019299', chromosome: '19', position: 45412079, genotype: 'CC' }],
+    };
+    const result = extractVariants(internal, positionList);
+    expect(result.variants[0]?.rsid).toBe('rs7412');
+    expect(result.variants[0]?.matchedBy).toBe('position');
+  });
+
+  it('does not use position for entries without coordinates', () => {
+    const result = extractVariants(unnamedParseResult, mockSNPList);
+    expect(result.variants.every((v) => v.matchedBy === 'rsid')).toBe(true);
+  });
+
+  it('counts position matches in estimates', () => {
+    const estimate = estimateMatches(unnamedParseResult, positionList);
+    expect(estimate.total).toBe(2);
+  });
+});
+
+describe('build liftover', () => {
+  const positionList: SNPList = {
+    ...mockSNPList,
+    variants: [
+      {
+        rsid: 'rs429358',
+        gene: 'APOE',
+        category: 'lipids',
+        annotation: 'e4 determinant',
+        sources: ['ClinVar'],
+        chromosome: '19',
+        position: 45411941,
+      },
+    ],
+  };
+
+  // GRCh38 VCF rows without rsIDs
+  const grch38Result: ParseResult = {
+    format: 'vcf',
+    variants: [{ rsid: '19:44908684', chromosome: '19', position: 44908684, genotype: 'CT' }],
+    metadata: { build: '38' },
+  };
+
+  it('lifts genome positions to the SNP list build before matching', () => {
+    const result = extractVariants(grch38Result, positionList);
+
+    expect(result.variants[0]?.genotype).toBe('CT');
+    expect(result.variants[0]?.matchedBy).toBe('position');
+  });
+
+  it('records source and target builds', () => {
+    const result = extractVariants(grch38Result, positionList);
+    expect(result.metadata.sourceBuild).toBe('38');
+    expect(result.metadata.targetBuild).toBe('37');
+
+    expect(extractVariants(mockParseResult, mockSNPList).metadata.sourceBuild).toBe('37');
+  });
+
+  it('does not match stale positions from another build', () => {
+    const stale: ParseResult = {
+      ...grch38Result,
+      variants: [{ rsid: '19:45411941', chromosome: '19', position: 45411941, genotype: 'TT' }],
+    };
+    expect(extractVariants(stale, positionList).variants).toHaveLength(0);
+  });
+
+  it('uses the build declared by the SNP list', () => {
+    const grch38List: SNPList = {
+      ...positionList,
+      build: 'GRCh38',
+      variants: [{ ...positionList.variants[0]!, position: 44908684 }],
+    };
+    const result = extractVariants(grch38Result, grch38List);
+
+    expect(result.metadata.targetBuild).toBe('38');
+    expect(result.variants).toHaveLength(1);
+  });
+
+  it('keeps track of variants left at their original positions', () => {
+    const unanchored = { rsid: 'rs5', chromosome: 'X', position: 2750000, genotype: 'AA' };
+    const { lookup, unlifted } = resolveGenomeBuild(
+      { ...grch38Result, variants: [...grch38Result.variants, unanchored] },
+      '37'
+    );
+
+    // Their positions are still GRCh38, so X/Y ploidy is read against GRCh38's PARs
+    expect(unlifted?.has(unanchored)).toBe(true);
+    expect(unlifted?.size).toBe(1);
+    expect(lookup.byPosition.get('19:45411941')?.position).toBe(45411941);
+  });
+});
+
+describe('risk allele interpretation', () => {
+  const riskList: SNPList = {
+    ...mockSNPList,
+    variants: [
+      { ...mockSNPList.variants[0]!, riskAllele: 'T' }, // rs1801133 CT
+      { ...mockSNPList.variants[1]!, riskAllele: 'a' }, // rs4680 AG, lowercase in list
+      { ...mockSNPList.variants[2]!, riskAllele: 'G' }, // rs999999 no-call
+      { ...mockSNPList.variants[3]!, riskAllele: 'C' }, // rs777777 missing
+    ],
+  };
+
+  it('counts risk allele copies and labels zygosity', () => {
+    expect(interpretGenotype('CC', 'T')).toEqual({
+      riskAlleleCount: 0,
+      zygosity: 'homozygous-reference',
+    });
+    expect(interpretGenotype('CT', 'T')).toEqual({ riskAlleleCount: 1, zygosity: 'heterozygous' });
+    expect(interpretGenotype('TT', 'T')).toEqual({
+      riskAlleleCount: 2,
+      zygosity: 'homozygous-risk',
+    });
+  });
+
+  it('handles indels, haploid calls and unusable values', () => {
+    expect(interpretGenotype('DI', 'I')?.riskAlleleCount).toBe(1);
+    expect(interpretGenotype('T', 'T')).toEqual({
+      riskAlleleCount: 1,
+      zygosity: 'hemizygous-risk',
+    });
+    expect(interpretGenotype('C', 'T')?.zygosity).toBe('hemizygous-reference');
+    expect(interpretGenotype('--', 'T')).toBeUndefined();
+    expect(interpretGenotype('CT', undefined)).toBeUndefined();
+    expect(interpretGenotype('CT', 'TG')).toBeUndefined();
+  });
+
+  it('annotates matched variants', () => {
+    const result = extractVariants(mockParseResult, riskList);
+
+    const mthfr = result.variants.find((v) => v.rsid === 'rs1801133');
+    expect(mthfr?.riskAllele).toBe('T');
+    expect(mthfr?.riskAlleleCount).toBe(1);
+    expect(mthfr?.zygosity).toBe('heterozygous');
+
+    const comt = result.variants.find((v) => v.rsid === 'rs4680');
+    expect(comt?.riskAlleleCount).toBe(1);
+  });
+
+  it('leaves no-calls and entries without a risk allele uninterpreted', () => {
+    const noCall = extractVariants(mockParseResult, riskList).variants.find(
+      (v) => v.rsid === 'rs999999'
+    );
+    expect(noCall?.riskAllele).toBe('G');
+    expect(noCall?.riskAlleleCount).toBeUndefined();
+    expect(noCall?.zygosity).toBeUndefined();
+
+    const plain = extractVariants(mockParseResult, mockSNPList).variants[0];
+    expect(plain?.riskAllele).toBeUndefined();
+    expect(plain?.zygosity).toBeUndefined();
+  });
+});
+
+describe('strand orientation', () => {
+  it('keeps genotypes already on the list strand', () => {
+    expect(orientGenotype('AG', { alleles: ['A', 'G'] })).toEqual({
+      genotype: 'AG',
+      strand: 'forward',
+    });
+    expect(orientGenotype('AA', { alleles: ['A', 'G'] })?.strand).toBe('forward');
+  });
+
+  it('flips genotypes only compatible after complementing', () => {
+    expect(orientGenotype('TC', { alleles: ['A', 'G'] })).toEqual({
+      genotype: 'AG',
+      strand: 'flipped',
+    });
+  });
+
+  it('decides the strand once per site', () => {
+    // rs1801133 on the list's C/T strand, called on the plus strand (G/A) by 23andMe
+    const site = { riskAllele: 'T', alleles: ['C', 'T'] };
+    expect(orientGenotype('AA', site)).toEqual({ genotype: 'TT', strand: 'flipped' });
+    expect(orientGenotype('AG', site)).toEqual({ genotype: 'TC', strand: 'flipped' });
+    expect(orientGenotype('GG', site)).toEqual({ genotype: 'CC', strand: 'flipped' });
+  });
+
+  it('flags palindromic sites as ambiguous', () => {
+    expect(orientGenotype('AT', { alleles: ['A', 'T'] })?.strand).toBe('ambiguous');
+    expect(orientGenotype('CC', { alleles: ['G', 'C'] })?.strand).toBe('ambiguous');
+  });
+
+  it('skips no-calls, indels and entries without site alleles', () => {
+    expect(orientGenotype('--', { alleles: ['A', 'G'] })).toBeUndefined();
+    expect(orientGenotype('DI', { alleles: ['I', 'D'] })).toBeUndefined();
+    expect(orientGenotype('AG', {})).toBeUndefined();
+    expect(orientGenotype('AG', { alleles: ['A', 'C'] })).toBeUndefined();
+  });
+
+  it('reads risk alleles only once the strand is resolved', () => {
+    const site = { alleles: ['C', 'T'] };
+    expect(isStrandResolved(site, orientGenotype('AA', site))).toBe(true);
+    const palindromic = { alleles: ['A', 'T'] };
+    expect(isStrandResolved(palindromic, orientGenotype('AA', palindromic))).toBe(false);
+    expect(isStrandResolved(site, orientGenotype('AC', site))).toBe(false);
+    expect(isStrandResolved({}, undefined)).toBe(true);
+  });
+
+  it('reads risk alleles after flipping', () => {
+    const flippedList: SNPList = {
+      ...mockSNPList,
+      variants: [{ ...mockSNPList.variants[1]!, riskAllele: 'G', alleles: ['A', 'G'] }],
+    };
+    const minusStrand: ParseResult = {
+      ...mockParseResult,
+      variants: [{ rsid: 'rs4680', chromosome: '22', position: 19951271, genotype: 'CC' }],
+    };
+
+    const comt = extractVariants(minusStrand, flippedList).variants[0];
+    expect(comt?.genotype).toBe('GG');
+    expect(comt?.originalGenotype).toBe('CC');
+    expect(comt?.strand).toBe('flipped');
+    expect(comt?.riskAlleleCount).toBe(2);
+  });
+
+  it('leaves dosage unread at ambiguous sites', () => {
+    const palindromicList: SNPList = {
+      ...mockSNPList,
+      variants: [{ ...mockSNPList.variants[1]!, riskAllele: 'A', alleles: ['T', 'A'] }],
+    };
+    const fto: ParseResult = {
+      ...mockParseResult,
+      variants: [{ rsid: 'rs4680', chromosome: '22', position: 19951271, genotype: 'AA' }],
+    };
+
+    const variant = extractVariants(fto, palindromicList).variants[0];
+    expect(variant?.strand).toBe('ambiguous');
+    expect(variant?.riskAllele).toBe('A');
+    expect(variant?.riskAlleleCount).toBeUndefined();
+    expect(variant?.zygosity).toBeUndefined();
+  });
+});
+
+describe('APOE haplotype calling', () => {
+  const apoeList: SNPList = {
+    ...mockSNPList,
+    variants: [
+      {
+        rsid: 'rs429358',
+        gene: 'APOE',
+        category: 'lipids',
+        annotation: 'e4 determinant',
+        sources: ['ClinVar'],
+      },
+      {
+        rsid: 'rs7412',
+        gene: 'APOE',
+        category: 'lipids',
+        annotation: 'e2 determinant',
+        sources: ['ClinVar'],
+      },
+    ],
+  };
+
+  const withGenotypes = (rs429358: string, rs7412?: string): ParseResult => ({
+    ...mockParseResult,
+    variants: [
+      { rsid: 'rs429358', chromosome: '19', position: 45411941, genotype: rs429358 },
+      ...(rs7412 ? [{ rsid: 'rs7412', chromosome: '19', position: 45412079, genotype: rs7412 }] : []),
+    ],
+  });
+
+  const apoeCall = (rs429358: string, rs7412?: string) =>
+    extractVariants(withGenotypes(rs429358, rs7412), apoeList).haplotypes?.[0];
+
+  it('calls common diplotypes', () => {
+    expect(apoeCall('TT', 'CC')?.diplotype).toBe('e3/e3');
+    expect(apoeCall('CT', 'CC')?.diplotype).toBe('e3/e4');
+    expect(apoeCall('TT', 'CT')?.diplotype).toBe('e2/e3');
+    expect(apoeCall('CC', 'CC')?.diplotype).toBe('e4/e4');
+    expect(apoeCall('TT', 'TT')?.diplotype).toBe('e2/e2');
+  });
+
+  it('notes that e2/e4 may be e1/e3', () => {
+    const call = apoeCall('CT', 'CT');
+    expect(call?.diplotype).toBe('e2/e4');
+    expect(call?.note).toContain('e1/e3');
+  });
+
+  it('records the genotypes used', () => {
+    expect(apoeCall('CT', 'CC')?.genotypes).toEqual({ rs429358: 'CT', rs7412: 'CC' });
+  });
+
+  it('explains no-calls and missing SNPs', () => {
+    const noCall = apoeCall('--', 'CC');
+    expect(noCall?.diplotype).toBeNull();
+    expect(noCall?.note).toContain('rs429358 is a no-call');
+
+    const missing = apoeCall('TT');
+    expect(missing?.diplotype).toBeNull();
+    expect(missing?.note).toContain('rs7412');
+  });
+
+  it('skips genes with no defining SNPs in the extraction', () => {
+    expect(extractVariants(mockParseResult, mockSNPList).haplotypes).toBeUndefined();
+    expect(callHaplotypes({ variants: [], missing: [] })).toEqual([]);
+  });
+});
+
+describe('pharmacogenomic calling', () => {
+  // Build an extraction-like result from rsID -> genotype pairs
+  const resultWith = (genotypes: Record<string, string>, missing: string[] = []) => ({
+    variants: Object.entries(genotypes).map(([rsid, genotype]) => ({
+      rsid,
+      gene: 'TEST',
+      genotype,
+      category: 'drug_metabolism' as const,
+      annotation: '',
+      sources: [],
+      status: genotype === '--' ? ('no-call' as const) : ('found' as const),
+      matchedBy: 'rsid' as const,
+    })),
+    missing: missing.map((rsid) => ({
+      rsid,
+      gene: 'TEST',
+      category: 'drug_metabolism' as const,
+      reason: 'not-in-file' as const,
+    })),
+  });
+
+  const callFor = (gene: string, genotypes: Record<string, string>, missing: string[] = []) =>
+    callPharmacogenes(resultWith(genotypes, missing)).find((c) => c.gene === gene);
+
+  it('calls CYP2C19 diplotypes and phenotypes', () => {
+    const normal = callFor('CYP2C19', { rs4244285: 'GG', rs4986893: 'GG', rs12248560: 'CC' });
+    expect(normal?.diplotype).toBe('*1/*1');
+    expect(normal?.phenotype).toBe('normal-metabolizer');
+
+    const intermediate = callFor('CYP2C19', { rs4244285: 'GA', rs4986893: 'GG', rs12248560: 'CC' });
+    expect(intermediate?.diplotype).toBe('*1/*2');
+    expect(intermediate?.phenotype).toBe('intermediate-metabolizer');
+
+    const rapid = callFor('CYP2C19', { rs4244285: 'GG', rs4986893: 'GG', rs12248560: 'CT' });
+    expect(rapid?.diplotype).toBe('*1/*17');
+    expect(rapid?.phenotype).toBe('rapid-metabolizer');
+
+    const poor = callFor('CYP2C19', { rs4244285: 'AA', rs4986893: 'GG', rs12248560: 'CC' });
+    expect(poor?.phenotype).toBe('poor-metabolizer');
+  });
+
+  it('uses activity scores for CYP2C9', () => {
+    const call = callFor('CYP2C9', { rs1799853: 'CT', rs1057910: 'AC' });
+    expect(call?.diplotype).toBe('*2/*3');
+    expect(call?.activityScore).toBe(0.5);
+    expect(call?.phenotype).toBe('poor-metabolizer');
+  });
+
+  it('assigns shared CYP2D6 SNPs to the most specific allele first', () => {
+    const call = callFor('CYP2D6', { rs3892097: 'CT', rs1065852: 'AA', rs28371725: 'CC' });
+    expect(call?.diplotype).toBe('*4/*10');
+    expect(call?.phenotype).toBe('intermediate-metabolizer');
+    expect(call?.note).toContain('not detected');
+  });
+
+  it('reports missing defining SNPs and untested alleles', () => {
+    const call = callFor('CYP2C19', { rs4244285: 'GG', rs12248560: 'CC' }, ['rs4986893']);
+    expect(call?.diplotype).toBe('*1/*1');
+    expect(call?.missingSnps).toEqual(['rs4986893']);
+    expect(call?.note).toContain('*3');
+  });
+
+  it('makes no call when no defining SNP was genotyped', () => {
+    const call = callFor('SLCO1B1', { rs4149056: '--' });
+    expect(call?.diplotype).toBeNull();
+    expect(call?.phenotype).toBeNull();
+    expect(call?.missingSnps).toEqual(['rs4149056']);
+  });
+
+  it('covers transporter and drug target phenotypes', () => {
+    expect(callFor('SLCO1B1', { rs4149056: 'TC' })?.phenotype).toBe('decreased-function');
+    expect(callFor('VKORC1', { rs9923231: 'TT' })?.phenotype).toBe('high-sensitivity');
+    expect(callFor('VKORC1', { rs9923231: 'CT' })?.phenotype).toBe('increased-sensitivity');
+  });
+
+  it('skips genes with no defining SNPs in the extraction', () => {
+    expect(callFor('CYP2C9', { rs4244285: 'GG' })).toBeUndefined();
+    expect(extractVariants(mockParseResult, mockSNPList).pharmacogenomics).toBeUndefined();
+  });
+});
+
+describe('chip coverage', () => {
+  // Test chip that assays rs1801133, lacks rs777777 and says nothing of rs999999
+  const testManifests = {
+    '23andme-v5': { chip: 'Test chip', assays: { rs1801133: true, rs777777: false } },
+  };
+  const mergedParseResult = (formats: string[]): ParseResult => ({
+    ...mockParseResult,
+    merge: {
+      sources: formats.map((format, i) => ({ name: `file${i}`, format, variantCount: 5 })),
+      overlapping: 0,
+      filled: 0,
+      discordant: 0,
+    },
+  });
+
+  it('finds the bundled manifest for a chip format', () => {
+    const coverage = assessCoverage(mockParseResult);
+    expect(coverage.chip).toBe('23andMe v5 (Illumina Global Screening Array)');
+    expect(coverage.manifests).toHaveLength(1);
+  });
+
+  it('has no chip for VCF files', () => {
+    expect(assessCoverage({ ...mockParseResult, format: 'vcf' })).toEqual({});
+  });
+
+  it('marks SNPs the manifest lacks as not genotyped', () => {
+    const coverage = assessCoverage(mockParseResult, testManifests);
+
+    expect(missingReason(coverage, 'rs777777')).toBe('not-genotyped');
+    expect(missingReason(coverage, 'RS777777')).toBe('not-genotyped');
+    expect(missingReason(coverage, 'rs1801133')).toBe('not-in-file');
+    expect(missingReason(coverage, 'rs999999')).toBe('not-in-file');
+  });
+
+  it('falls back to not-in-file without a manifest', () => {
+    const coverage = assessCoverage({ ...mockParseResult, format: 'vcf' }, testManifests);
+    expect(missingReason(coverage, 'rs777777')).toBe('not-in-file');
+  });
+
+  it('needs every merged file to lack the SNP', () => {
+    const allChips = assessCoverage(mergedParseResult(['23andme-v5', '23andme-v5']), testManifests);
+    expect(allChips.chip).toBe('Test chip + Test chip');
+    expect(missingReason(allChips, 'rs777777')).toBe('not-genotyped');
+
+    const withVcf = assessCoverage(mergedParseResult(['23andme-v5', 'vcf']), testManifests);
+    expect(withVcf.chip).toBe('Test chip');
+    expect(withVcf.manifests).toBeUndefined();
+    expect(missingReason(withVcf, 'rs777777')).toBe('not-in-file');
+  });
+
+  it('reports listed SNPs off the chip as not genotyped when extracting', () => {
+    const apoeList: SNPList = {
+      ...mockSNPList,
+      variants: [{ ...mockSNPList.variants[0]!, rsid: 'rs429358', gene: 'APOE' }],
+    };
+    const withoutApoe = { ...mockParseResult, variants: mockParseResult.variants.slice(0, 2) };
+
+    const ftdna = extractVariants({ ...withoutApoe, format: 'ftdna' }, apoeList);
+    expect(ftdna.missing[0]?.reason).toBe('not-genotyped');
+    expect(ftdna.metadata.chip).toBe('FamilyTreeDNA Family Finder (Illumina OmniExpress)');
+
+    const v5 = extractVariants(withoutApoe, apoeList);
+    expect(v5.missing[0]?.reason).toBe('not-in-file');
+  });
+});
+
+describe('hemizygous X/Y handling', () => {
+  // Male AncestryDNA-style file: doubled X calls, Y calls present
+  const maleVariants = [
+    ...Array.from({ length: 20 }, (_, i) => ({
+      rsid: `rsx${i}`,
+      chromosome: 'X',
+      position: 10000000 + i,
+      genotype: 'AA',
+    })),
+    ...Array.from({ length: 10 }, (_, i) => ({
+      rsid: `rsy${i}`,
+      chromosome: 'Y',
+      position: 10000000 + i,
+      genotype: 'CC',
+    })),
+  ];
+  const xLinkedList: SNPList = {
+    ...mockSNPList,
+    variants: [
+      {
+        rsid: 'rsx0',
+        gene: 'XGENE',
+        category: 'other',
+        annotation: 'X-linked variant',
+        sources: ['Test'],
+        riskAllele: 'A',
+      },
+    ],
+  };
+  const maleParseResult: ParseResult = { ...mockParseResult, variants: maleVariants };
+
+  it('collapses doubled male X calls outside the PARs', () => {
+    expect(resolvePloidy('AA', 'X', 10000000, '37', 'male')).toEqual({
+      genotype: 'A',
+      hemizygous: true,
+    });
+    expect(resolvePloidy('AA', 'X', 60001, '37', 'male').hemizygous).toBe(false);
+    expect(resolvePloidy('AG', 'X', 10000000, '37', 'male').hemizygous).toBe(false);
+    expect(resolvePloidy('AA', 'X', 10000000, '37', 'female').hemizygous).toBe(false);
+    expect(resolvePloidy('A', 'X', 10000000, '37', 'unknown').hemizygous).toBe(true);
+  });
+
+  it('knows the pseudoautosomal regions per build', () => {
+    expect(isPseudoautosomal(2700000, '37')).toBe(false);
+    expect(isPseudoautosomal(2700000, '38')).toBe(true);
+    expect(isPseudoautosomal(155000000, '37')).toBe(true);
+  });
+
+  it('infers sex and reads X-linked dosage as one copy', () => {
+    const result = extractVariants(maleParseResult, xLinkedList);
+    const variant = result.variants[0];
+
+    expect(result.metadata.sex).toBe('male');
+    expect(result.metadata.sexSource).toBe('inferred');
+    expect(variant?.genotype).toBe('AA');
+    expect(variant?.hemizygous).toBe(true);
+    expect(variant?.riskAlleleCount).toBe(1);
+    expect(variant?.zygosity).toBe('hemizygous-risk');
+  });
+
+  it('lets the user override the inferred sex', () => {
+    const result = extractVariants(maleParseResult, xLinkedList, undefined, { sex: 'female' });
+    const variant = result.variants[0];
+
+    expect(result.metadata.sex).toBe('female');
+    expect(result.metadata.sexSource).toBe('user');
+    expect(variant?.hemizygous).toBeUndefined();
+    expect(variant?.riskAlleleCount).toBe(2);
+    expect(variant?.zygosity).toBe('homozygous-risk');
+  });
+});
+
+describe('polygenic scores', () => {
+  const score: ScoreDefinition = {
+    id: 'ldl',
+    name: 'LDL cholesterol',
+    category: 'lipids',
+    snps: [
+      { rsid: 'rs1', effectAllele: 'T', otherAllele: 'C', weight: 0.5 },
+      { rsid: 'rs2', effectAllele: 'G', otherAllele: 'A', weight: 0.25 },
+      { rsid: 'rs3', effectAllele: 'A', weight: 1, effectAlleleFrequency: 0.2 },
+      { rsid: 'rs4', effectAllele: 'C', weight: 2 },
+    ],
+  };
+  const lookup = createGenomeLookup([
+    { rsid: 'rs1', chromosome: '1', position: 1, genotype: 'TT' },
+    { rsid: 'rs2', chromosome: '1', position: 2, genotype: 'CT' }, // G on the other strand
+    { rsid: 'rs3', chromosome: '1', position: 3, genotype: '--' },
+  ]);
+
+  it('sums weighted effect allele copies and imputes from frequency', () => {
+    const [result] = calculateScores([score], lookup);
+
+    // 2 x 0.5 + 1 x 0.25 (flipped) + 0.4 x 1 (imputed)
+    expect(result).toEqual({
+      id: 'ldl',
+      name: 'LDL cholesterol',
+      category: 'lipids',
+      score: 1.65,
+      snpsTotal: 4,
+      snpsUsed: 2,
+      snpsImputed: 1,
+      snpsMissing: 1,
+      missingSnps: ['rs4'],
+    });
+  });
+
+  it('withholds the score when too few SNPs were genotyped', () => {
+    const [result] = calculateScores([score], createGenomeLookup(mockParseResult.variants));
+
+    expect(result?.score).toBeNull();
+    expect(result?.note).toContain('Only 0 of 4 SNPs were genotyped');
+  });
+
+  it('scores lists with score definitions in the extracted categories', () => {
+    const list: SNPList = { ...mockSNPList, scores: [score] };
+    const parse: ParseResult = {
+      ...mockParseResult,
+      variants: [
+        ...mockParseResult.variants,
+        { rsid: 'rs1', chromosome: '1', position: 1, genotype: 'CT' },
+      ],
+    };
+
+    expect(extractVariants(parse, list).scores?.[0]?.snpsUsed).toBe(1);
+    expect(extractVariants(parse, list, ['methylation']).scores).toBeUndefined();
+  });
+});
+
+describe('category subtrees and tags', () => {
+  const taxonomyList: SNPList = {
+    version: '2025.01',
+    generatedAt: '2025-01-23T00:00:00Z',
+    count: 3,
+    variants: [
+      {
+        rsid: 'rs1801133',
+        gene: 'MTHFR',
+        category: 'vitamins_minerals',
+        subcategory: 'folate',
+        tags: ['pregnancy'],
+        annotation: 'C677T variant',
+        sources: ['ClinVar'],
+      },
+      {
+        rsid: 'rs4680',
+        gene: 'COMT',
+        category: 'vitamins_minerals',
+        subcategory: 'vitamin_d/absorption',
+        annotation: 'Val158Met variant',
+        sources: ['PharmGKB'],
+      },
+      {
+        rsid: 'rs429358',
+        gene: 'APOE',
+        category: 'lipids',
+        tags: ['Pregnancy', 'cardio'],
+        annotation: 'APOE e4',
+        sources: ['ClinVar'],
+      },
+    ],
+  };
+
+  it('extracts a subcategory with everything below it', () => {
+    const result = extractVariants(mockParseResult, taxonomyList, ['vitamins_minerals/vitamin_d']);
+
+    expect(result.variants.map((v) => v.rsid)).toEqual(['rs4680']);
+    expect(result.variants[0]?.subcategory).toBe('vitamin_d/absorption');
+    expect(result.metadata.categoriesIncluded).toEqual(['vitamins_minerals/vitamin_d']);
+  });
+
+  it('does not treat a name prefix as a parent', () => {
+    const result = extractVariants(mockParseResult, taxonomyList, ['vitamins_minerals/vitamin']);
+    expect(result.variants).toHaveLength(0);
+  });
+
+  it('filters by tag regardless of case, within the selected categories', () => {
+    const tagged = extractVariants(mockParseResult, taxonomyList, undefined, {
+      tags: ['PREGNANCY'],
+    });
+    expect(tagged.variants.map((v) => v.rsid)).toEqual(['rs1801133', 'rs429358']);
+    expect(tagged.metadata.tagsIncluded).toEqual(['PREGNANCY']);
+
+    const narrowed = extractVariants(mockParseResult, taxonomyList, ['lipids'], {
+      tags: ['pregnancy'],
+    });
+    expect(narrowed.variants.map((v) => v.rsid)).toEqual(['rs429358']);
+    expect(narrowed.variants[0]?.tags).toEqual(['Pregnancy', 'cardio']);
+  });
+
+  it('previews counts per category path', () => {
+    const lookup = createGenomeLookup(mockParseResult.variants);
+    const preview = previewMatches(taxonomyList, ['vitamins_minerals/folate'], lookup, []);
+
+    expect(preview.byCategory.vitamins_minerals).toBe(2);
+    expect(preview.byPath).toEqual({
+      vitamins_minerals: 2,
+      'vitamins_minerals/folate': 1,
+      'vitamins_minerals/vitamin_d': 1,
+      'vitamins_minerals/vitamin_d/absorption': 1,
+      lipids: 1,
+    });
+    expect(preview.matched).toBe(1);
+  });
+});
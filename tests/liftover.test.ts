@@ -0,0 +1,80 @@
+/**
+ * Liftover tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeBuild,
+  detectBuild,
+  inferBuild,
+  liftPosition,
+  liftoverVariant,
+} from '../src/liftover';
+import { createGenomeLookup } from '../src/extractor/matcher';
+
+describe('normalizeBuild', () => {
+  it('accepts numbers and assembly names', () => {
+    expect(normalizeBuild('37')).toBe('37');
+    expect(normalizeBuild('GRCh38')).toBe('38');
+    expect(normalizeBuild('hg19')).toBe('37');
+    expect(normalizeBuild('NCBI36')).toBe('36');
+  });
+
+  it('returns undefined for unknown labels', () => {
+    expect(normalizeBuild(undefined)).toBeUndefined();
+    expect(normalizeBuild('35')).toBeUndefined();
+  });
+});
+
+describe('detectBuild', () => {
+  const grch38Lookup = createGenomeLookup([
+    { rsid: 'rs1801133', chromosome: '1', position: 11796321, genotype: 'CT' },
+    { rsid: 'rs429358', chromosome: '19', position: 44908684, genotype: 'TT' },
+    { rsid: 'rs7412', chromosome: '19', position: 44908822, genotype: 'CC' },
+  ]);
+
+  it('prefers the header build', () => {
+    expect(detectBuild('GRCh37', 'vcf', grch38Lookup)).toBe('37');
+  });
+
+  it('treats 23andMe v3 as build 36', () => {
+    expect(detectBuild(undefined, '23andme-v3', createGenomeLookup())).toBe('36');
+  });
+
+  it('infers the build from anchor positions', () => {
+    expect(detectBuild(undefined, 'vcf', grch38Lookup)).toBe('38');
+  });
+
+  it('needs more than one agreeing anchor', () => {
+    const single = createGenomeLookup([
+      { rsid: 'rs1801133', chromosome: '1', position: 11796321, genotype: 'CT' },
+    ]);
+    expect(inferBuild(single)).toBeUndefined();
+  });
+});
+
+describe('liftPosition', () => {
+  it('lifts anchored positions between builds', () => {
+    expect(liftPosition('1', 11796321, '38', '37')).toBe(11856378);
+    expect(liftPosition('chr19', 50103781, '36', '37')).toBe(45411941);
+    expect(liftPosition('19', 45412079, '37', '38')).toBe(44908822);
+  });
+
+  it('returns undefined for positions without an anchor', () => {
+    expect(liftPosition('1', 12345, '38', '37')).toBeUndefined();
+  });
+
+  it('returns the position unchanged within a build', () => {
+    expect(liftPosition('1', 12345, '37', '37')).toBe(12345);
+  });
+});
+
+describe('liftoverVariant', () => {
+  it('copies the variant with the lifted position', () => {
+    const variant = { rsid: '19:44908684', chromosome: '19', position: 44908684, genotype: 'CT' };
+    const lifted = liftoverVariant(variant, '38', '37');
+
+    expect(lifted).toEqual({ ...variant, position: 45411941 });
+    expect(variant.position).toBe(44908684);
+  });
+});
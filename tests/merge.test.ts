@@ -0,0 +1,158 @@
+/**
+ * Merge tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeParseResults } from '../src/merge';
+import { assessCoverage, extractVariants } from '../src/extractor';
+import type { GenomeFormat, GenomeVariant, ParseResult, SNPList } from '../src/types';
+import { ParseError } from '../src/types';
+
+function parseResultOf(
+  format: GenomeFormat,
+  variants: GenomeVariant[],
+  metadata: ParseResult['metadata'] = {}
+): ParseResult {
+  return { format, variants, metadata };
+}
+
+const v = (rsid: string, genotype: string, position = 1): GenomeVariant => ({
+  rsid,
+  chromosome: '1',
+  position,
+  genotype,
+});
+
+const snpList: SNPList = {
+  version: '2025.01',
+  generatedAt: '2025-01-23T00:00:00Z',
+  count: 2,
+  variants: [
+    {
+      rsid: 'rs1',
+      gene: 'GENE1',
+      category: 'methylation',
+      annotation: 'Test variant 1',
+      sources: ['Test'],
+    },
+    {
+      rsid: 'rs2',
+      gene: 'GENE2',
+      category: 'methylation',
+      annotation: 'Test variant 2',
+      sources: ['Test'],
+    },
+  ],
+};
+
+describe('mergeParseResults', () => {
+  it('combines SNPs only one file has', () => {
+    const merged = mergeParseResults([
+      { name: 'a.txt', result: parseResultOf('23andme-v5', [v('rs1', 'AG')]) },
+      { name: 'b.txt', result: parseResultOf('ancestry', [v('rs2', 'CC')]) },
+    ]);
+
+    expect(merged.format).toBe('23andme-v5');
+    expect(merged.variants.map((x) => [x.rsid, x.provenance?.source])).toEqual([
+      ['rs1', 'a.txt'],
+      ['rs2', 'b.txt'],
+    ]);
+    expect(merged.merge).toMatchObject({ overlapping: 0, filled: 0, discordant: 0 });
+    expect(merged.merge?.sources.map((s) => s.variantCount)).toEqual([1, 1]);
+  });
+
+  it('fills no-calls from a later file', () => {
+    const merged = mergeParseResults([
+      { name: 'a.txt', result: parseResultOf('23andme-v5', [v('rs1', '--')]) },
+      { name: 'b.txt', result: parseResultOf('ancestry', [v('rs1', 'AG')]) },
+    ]);
+
+    expect(merged.variants).toHaveLength(1);
+    expect(merged.variants[0]?.genotype).toBe('AG');
+    expect(merged.variants[0]?.provenance).toEqual({
+      source: 'b.txt',
+      filled: true,
+      calls: [
+        { source: 'a.txt', genotype: '--' },
+        { source: 'b.txt', genotype: 'AG' },
+      ],
+    });
+    expect(merged.merge).toMatchObject({ overlapping: 1, filled: 1, discordant: 0 });
+  });
+
+  it('keeps the first call and flags discordant genotypes', () => {
+    const merged = mergeParseResults([
+      { name: 'a.txt', result: parseResultOf('23andme-v5', [v('rs1', 'AG')]) },
+      { name: 'b.txt', result: parseResultOf('ancestry', [v('rs1', 'GG')]) },
+    ]);
+
+    expect(merged.variants[0]?.genotype).toBe('AG');
+    expect(merged.variants[0]?.provenance).toMatchObject({ source: 'a.txt', discordant: true });
+    expect(merged.merge?.discordant).toBe(1);
+  });
+
+  it('treats allele order and haploid notation as the same call', () => {
+    const merged = mergeParseResults([
+      { name: 'a.txt', result: parseResultOf('23andme-v5', [v('rs1', 'AG'), v('rs2', 'A')]) },
+      { name: 'b.txt', result: parseResultOf('ancestry', [v('rs1', 'GA'), v('rs2', 'AA')]) },
+    ]);
+
+    expect(merged.variants.some((x) => x.provenance?.discordant)).toBe(false);
+    expect(merged.merge?.overlapping).toBe(2);
+  });
+
+  it('prefixes warnings and tags diagnostics with their file', () => {
+    const first = parseResultOf('23andme-v5', [v('rs1', 'AG')]);
+    first.warnings = ['1 line(s) could not be parsed'];
+    first.diagnostics = [
+      { code: 'bad-position', severity: 'error', line: 4, message: 'bad', excerpt: 'x' },
+    ];
+
+    const merged = mergeParseResults([
+      { name: 'a.txt', result: first },
+      { name: 'b.txt', result: parseResultOf('ancestry', []) },
+    ]);
+
+    expect(merged.warnings).toEqual(['a.txt: 1 line(s) could not be parsed']);
+    expect(merged.diagnostics?.[0]?.source).toBe('a.txt');
+  });
+
+  it('refuses files on different builds', () => {
+    const files = [
+      { name: 'a.txt', result: parseResultOf('23andme-v3', [v('rs1', 'AG')]) },
+      { name: 'b.vcf', result: parseResultOf('vcf', [v('rs1', 'AG')], { build: '38' }) },
+    ];
+
+    expect(() => mergeParseResults(files)).toThrow(ParseError);
+    expect(() => mergeParseResults(files)).toThrow('different reference builds');
+  });
+
+  it('rejects an empty file list', () => {
+    expect(() => mergeParseResults([])).toThrow(ParseError);
+  });
+});
+
+describe('merged extraction', () => {
+  const merged = mergeParseResults([
+    { name: 'a.txt', result: parseResultOf('23andme-v5', [v('rs1', '--'), v('rs2', 'CT', 2)]) },
+    { name: 'b.txt', result: parseResultOf('ancestry', [v('rs1', 'AG'), v('rs2', 'TT', 2)]) },
+  ]);
+
+  it('records provenance on matched variants', () => {
+    const result = extractVariants(merged, snpList);
+
+    expect(result.metadata.mergedFrom?.map((s) => s.name)).toEqual(['a.txt', 'b.txt']);
+    const [rs1, rs2] = result.variants;
+    expect(rs1?.status).toBe('found');
+    expect(rs1?.provenance).toMatchObject({ source: 'b.txt', filled: true });
+    expect(rs2?.provenance).toMatchObject({ source: 'a.txt', discordant: true });
+  });
+
+  it('names every chip and keeps a manifest for each file', () => {
+    const coverage = assessCoverage(merged);
+    expect(coverage.chip).toBe(
+      '23andMe v5 (Illumina Global Screening Array) + AncestryDNA (Illumina OmniExpress / GSA)'
+    );
+    expect(coverage.manifests).toHaveLength(2);
+  });
+});
@@ -4,7 +4,9 @@
 
 import { describe, it, expect } from 'vitest';
 import { toYAML, generateFilename, calculateSize } from '../src/output/yaml';
-import type { ExtractionResult } from '../src/types';
+import { toComparisonYAML, generateComparisonFilename } from '../src/output/comparison';
+import { toListDiffJSON, toListDiffMarkdown, toListDiffText } from '../src/output/list-diff';
+import type { ComparisonResult, ExtractionResult, SNPListDiff } from '../src/types';
 
 const mockResult: ExtractionResult = {
   metadata: {
@@ -25,6 +27,7 @@ const mockResult: ExtractionResult = {
       annotation: 'C677T variant',
       sources: ['ClinVar', 'PharmGKB'],
       status: 'found',
+      matchedBy: 'rsid',
     },
     {
       rsid: 'rs4680',
@@ -34,6 +37,7 @@ const mockResult: ExtractionResult = {
       annotation: 'Val158Met variant',
       sources: ['SNPedia'],
       status: 'no-call',
+      matchedBy: 'rsid',
     },
   ],
   missing: [
@@ -52,6 +56,66 @@ const mockResult: ExtractionResult = {
   },
 };
 
+// Same result with the first variant interpreted against a risk allele
+const riskResult: ExtractionResult = {
+  ...mockResult,
+  variants: [
+    { ...mockResult.variants[0]!, riskAllele: 'T', riskAlleleCount: 1, zygosity: 'heterozygous' },
+    mockResult.variants[1]!,
+  ],
+};
+
+// Same result with an APOE call
+const haplotypeResult: ExtractionResult = {
+  ...mockResult,
+  haplotypes: [{ gene: 'APOE', diplotype: 'e3/e4', genotypes: { rs429358: 'CT', rs7412: 'CC' } }],
+};
+
+// Same result with a CYP2C19 call
+const pgxResult: ExtractionResult = {
+  ...mockResult,
+  pharmacogenomics: [
+    {
+      gene: 'CYP2C19',
+      diplotype: '*1/*2',
+      phenotype: 'intermediate-metabolizer',
+      activityScore: 1,
+      genotypes: { rs4244285: 'GA', rs12248560: 'CC' },
+      missingSnps: ['rs4986893'],
+      note: 'Not tested (defining SNPs missing): *3.',
+    },
+  ],
+};
+
+// Same result from a chip whose manifest lacks the absent SNP
+const chipResult: ExtractionResult = {
+  ...mockResult,
+  metadata: {
+    ...mockResult.metadata,
+    chip: '23andMe v5 (Illumina Global Screening Array)',
+  },
+  missing: [{ ...mockResult.missing[0]!, reason: 'not-genotyped' }],
+};
+
+// Same result with a QC report attached
+const qcResult: ExtractionResult = {
+  ...mockResult,
+  qc: {
+    totalVariants: 650000,
+    calledVariants: 643500,
+    noCalls: 6500,
+    callRate: 0.99,
+    heterozygosityRate: 0.3123,
+    indels: 1200,
+    duplicateCount: 1,
+    duplicateRsids: ['rs123'],
+    unparseableLineCount: 0,
+    unparseableLines: [],
+    chromosomes: [{ chromosome: '1', variants: 50000, noCalls: 500, callRate: 0.99 }],
+    sexChromosomes: { status: 'male-pattern', xHeterozygosityRate: 0.01, yCallRate: 0.95 },
+  },
+};
+
 describe('toYAML', () => {
   it('generates valid YAML string', () => {
     const yaml = toYAML(mockResult);
@@ -90,6 +154,86 @@ describe('toYAML', () => {
     expect(yaml).toContain('status: no-call');
   });
 
+  it('notes position-based matches', () => {
+    const positionResult: ExtractionResult = {
+      ...mockResult,
+      variants: [{ ...mockResult.variants[0]!, matchedBy: 'position' }],
+    };
+    expect(toYAML(positionResult)).toContain('matched_by: position');
+    expect(toYAML(mockResult)).not.toContain('matched_by:');
+  });
+
+  it('includes risk allele copies and zygosity', () => {
+    const yaml = toYAML(riskResult);
+    expect(yaml).toContain('risk_allele: T');
+    expect(yaml).toContain('risk_allele_copies: 1');
+    expect(yaml).toContain('zygosity: heterozygous');
+    expect(toYAML(mockResult)).not.toContain('zygosity:');
+  });
+
+  it('notes flipped and ambiguous strands', () => {
+    const strandResult: ExtractionResult = {
+      ...mockResult,
+      variants: [
+        { ...mockResult.variants[0]!, genotype: 'GA', originalGenotype: 'CT', strand: 'flipped' },
+        { ...mockResult.variants[1]!, strand: 'forward' },
+      ],
+    };
+    const yaml = toYAML(strandResult);
+    expect(yaml).toContain('strand: flipped');
+    expect(yaml).toContain('original_genotype: CT');
+    expect(yaml).not.toContain('strand: forward');
+    expect(toYAML(strandResult, 'compact')).toContain('strand: flipped');
+    expect(toYAML(strandResult, 'minimal')).toContain('rs1801133,MTHFR,GA,,,,flipped');
+  });
+
+  it('includes haplotypes section', () => {
+    const yaml = toYAML(haplotypeResult);
+    expect(yaml).toContain('haplotypes:');
+    expect(yaml).toContain('diplotype: e3/e4');
+    expect(yaml).toContain('rs429358: CT');
+    expect(toYAML(mockResult)).not.toContain('haplotypes:');
+  });
+
+  it('includes pharmacogenomics section', () => {
+    const yaml = toYAML(pgxResult);
+    expect(yaml).toContain('pharmacogenomics:');
+    expect(yaml).toContain('phenotype: intermediate-metabolizer');
+    expect(yaml).toContain('activity_score: 1');
+    expect(yaml).toContain('missing_snps:');
+    expect(toYAML(mockResult)).not.toContain('pharmacogenomics:');
+  });
+
+  it('includes genome builds when known', () => {
+    const builtResult: ExtractionResult = {
+      ...mockResult,
+      metadata: { ...mockResult.metadata, sourceBuild: '38', targetBuild: '37' },
+    };
+    const yaml = toYAML(builtResult);
+    expect(yaml).toContain('source_build: "38"');
+    expect(yaml).toContain('target_build: "37"');
+  });
+
+  it('includes subcategories, tags and the tag filter when set', () => {
+    const taggedResult: ExtractionResult = {
+      ...mockResult,
+      metadata: {
+        ...mockResult.metadata,
+        categoriesIncluded: ['vitamins_minerals/folate'],
+        tagsIncluded: ['pregnancy'],
+      },
+      variants: [
+        { ...mockResult.variants[0]!, subcategory: 'folate', tags: ['pregnancy', 'cardio'] },
+      ],
+    };
+    const yaml = toYAML(taggedResult);
+    expect(yaml).toContain('- vitamins_minerals/folate');
+    expect(yaml).toContain('tags_included:\n    - pregnancy');
+    expect(yaml).toContain('subcategory: folate');
+    expect(yaml).toContain('tags:\n      - pregnancy\n      - cardio');
+    expect(toYAML(mockResult)).not.toContain('subcategory:');
+  });
+
   it('includes missing variants section', () => {
     const yaml = toYAML(mockResult);
     expect(yaml).toContain('missing_variants:');
@@ -134,6 +278,21 @@ describe('toYAML compact format', () => {
     expect(yaml).not.toContain('category:');
   });
 
+  it('includes risk allele copies when known', () => {
+    const yaml = toYAML(riskResult, 'compact');
+    expect(yaml).toContain('risk_copies: 1');
+    expect(yaml).toContain('zygosity: heterozygous');
+  });
+
+  it('includes haplotypes as gene to diplotype', () => {
+    const yaml = toYAML(haplotypeResult, 'compact');
+    expect(yaml).toContain('APOE: e3/e4');
+  });
+
+  it('includes pharmacogenomics as gene to call', () => {
+    expect(toYAML(pgxResult, 'compact')).toContain("CYP2C19: '*1/*2 intermediate-metabolizer'");
+  });
+
   it('lists missing variants as rsid only', () => {
     const yaml = toYAML(mockResult, 'compact');
     expect(yaml).toContain('missing:');
@@ -154,6 +313,23 @@ describe('toYAML minimal format', () => {
     expect(csv).toContain('rs4680,COMT,--');
   });
 
+  it('includes haplotype comments', () => {
+    const csv = toYAML(haplotypeResult, 'minimal');
+    expect(csv).toContain('# haplotype: APOE=e3/e4');
+  });
+
+  it('includes pharmacogenomics comments', () => {
+    const csv = toYAML(pgxResult, 'minimal');
+    expect(csv).toContain('# pgx: CYP2C19=*1/*2 intermediate-metabolizer');
+  });
+
+  it('includes risk allele columns', () => {
+    const csv = toYAML(riskResult, 'minimal');
+    expect(csv).toContain('# rsid,gene,genotype,risk_allele,risk_copies,zygosity,strand');
+    expect(csv).toContain('rs1801133,MTHFR,CT,T,1,heterozygous,');
+    expect(csv).toContain('rs4680,COMT,--,,,,');
+  });
+
   it('generates smallest output', () => {
     const detailed = toYAML(mockResult, 'detailed');
     const compact = toYAML(mockResult, 'compact');
@@ -217,3 +393,368 @@ describe('calculateSize', () => {
     expect(size).toMatch(/^\d+\.\d MB$/);
   });
 });
+
+describe('not-genotyped SNPs', () => {
+  it('records the chip and a re-testing note in detailed output', () => {
+    const output = toYAML(chipResult, 'detailed');
+    expect(output).toContain('chip: 23andMe v5 (Illumina Global Screening Array)');
+    expect(output).toContain('coverage_note:');
+    expect(output).toContain('reason: not-genotyped');
+  });
+
+  it('leaves out the note when nothing is not-genotyped', () => {
+    expect(toYAML(mockResult, 'detailed')).not.toContain('coverage_note');
+  });
+
+  it('lists them apart from missing SNPs in compact output', () => {
+    const output = toYAML(chipResult, 'compact');
+    expect(output).toContain('not_genotyped:\n  - rs777777');
+    expect(output).not.toContain('missing:');
+  });
+
+  it('lists them in a separate minimal comment', () => {
+    const csv = toYAML(chipResult, 'minimal');
+    expect(csv).toContain('# not-genotyped: rs777777');
+    expect(csv).not.toContain('# missing:');
+  });
+});
+
+describe('QC report section', () => {
+  it('is left out unless a report is attached', () => {
+    expect(toYAML(mockResult, 'detailed')).not.toContain('qc:');
+    expect(toYAML(mockResult, 'minimal')).not.toContain('# qc:');
+  });
+
+  it('includes the full report in detailed output', () => {
+    const output = toYAML(qcResult, 'detailed');
+    expect(output).toContain('qc:\n  call_rate: 0.99');
+    expect(output).toContain('duplicate_examples:\n    - rs123');
+    expect(output).toContain('status: male-pattern');
+    expect(output).toContain('chromosome: "1"');
+    expect(output).not.toContain('unparseable_line_numbers');
+  });
+
+  it('includes headline figures in compact output', () => {
+    const output = toYAML(qcResult, 'compact');
+    expect(output).toContain('sex_check: male-pattern');
+    expect(output).not.toContain('chromosomes:');
+  });
+
+  it('includes a qc comment in minimal output', () => {
+    expect(toYAML(qcResult, 'minimal')).toContain(
+      '# qc: call_rate=0.99,heterozygosity_rate=0.3123,indels=1200,duplicate_ids=1,unparseable_lines=0,sex_check=male-pattern'
+    );
+  });
+});
+
+describe('chromosomal sex and hemizygous calls', () => {
+  const sexResult: ExtractionResult = {
+    ...mockResult,
+    metadata: { ...mockResult.metadata, sex: 'male', sexSource: 'inferred' },
+    variants: [
+      {
+        ...mockResult.variants[0]!,
+        rsid: 'rs5030868',
+        gene: 'G6PD',
+        genotype: 'A',
+        riskAllele: 'A',
+        riskAlleleCount: 1,
+        zygosity: 'hemizygous-risk',
+        hemizygous: true,
+      },
+    ],
+  };
+
+  it('records the sex in metadata and flags hemizygous calls', () => {
+    const output = toYAML(sexResult, 'detailed');
+    expect(output).toContain('chromosomal_sex: male');
+    expect(output).toContain('chromosomal_sex_source: inferred');
+    expect(output).toContain('hemizygous: true');
+    expect(output).toContain('zygosity: hemizygous-risk');
+  });
+
+  it('includes the sex in compact and minimal output', () => {
+    expect(toYAML(sexResult, 'compact')).toContain('sex: male');
+    const csv = toYAML(sexResult, 'minimal');
+    expect(csv).toContain('# sex: male (inferred)');
+    expect(csv).toContain('rs5030868,G6PD,A,A,1,hemizygous-risk,');
+  });
+});
+
+describe('merged files', () => {
+  const mergedResult: ExtractionResult = {
+    ...mockResult,
+    metadata: {
+      ...mockResult.metadata,
+      mergedFrom: [
+        { name: 'a.txt', format: '23andme-v5', variantCount: 640000, build: 37 },
+        { name: 'b.txt', format: 'ancestry', variantCount: 700000 },
+      ],
+    },
+    variants: [
+      { ...mockResult.variants[0]!, provenance: { source: 'a.txt' } },
+      {
+        ...mockResult.variants[1]!,
+        genotype: 'AG',
+        status: 'found',
+        provenance: {
+          source: 'a.txt',
+          discordant: true,
+          calls: [
+            { source: 'a.txt', genotype: 'AG' },
+            { source: 'b.txt', genotype: 'GG' },
+          ],
+        },
+      },
+    ],
+  };
+
+  it('records the sources and per-variant provenance in detailed output', () => {
+    const output = toYAML(mergedResult, 'detailed');
+    expect(output).toContain('merged_from:');
+    expect(output).toContain('file: b.txt');
+    expect(output).toContain('variants_discordant: 1');
+    expect(output).toContain('source: a.txt');
+    expect(output).toMatch(/discordant: true\n\s+calls:\n\s+a\.txt: AG\n\s+b\.txt: GG/);
+  });
+
+  it('flags discordant calls in compact and minimal output', () => {
+    const compact = toYAML(mergedResult, 'compact');
+    expect(compact).toContain('- a.txt');
+    expect(compact).toContain('discordant: true');
+
+    const csv = toYAML(mergedResult, 'minimal');
+    expect(csv).toContain('# sources: a.txt, b.txt');
+    expect(csv).toContain('# discordant: rs4680');
+  });
+
+  it('leaves provenance out for a single file', () => {
+    const output = toYAML(mockResult, 'detailed');
+    expect(output).not.toContain('merged_from');
+    expect(output).not.toContain('source: ');
+  });
+});
+
+describe('toComparisonYAML', () => {
+  const person = {
+    sourceFormat: '23andme-v5',
+    found: 1,
+    noCall: 0,
+    missing: 1,
+  } as const;
+  const comparison: ComparisonResult = {
+    metadata: {
+      tool: 'GenomeGist',
+      version: '1.0.0',
+      date: '2025-01-23T12:00:00Z',
+      snpListVersion: '2025.01',
+      disclaimer: 'Test disclaimer',
+      first: { ...person, name: 'alex.txt', chip: '23andMe v5' },
+      second: { ...person, name: 'sam.txt' },
+    },
+    summary: { shared: 0, different: 1, onlyFirst: 1, onlySecond: 0, neither: 0, total: 2 },
+    categories: [
+      { category: 'methylation', shared: 0, different: 1, onlyFirst: 1, onlySecond: 0, neither: 0 },
+    ],
+    variants: [
+      {
+        rsid: 'rs1801133',
+        gene: 'MTHFR',
+        category: 'methylation',
+        status: 'different',
+        first: { status: 'found', genotype: 'CT' },
+        second: { status: 'found', genotype: 'TT' },
+      },
+      {
+        rsid: 'rs1801131',
+        gene: 'MTHFR',
+        category: 'methylation',
+        status: 'only-first',
+        first: { status: 'found', genotype: 'AC' },
+        second: { status: 'not-genotyped' },
+      },
+    ],
+  };
+
+  it('describes both people and the overall counts', () => {
+    const output = toComparisonYAML(comparison);
+    expect(output).toContain('name: alex.txt');
+    expect(output).toContain('chip: 23andMe v5');
+    expect(output).toContain('total_compared: 2');
+    expect(output).toContain('only_first: 1');
+  });
+
+  it("lists each category's SNPs with both calls", () => {
+    const output = toComparisonYAML(comparison);
+    expect(output).toMatch(/- category: methylation\n\s+shared: 0\n\s+different: 1/);
+    expect(output).toMatch(
+      /rsid: rs1801133\n\s+gene: MTHFR\n\s+status: different\n\s+first: CT\n\s+second: TT/
+    );
+    expect(output).toContain('second: not-genotyped');
+  });
+
+  it('generates a dated .yaml filename', () => {
+    expect(generateComparisonFilename()).toMatch(/^genome-comparison-\d{4}-\d{2}-\d{2}\.yaml$/);
+  });
+});
+
+describe('trio section', () => {
+  const trioResult: ExtractionResult = {
+    ...mockResult,
+    trio: {
+      mother: 'mother.txt',
+      father: 'father.txt',
+      status: 'consistent',
+      compared: 600000,
+      mendelianErrors: 120,
+      errorRate: 0.0002,
+      motherIncompatible: 40,
+      fatherIncompatible: 50,
+      variants: [
+        {
+          rsid: 'rs1801133',
+          gene: 'MTHFR',
+          child: 'CT',
+          mother: 'CC',
+          father: 'TT',
+          mendelianError: false,
+          maternalAllele: 'C',
+          paternalAllele: 'T',
+          riskAlleleFrom: 'father',
+        },
+      ],
+    },
+  };
+
+  it('is left out without parents', () => {
+    expect(toYAML(mockResult, 'detailed')).not.toContain('trio:');
+  });
+
+  it('includes checks and allele origins in detailed output', () => {
+    const output = toYAML(trioResult, 'detailed');
+    expect(output).toContain('status: consistent');
+    expect(output).toContain('mendelian_errors: 120');
+    expect(output).toContain('paternal_allele: T');
+    expect(output).toContain('risk_allele_from: father');
+    expect(output).not.toContain('mendelian_error: true');
+  });
+
+  it('summarizes in compact and minimal output', () => {
+    expect(toYAML(trioResult, 'compact')).toMatch(/risk_allele_from:\n\s+rs1801133: father/);
+    const csv = toYAML(trioResult, 'minimal');
+    expect(csv).toContain('# trio: status=consistent,snps_compared=600000,mendelian_errors=120');
+    expect(csv).toContain('# risk_allele_from: rs1801133=father');
+  });
+});
+
+describe('polygenic scores', () => {
+  const scoreResult: ExtractionResult = {
+    ...mockResult,
+    scores: [
+      {
+        id: 'ldl',
+        name: 'LDL cholesterol',
+        category: 'lipids',
+        score: 1.65,
+        snpsTotal: 4,
+        snpsUsed: 2,
+        snpsImputed: 1,
+        snpsMissing: 1,
+        missingSnps: ['rs4'],
+      },
+      {
+        id: 'cad',
+        name: 'Coronary artery disease',
+        category: 'cardiovascular',
+        score: null,
+        snpsTotal: 10,
+        snpsUsed: 2,
+        snpsImputed: 0,
+        snpsMissing: 8,
+        note: 'Only 2 of 10 SNPs were genotyped; at least 5 are needed for a score.',
+      },
+    ],
+  };
+
+  it('includes scores with SNP counts in detailed output', () => {
+    const output = toYAML(scoreResult, 'detailed');
+    expect(output).toContain('polygenic_scores:');
+    expect(output).toMatch(
+      /id: ldl\n\s+name: LDL cholesterol\n\s+category: lipids\n\s+score: 1\.65/
+    );
+    expect(output).toContain('snps_imputed: 1');
+    expect(output).toContain('score: null');
+  });
+
+  it('summarizes scores in compact and minimal output', () => {
+    expect(toYAML(scoreResult, 'compact')).toContain('ldl: 1.65 (2/4 SNPs, 1 imputed)');
+    const csv = toYAML(scoreResult, 'minimal');
+    expect(csv).toContain('# score: ldl=1.65 (2/4 SNPs, 1 imputed)');
+    expect(csv).toContain('# score: cad=unknown');
+  });
+});
+
+describe('SNP list diff renderers', () => {
+  const diff: SNPListDiff = {
+    fromVersion: '2025.01',
+    toVersion: '2025.02',
+    summary: { added: 1, removed: 1, recategorized: 1, edited: 1, unchanged: 10 },
+    added: [
+      {
+        rsid: 'rs429358',
+        gene: 'APOE',
+        category: 'lipids',
+        annotation: 'APOE e4 | marker',
+        sources: ['ClinVar'],
+      },
+    ],
+    removed: [
+      { rsid: 'rs762551', gene: 'CYP1A2', category: 'detoxification', annotation: '', sources: [] },
+    ],
+    changed: [
+      {
+        rsid: 'rs1801133',
+        gene: 'MTHFR',
+        changes: [
+          { field: 'category', before: 'methylation', after: 'cardiovascular' },
+          { field: 'riskAllele', before: 'A', after: 'G' },
+          { field: 'sources', before: ['ClinVar'], after: ['ClinVar', 'PharmGKB'] },
+        ],
+      },
+    ],
+  };
+
+  it('renders text grouped by kind of change', () => {
+    const text = toListDiffText(diff);
+
+    expect(text).toContain('SNP list 2025.01 -> 2025.02');
+    expect(text).toContain('1 added, 1 removed, 1 recategorized, 1 edited, 10 unchanged');
+    expect(text).toContain('Added:\n  + rs429358  APOE  lipids');
+    expect(text).toContain('Removed:\n  - rs762551  CYP1A2  detoxification');
+    expect(text).toContain('Recategorized:\n  ~ rs1801133  MTHFR  methylation -> cardiovascular');
+    expect(text).toContain(
+      'Edited:\n  ~ rs1801133  MTHFR  riskAllele: A -> G; sources: ClinVar -> ClinVar, PharmGKB'
+    );
+  });
+
+  it('renders Markdown tables, escaping pipes', () => {
+    const markdown = toListDiffMarkdown(diff);
+
+    expect(markdown).toContain('# SNP list changes: 2025.01 → 2025.02');
+    expect(markdown).toContain('## Added (1)');
+    expect(markdown).toContain('| rs429358 | APOE | lipids | APOE e4 \\| marker |');
+    expect(markdown).toContain('## Edited (1)');
+    expect(markdown).toContain('| rs1801133 | MTHFR | riskAllele | A | G |');
+    expect(markdown).toContain('| rs1801133 | MTHFR | sources | ClinVar | ClinVar, PharmGKB |');
+  });
+
+  it('skips empty sections', () => {
+    const empty = { ...diff, added: [], summary: { ...diff.summary, added: 0 } };
+    expect(toListDiffText(empty)).not.toContain('Added:');
+    expect(toListDiffMarkdown(empty)).not.toContain('## Added');
+  });
+
+  it('renders JSON that round-trips', () => {
+    expect(JSON.parse(toListDiffJSON(diff))).toEqual(diff);
+  });
+});
@@ -8,14 +8,24 @@ import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { detectFormat } from '../src/parser/detector';
 import { parse23andMe } from '../src/parser/23andme';
+import { parseMyHeritage, parseFTDNA } from '../src/parser/csv';
+import { parseVCF } from '../src/parser/vcf';
+import { decodeGenomeFile, isCompressed, openGenomeStream } from '../src/parser/archive';
+import { createStreamParser, parseGenomeStream, parseGenomeChunks } from '../src/parser/stream';
+import { Readable } from 'node:stream';
+import type { ParseProgress } from '../src/types';
+import { ParseError } from '../src/types';
 import { parseGenomeFile } from '../src/parser';
 
 // Get __dirname equivalent for ES modules
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Load test fixture
+// Load test fixtures
 const sampleFile = readFileSync(join(__dirname, 'fixtures/sample-23andme.txt'), 'utf-8');
+const myHeritageFile = readFileSync(join(__dirname, 'fixtures/sample-myheritage.csv'), 'utf-8');
+const ftdnaFile = readFileSync(join(__dirname, 'fixtures/sample-ftdna.csv'), 'utf-8');
+const vcfFile = readFileSync(join(__dirname, 'fixtures/sample.vcf'), 'utf-8');
 
 describe('detectFormat', () => {
   it('detects 23andMe v5 format', () => {
@@ -28,6 +38,18 @@ describe('detectFormat', () => {
     expect(detectFormat(content)).toBe('23andme-v5');
   });
 
+  it('detects MyHeritage format', () => {
+    expect(detectFormat(myHeritageFile)).toBe('myheritage');
+  });
+
+  it('detects FTDNA format from CSV header without comments', () => {
+    expect(detectFormat(ftdnaFile)).toBe('ftdna');
+  });
+
+  it('detects VCF format', () => {
+    expect(detectFormat(vcfFile)).toBe('vcf');
+  });
+
   it('returns unknown for unrecognized format', () => {
     const content = 'some random content\nwithout headers';
     expect(detectFormat(content)).toBe('unknown');
@@ -89,6 +111,218 @@ describe('parse23andMe', () => {
   });
 });
 
+describe('parseMyHeritage', () => {
+  it('parses sample file successfully', () => {
+    const result = parseMyHeritage(myHeritageFile);
+    expect(result.format).toBe('myheritage');
+    expect(result.variants.length).toBe(8);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('extracts metadata from header', () => {
+    const result = parseMyHeritage(myHeritageFile);
+    expect(result.metadata.generatedAt).toBe('2024-03-12 10:15:22');
+    expect(result.metadata.build).toBe('37');
+  });
+
+  it('strips quotes from fields', () => {
+    const result = parseMyHeritage(myHeritageFile);
+    const mthfr = result.variants.find(v => v.rsid === 'rs1801133');
+
+    expect(mthfr?.chromosome).toBe('1');
+    expect(mthfr?.position).toBe(11856378);
+    expect(mthfr?.genotype).toBe('CT');
+  });
+
+  it('handles no-call and hemizygous genotypes', () => {
+    const result = parseMyHeritage(myHeritageFile);
+    expect(result.variants.find(v => v.rsid === 'rs1800497')?.genotype).toBe('--');
+    expect(result.variants.find(v => v.rsid === 'rs3094315')?.genotype).toBe('A');
+  });
+
+  it('reports unparseable lines as warnings', () => {
+    const content = myHeritageFile + '"rs123","99","100","AA"\n';
+    const result = parseMyHeritage(content);
+    expect(result.warnings).toEqual(['1 line could not be parsed']);
+  });
+
+  it('records a diagnostic for unparseable rows', () => {
+    const content = myHeritageFile + '"rs123","99","100","AA"\n';
+    const result = parseMyHeritage(content);
+    expect(result.diagnostics).toEqual([
+      {
+        code: 'bad-chromosome',
+        severity: 'error',
+        line: myHeritageFile.split('\n').length,
+        message: 'Invalid chromosome "99"',
+        excerpt: '"rs123","99","100","AA"',
+      },
+    ]);
+  });
+
+  it('throws error for file with only a header', () => {
+    expect(() => parseMyHeritage('RSID,CHROMOSOME,POSITION,RESULT\n')).toThrow(
+      'No valid variants found'
+    );
+  });
+});
+
+describe('parseFTDNA', () => {
+  it('parses sample file with Windows line endings', () => {
+    const result = parseFTDNA(ftdnaFile);
+    expect(result.format).toBe('ftdna');
+    expect(result.variants.length).toBe(6);
+    expect(result.variants.find(v => v.rsid === 'rs9939609')?.genotype).toBe('AT');
+  });
+
+  it('normalizes pseudoautosomal XY chromosome to X', () => {
+    const result = parseFTDNA(ftdnaFile);
+    expect(result.variants.find(v => v.rsid === 'rs6603781')?.chromosome).toBe('X');
+  });
+
+  it('accepts unquoted data lines', () => {
+    const result = parseFTDNA('RSID,CHROMOSOME,POSITION,RESULT\nrs4680,22,19951271,AG\n');
+    expect(result.variants[0]?.genotype).toBe('AG');
+  });
+});
+
+describe('parseVCF', () => {
+  it('parses sample file and skips non-primary contigs', () => {
+    const result = parseVCF(vcfFile);
+    expect(result.format).toBe('vcf');
+    expect(result.variants.length).toBe(9);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('extracts date and build from meta lines', () => {
+    const result = parseVCF(vcfFile);
+    expect(result.metadata.generatedAt).toBe('20240611');
+    expect(result.metadata.build).toBe('38');
+  });
+
+  it('infers build from contig length when no assembly name is given', () => {
+    const content = vcfFile
+      .replace(/^##reference=.*$/m, '')
+      .replace('length=248956422', 'length=249250621');
+    expect(parseVCF(content).metadata.build).toBe('37');
+  });
+
+  it('converts GT indices into genotype strings', () => {
+    const result = parseVCF(vcfFile);
+    const byRsid = (rsid: string) => result.variants.find(v => v.rsid === rsid);
+
+    expect(byRsid('rs1801133')?.genotype).toBe('GA');
+    expect(byRsid('rs4680')?.genotype).toBe('AA'); // GT not first in FORMAT
+    expect(byRsid('rs429358')?.genotype).toBe('TT'); // phased
+    expect(byRsid('rs4988235')?.genotype).toBe('GG'); // gVCF reference block
+  });
+
+  it('strips chr prefix from chromosomes', () => {
+    const result = parseVCF(vcfFile);
+    expect(result.variants.find(v => v.rsid === 'rs1801133')?.chromosome).toBe('1');
+    expect(result.variants.find(v => v.rsid === 'rs1050828')?.chromosome).toBe('X');
+  });
+
+  it('handles multi-allelic sites', () => {
+    const result = parseVCF(vcfFile);
+    expect(result.variants.find(v => v.rsid === 'rs12248560')?.genotype).toBe('TA');
+  });
+
+  it('handles missing IDs with a chrom:pos identifier', () => {
+    const result = parseVCF(vcfFile);
+    const unnamed = result.variants.find(v => v.rsid === '19:44908822');
+    expect(unnamed?.genotype).toBe('CT');
+  });
+
+  it('picks the first rsID when several are listed', () => {
+    const result = parseVCF(vcfFile);
+    expect(result.variants.find(v => v.rsid === 'rs1045642')?.genotype).toBe('--');
+  });
+
+  it('uses I/D notation for indels and single letters for haploid calls', () => {
+    const result = parseVCF(vcfFile);
+    expect(result.variants.find(v => v.rsid === 'rs80359550')?.genotype).toBe('ID');
+    expect(result.variants.find(v => v.rsid === 'rs1050828')?.genotype).toBe('T');
+  });
+
+  it('reports malformed GT values as warnings', () => {
+    const content = vcfFile + 'chr1\t100\trs1\tA\tG\t50\tPASS\t.\tGT\t0/5\n';
+    expect(parseVCF(content).warnings).toEqual(['1 line could not be parsed']);
+  });
+});
+
+describe('parse diagnostics', () => {
+  // 23andMe fixture plus extra rows; returns the line number of the first extra row
+  const base = sampleFile.trimEnd();
+  const firstExtraLine = base.split('\n').length + 1;
+  const withRows = (...rows: string[]) => `${base}\n${rows.join('\n')}\n`;
+
+  it('codes each kind of bad row', () => {
+    const result = parse23andMe(
+      withRows(
+        'rs1\t1\t100',
+        'rs2\t99\t100\tAA',
+        'rs3\t1\tabc\tAA',
+        'rs4\t1\t100\tZZ',
+        'xyz\t1\t100\tAA'
+      )
+    );
+
+    expect(result.diagnostics?.map((d) => [d.code, d.line])).toEqual([
+      ['wrong-column-count', firstExtraLine],
+      ['bad-chromosome', firstExtraLine + 1],
+      ['bad-position', firstExtraLine + 2],
+      ['invalid-genotype', firstExtraLine + 3],
+      ['bad-id', firstExtraLine + 4],
+    ]);
+    expect(result.diagnostics?.every((d) => d.severity === 'error')).toBe(true);
+    expect(result.diagnostics?.[3]?.excerpt).toBe('rs4\t1\t100\tZZ');
+    expect(result.warnings).toEqual(['5 lines could not be parsed']);
+  });
+
+  it('keeps rows with extra columns as warnings', () => {
+    const result = parse23andMe(withRows('rs5\t1\t100\tAA\textra'));
+
+    expect(result.variants.find((v) => v.rsid === 'rs5')?.genotype).toBe('AA');
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: 'wrong-column-count', severity: 'warning' }),
+    ]);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('codes VCF rows without a usable GT', () => {
+    const content = vcfFile + 'chr1\t100\trs1\tA\tG\t50\tPASS\t.\tDP\t12\n';
+    expect(parseVCF(content).diagnostics?.[0]?.code).toBe('invalid-genotype');
+  });
+
+  it('throws on the first bad row in strict mode', () => {
+    const content = withRows('rs2\t99\t100\tAA');
+    expect(() => parse23andMe(content, { strict: true })).toThrow(ParseError);
+
+    try {
+      parse23andMe(content, { strict: true });
+    } catch (err) {
+      expect((err as ParseError).line).toBe(firstExtraLine);
+      expect((err as ParseError).message).toBe(
+        `Line ${firstExtraLine}: Invalid chromosome "99"`
+      );
+    }
+  });
+
+  it('ignores warnings in strict mode', () => {
+    const result = parse23andMe(withRows('rs5\t1\t100\tAA\textra'), { strict: true });
+    expect(result.diagnostics).toHaveLength(1);
+  });
+
+  it('passes strict mode through the streaming parser', () => {
+    const parser = createStreamParser({ strict: true });
+    expect(() => {
+      parser.write(withRows('rs2\t99\t100\tAA'));
+      parser.end();
+    }).toThrow(`Line ${firstExtraLine}`);
+  });
+});
+
 describe('parseGenomeFile', () => {
   it('auto-detects and parses 23andMe file', () => {
     const result = parseGenomeFile(sampleFile);
@@ -96,8 +330,174 @@ describe('parseGenomeFile', () => {
     expect(result.variants.length).toBeGreaterThan(0);
   });
 
+  it('auto-detects and parses MyHeritage file', () => {
+    const result = parseGenomeFile(myHeritageFile);
+    expect(result.format).toBe('myheritage');
+    expect(result.variants.length).toBe(8);
+  });
+
+  it('auto-detects and parses FTDNA file', () => {
+    const result = parseGenomeFile(ftdnaFile);
+    expect(result.format).toBe('ftdna');
+    expect(result.variants.length).toBe(6);
+  });
+
+  it('auto-detects and parses VCF file', () => {
+    const result = parseGenomeFile(vcfFile);
+    expect(result.format).toBe('vcf');
+  });
+
   it('throws for unknown format', () => {
     const content = 'unknown format data';
     expect(() => parseGenomeFile(content)).toThrow('Unable to detect file format');
   });
 });
+
+describe('decodeGenomeFile', () => {
+  const readFixtureBytes = (name: string) =>
+    new Uint8Array(readFileSync(join(__dirname, 'fixtures', name)));
+
+  it('passes plain text through unchanged', async () => {
+    const bytes = readFixtureBytes('sample-23andme.txt');
+    expect(isCompressed(bytes)).toBe(false);
+    expect(await decodeGenomeFile(bytes)).toBe(sampleFile);
+  });
+
+  it('decompresses .gz files', async () => {
+    const bytes = readFixtureBytes('sample-23andme.txt.gz');
+    expect(isCompressed(bytes)).toBe(true);
+    expect(await decodeGenomeFile(bytes)).toBe(sampleFile);
+  });
+
+  it('decompresses multi-block bgzip VCF files', async () => {
+    const content = await decodeGenomeFile(readFixtureBytes('sample.vcf.gz'));
+    expect(content).toBe(vcfFile);
+  });
+
+  it('picks the genome file inside a .zip archive', async () => {
+    // Fixture also contains __MACOSX metadata and a PDF that must be skipped
+    const bytes = readFixtureBytes('sample-23andme.zip');
+    expect(isCompressed(bytes)).toBe(true);
+    expect(await decodeGenomeFile(bytes)).toBe(sampleFile);
+  });
+
+  it('feeds decompressed content into parseGenomeFile', async () => {
+    const content = await decodeGenomeFile(readFixtureBytes('sample-23andme.zip'));
+    expect(parseGenomeFile(content).variants.length).toBe(15);
+  });
+
+  it('throws for corrupt archives', async () => {
+    const bytes = readFixtureBytes('sample-23andme.zip').slice(0, 200);
+    await expect(decodeGenomeFile(bytes)).rejects.toThrow('Failed to read zip archive');
+  });
+});
+
+describe('openGenomeStream', () => {
+  const readFixtureBlob = (name: string) =>
+    new Blob([readFileSync(join(__dirname, 'fixtures', name))]);
+
+  it('streams a zipped genome file into parseGenomeStream', async () => {
+    const file = readFixtureBlob('sample-23andme.zip');
+    let bytesRead = 0;
+    const stream = await openGenomeStream(file, (n) => (bytesRead = n));
+    const result = await parseGenomeStream(stream);
+    expect(result.variants.length).toBe(15);
+    // Only the genome entry is read, not the metadata and PDF next to it
+    expect(bytesRead).toBeGreaterThan(0);
+    expect(bytesRead).toBeLessThan(file.size);
+  });
+
+  it('inflates bgzip blocks as they are read', async () => {
+    const file = readFixtureBlob('sample.vcf.gz');
+    let bytesRead = 0;
+    const stream = await openGenomeStream(file, (n) => (bytesRead = n));
+    const result = await parseGenomeStream(stream);
+    expect(result.format).toBe('vcf');
+    expect(result.variants.length).toBe(parseGenomeFile(vcfFile).variants.length);
+    expect(bytesRead).toBe(file.size);
+  });
+
+  it('rejects the parse when a gzip stream is corrupt', async () => {
+    const bytes = readFileSync(join(__dirname, 'fixtures', 'sample-23andme.txt.gz'));
+    const stream = await openGenomeStream(new Blob([bytes.subarray(0, bytes.length - 20)]));
+    await expect(parseGenomeStream(stream)).rejects.toThrow('Failed to decompress file');
+  });
+});
+
+describe('streaming parser', () => {
+  // Split content into small fixed-size chunks so lines straddle chunk boundaries
+  const toChunks = (content: string, size: number) => {
+    const chunks: string[] = [];
+    for (let i = 0; i < content.length; i += size) {
+      chunks.push(content.slice(i, i + size));
+    }
+    return chunks;
+  };
+
+  it('produces the same result as whole-file parsing when fed in chunks', () => {
+    const parser = createStreamParser();
+    for (const chunk of toChunks(sampleFile, 37)) {
+      parser.write(chunk);
+    }
+    const { detection, ...result } = parser.end();
+    expect(result).toEqual(parse23andMe(sampleFile));
+    expect(detection?.format).toBe('23andme-v5');
+  });
+
+  it('handles Windows line endings split across chunks', () => {
+    const parser = createStreamParser();
+    for (const chunk of toChunks(ftdnaFile, 5)) {
+      parser.write(chunk);
+    }
+    const result = parser.end();
+    expect(result.format).toBe('ftdna');
+    expect(result.variants).toEqual(parseFTDNA(ftdnaFile).variants);
+  });
+
+  it('emits variants and progress events', () => {
+    const variants: string[] = [];
+    const progress: ParseProgress[] = [];
+    const parser = createStreamParser({
+      totalBytes: sampleFile.length,
+      onVariant: (v) => variants.push(v.rsid),
+      onProgress: (p) => progress.push(p),
+    });
+    for (const chunk of toChunks(sampleFile, 200)) {
+      parser.write(chunk);
+    }
+    parser.end();
+
+    expect(variants).toHaveLength(15);
+    expect(progress.length).toBeGreaterThan(1);
+    const last = progress[progress.length - 1];
+    expect(last?.bytesRead).toBe(sampleFile.length);
+    expect(last?.variantCount).toBe(15);
+  });
+
+  it('parses a web ReadableStream of bytes', async () => {
+    const bytes = new TextEncoder().encode(vcfFile);
+    const stream = new Blob([bytes]).stream();
+    const result = await parseGenomeStream(stream, { totalBytes: bytes.length });
+    expect(result.format).toBe('vcf');
+    expect(result.variants).toEqual(parseVCF(vcfFile).variants);
+  });
+
+  it('parses a Node Readable', async () => {
+    const stream = Readable.from(toChunks(myHeritageFile, 64).map((c) => Buffer.from(c)));
+    const result = await parseGenomeChunks(stream);
+    expect(result.format).toBe('myheritage');
+    expect(result.variants.length).toBe(8);
+  });
+
+  it('stops reading when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const stream = new Blob([sampleFile]).stream();
+    await expect(parseGenomeStream(stream, { signal: controller.signal })).rejects.toThrow();
+  });
+
+  it('throws for unknown formats once enough text has arrived', () => {
+    const parser = createStreamParser();
+    expect(() => parser.write('x'.repeat(2500))).toThrow('Unable to detect file format');
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * QC report tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildQCReport, formatQCReport, formatRate, inferSex, QC_LIST_LIMIT } from '../src/qc';
+import type { GenomeVariant, ParseResult } from '../src/types';
+
+function parseResultOf(variants: GenomeVariant[], skippedLines?: number[]): ParseResult {
+  const result: ParseResult = { format: '23andme-v5', variants, metadata: {} };
+  if (skippedLines) {
+    result.diagnostics = skippedLines.map((line) => ({
+      code: 'bad-position',
+      severity: 'error',
+      line,
+      message: 'Invalid position "x"',
+      excerpt: 'rs1\t1\tx\tAA',
+    }));
+  }
+  return result;
+}
+
+// n variants on one chromosome with the given genotypes, cycling through them
+function variantsOn(chromosome: string, n: number, genotypes: string[]): GenomeVariant[] {
+  return Array.from({ length: n }, (_, i) => ({
+    rsid: `rs${chromosome}${i}`,
+    chromosome,
+    position: i + 1,
+    genotype: genotypes[i % genotypes.length]!,
+  }));
+}
+
+describe('buildQCReport', () => {
+  it('computes call rates and heterozygosity', () => {
+    const report = buildQCReport(
+      parseResultOf([
+        { rsid: 'rs1', chromosome: '1', position: 1, genotype: 'AG' },
+        { rsid: 'rs2', chromosome: '1', position: 2, genotype: 'AA' },
+        { rsid: 'rs3', chromosome: '2', position: 3, genotype: '--' },
+        { rsid: 'rs4', chromosome: '2', position: 4, genotype: 'CT' },
+      ])
+    );
+
+    expect(report.totalVariants).toBe(4);
+    expect(report.noCalls).toBe(1);
+    expect(report.callRate).toBe(0.75);
+    expect(report.heterozygosityRate).toBe(0.6667);
+    expect(report.chromosomes).toEqual([
+      { chromosome: '1', variants: 2, noCalls: 0, callRate: 1 },
+      { chromosome: '2', variants: 2, noCalls: 1, callRate: 0.5 },
+    ]);
+  });
+
+  it('orders chromosomes numerically, then X, Y and MT', () => {
+    const report = buildQCReport(
+      parseResultOf([
+        { rsid: 'rs1', chromosome: 'MT', position: 1, genotype: 'A' },
+        { rsid: 'rs2', chromosome: '10', position: 1, genotype: 'AA' },
+        { rsid: 'rs3', chromosome: 'X', position: 1, genotype: 'AA' },
+        { rsid: 'rs4', chromosome: '2', position: 1, genotype: 'AA' },
+      ])
+    );
+
+    expect(report.chromosomes.map((c) => c.chromosome)).toEqual(['2', '10', 'X', 'MT']);
+  });
+
+  it('counts indels and duplicate IDs', () => {
+    const report = buildQCReport(
+      parseResultOf([
+        { rsid: 'rs1', chromosome: '1', position: 1, genotype: 'DI' },
+        { rsid: 'rs2', chromosome: '1', position: 2, genotype: 'II' },
+        { rsid: 'rs2', chromosome: '1', position: 2, genotype: 'II' },
+      ])
+    );
+
+    expect(report.indels).toBe(3);
+    expect(report.duplicateCount).toBe(1);
+    expect(report.duplicateRsids).toEqual(['rs2']);
+  });
+
+  it('lists the first unparseable line numbers', () => {
+    const skipped = Array.from({ length: QC_LIST_LIMIT + 5 }, (_, i) => i + 10);
+    const report = buildQCReport(parseResultOf(variantsOn('1', 2, ['AA']), skipped));
+
+    expect(report.unparseableLineCount).toBe(QC_LIST_LIMIT + 5);
+    expect(report.unparseableLines).toHaveLength(QC_LIST_LIMIT);
+    expect(report.unparseableLines[0]).toBe(10);
+  });
+
+  it('does not count rows kept with a warning as unparseable', () => {
+    const result = parseResultOf(variantsOn('1', 2, ['AA']));
+    result.diagnostics = [
+      {
+        code: 'wrong-column-count',
+        severity: 'warning',
+        line: 3,
+        message: 'Expected 4 columns, found 5',
+        excerpt: 'rs10\t1\t1\tAA\tx',
+      },
+    ];
+
+    expect(buildQCReport(result).unparseableLineCount).toBe(0);
+  });
+});
+
+describe('sex-chromosome consistency', () => {
+  const statusOf = (variants: GenomeVariant[]) =>
+    buildQCReport(parseResultOf(variants)).sexChromosomes.status;
+
+  it('recognizes a female pattern', () => {
+    expect(statusOf([...variantsOn('X', 20, ['AG', 'AA']), ...variantsOn('Y', 10, ['--'])])).toBe(
+      'female-pattern'
+    );
+  });
+
+  it('recognizes a male pattern with haploid or doubled X calls', () => {
+    expect(statusOf([...variantsOn('X', 20, ['A']), ...variantsOn('Y', 10, ['C'])])).toBe(
+      'male-pattern'
+    );
+    expect(statusOf([...variantsOn('X', 20, ['AA']), ...variantsOn('Y', 10, ['CC'])])).toBe(
+      'male-pattern'
+    );
+  });
+
+  it('flags heterozygous X calls alongside Y calls', () => {
+    expect(statusOf([...variantsOn('X', 20, ['AG', 'AA']), ...variantsOn('Y', 10, ['C'])])).toBe(
+      'inconsistent'
+    );
+  });
+
+  it('is unknown without Y rows', () => {
+    const report = buildQCReport(parseResultOf(variantsOn('X', 20, ['AG'])));
+    expect(report.sexChromosomes).toEqual({
+      status: 'unknown',
+      xHeterozygosityRate: 1,
+      yCallRate: null,
+    });
+  });
+});
+
+describe('inferSex', () => {
+  it('maps consistent patterns to a sex', () => {
+    expect(inferSex([...variantsOn('X', 20, ['A']), ...variantsOn('Y', 10, ['C'])])).toBe('male');
+    expect(inferSex([...variantsOn('X', 20, ['AG', 'AA']), ...variantsOn('Y', 10, ['--'])])).toBe(
+      'female'
+    );
+  });
+
+  it('returns unknown when the signals disagree or are missing', () => {
+    expect(inferSex([...variantsOn('X', 20, ['AG']), ...variantsOn('Y', 10, ['C'])])).toBe(
+      'unknown'
+    );
+    expect(inferSex(variantsOn('1', 20, ['AG']))).toBe('unknown');
+  });
+});
+
+describe('formatQCReport', () => {
+  it('renders headline figures and a chromosome table', () => {
+    const report = buildQCReport(
+      parseResultOf(
+        [
+          { rsid: 'rs1', chromosome: '1', position: 1, genotype: 'AG' },
+          { rsid: 'rs2', chromosome: '1', position: 2, genotype: '--' },
+        ],
+        [7]
+      )
+    );
+    const text = formatQCReport(report);
+
+    expect(text).toContain('Call rate:          50.00% (1 no-calls)');
+    expect(text).toContain('Unparseable lines:  1 (7)');
+    expect(text).toMatch(/^1\s+2\s+1\s+50\.00%$/m);
+  });
+
+  it('formats missing rates as n/a', () => {
+    expect(formatRate(null)).toBe('n/a');
+    expect(formatRate(0.98765)).toBe('98.77%');
+  });
+});
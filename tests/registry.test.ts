@@ -0,0 +1,130 @@
+/**
+ * Parser registry tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  findParser,
+  formatDisplayName,
+  getParsers,
+  parseGenomeFile,
+  registerParser,
+  sniffFormat,
+  unregisterParser,
+} from '../src/parser';
+import type { GenomeParser } from '../src/parser';
+import type { GenomeVariant, ParseResult } from '../src/types';
+import { ParseError } from '../src/types';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const sampleFile = readFileSync(join(__dirname, 'fixtures/sample-23andme.txt'), 'utf-8');
+const myHeritageFile = readFileSync(join(__dirname, 'fixtures/sample-myheritage.csv'), 'utf-8');
+const ftdnaFile = readFileSync(join(__dirname, 'fixtures/sample-ftdna.csv'), 'utf-8');
+
+// Minimal custom format: a marker line, then "rsid chromosome position genotype" rows
+const pipeParser: GenomeParser = {
+  id: 'pipe',
+  name: 'Pipe-delimited test format',
+  formats: ['pipe'],
+  sniff: (header) => (header.startsWith('#PIPE') ? 1 : 0),
+  parse(content: string): ParseResult {
+    const variants: GenomeVariant[] = content
+      .split('\n')
+      .filter((line) => line && !line.startsWith('#'))
+      .map((line) => {
+        const [rsid = '', chromosome = '', position = '', genotype = ''] = line.split('|');
+        return { rsid, chromosome, position: Number(position), genotype };
+      });
+    return { format: 'pipe', variants, metadata: {} };
+  },
+};
+
+const pipeFile = '#PIPE\nrs1|1|100|AG\nrs2|2|200|CC\n';
+
+describe('sniffFormat', () => {
+  it('reports the winner with its confidence', () => {
+    expect(sniffFormat(myHeritageFile)).toMatchObject({ format: 'myheritage', confidence: 1 });
+  });
+
+  it('reports the runner-up on a close call', () => {
+    // A bare RSID,CHROMOSOME,... header fits FTDNA better than MyHeritage
+    expect(sniffFormat(ftdnaFile)).toEqual({
+      format: 'ftdna',
+      confidence: 0.6,
+      runnerUp: { format: 'myheritage', confidence: 0.4 },
+    });
+  });
+
+  it('picks the 23andMe version from the header', () => {
+    const header = '# generated by 23andMe\n# build 36\n# rsid\tchromosome\tposition\tgenotype\n';
+    expect(sniffFormat(header).format).toBe('23andme-v3');
+  });
+
+  it('returns unknown with a weak guess as runner-up', () => {
+    expect(sniffFormat('# exported from MyHeritage\nfoo\n')).toEqual({
+      format: 'unknown',
+      confidence: 0,
+      runnerUp: { format: 'myheritage', confidence: 0.3 },
+    });
+  });
+});
+
+describe('custom parsers', () => {
+  afterEach(() => {
+    unregisterParser('pipe');
+  });
+
+  it('detects and parses a registered format', () => {
+    registerParser(pipeParser);
+
+    const result = parseGenomeFile(pipeFile);
+    expect(result.format).toBe('pipe');
+    expect(result.detection).toEqual({ format: 'pipe', confidence: 1 });
+    expect(result.variants).toHaveLength(2);
+    expect(formatDisplayName('pipe')).toBe('Pipe-delimited test format');
+  });
+
+  it('reports variants from parsers without incremental support', () => {
+    registerParser(pipeParser);
+
+    const seen: string[] = [];
+    parseGenomeFile(pipeFile, { onVariant: (v) => seen.push(v.rsid) });
+    expect(seen).toEqual(['rs1', 'rs2']);
+  });
+
+  it('replaces a parser registered under the same id', () => {
+    registerParser(pipeParser);
+    registerParser({ ...pipeParser, name: 'Pipes v2' });
+
+    expect(getParsers().filter((p) => p.id === 'pipe')).toHaveLength(1);
+    expect(findParser('pipe')?.name).toBe('Pipes v2');
+  });
+
+  it('stops detecting a format once unregistered', () => {
+    registerParser(pipeParser);
+    expect(unregisterParser('pipe')).toBe(true);
+
+    expect(() => parseGenomeFile(pipeFile)).toThrow('Unable to detect file format');
+  });
+});
+
+describe('forced format', () => {
+  it('parses with the chosen format instead of detecting', () => {
+    const result = parseGenomeFile(sampleFile, { format: '23andme-v3' });
+
+    expect(result.format).toBe('23andme-v3');
+    expect(result.detection).toEqual({ format: '23andme-v3', confidence: 1, forced: true });
+  });
+
+  it('rejects formats no parser reads', () => {
+    expect(() => parseGenomeFile(sampleFile, { format: 'nope' })).toThrow(ParseError);
+    expect(() => parseGenomeFile(sampleFile, { format: 'nope' })).toThrow(
+      'Unsupported file format: nope'
+    );
+  });
+});
@@ -0,0 +1,651 @@
+/**
+ * Custom SNP list import tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applySNPListOverlays,
+  buildCategoryTree,
+  categoryPathLabel,
+  categoryPathOf,
+  checkSNPList,
+  checkSNPListFile,
+  deriveDigestKey,
+  diffSNPListDigest,
+  diffSNPLists,
+  digestSNPList,
+  flattenCategoryTree,
+  formatValidationReport,
+  importDelimitedSNPList,
+  listTags,
+  matchesEntryFilter,
+  parseCategoryPath,
+  parseSNPListFile,
+  parseSNPListOverlayFile,
+  snapshotSNPList,
+} from '../src/snp-list';
+import { extractVariants } from '../src/extractor';
+import { ALL_CATEGORIES } from '../src/types';
+import type { SNPEntry, SNPList } from '../src/types';
+
+const CSV = `rsid,gene,category,annotation,sources,risk_allele,chromosome,position
+rs1801133,MTHFR,methylation,C677T variant,ClinVar;PharmGKB,A,1,11856378
+rs4680,COMT,hormones_neurotransmitters,"Val158Met, dopamine breakdown",ClinVar,A,22,19963748
+`;
+
+describe('importDelimitedSNPList', () => {
+  it('maps CSV columns onto SNP entries', () => {
+    const list = importDelimitedSNPList(CSV, { version: 'lab-panel' });
+
+    expect(list.version).toBe('lab-panel');
+    expect(list.count).toBe(2);
+    expect(list.variants[0]).toMatchObject({
+      rsid: 'rs1801133',
+      gene: 'MTHFR',
+      category: 'methylation',
+      annotation: 'C677T variant',
+      sources: ['ClinVar', 'PharmGKB'],
+      riskAllele: 'A',
+      chromosome: '1',
+      position: 11856378,
+    });
+  });
+
+  it('keeps delimiters inside quoted cells', () => {
+    const list = importDelimitedSNPList(CSV);
+    expect(list.variants[1]?.annotation).toBe('Val158Met, dopamine breakdown');
+  });
+
+  it('accepts header aliases and fills in defaults for missing columns', () => {
+    const tsv = 'SNP\tGene Symbol\tChr\tAlleles\nRS4680\tCOMT\tchr22\tG/A\n';
+    const list = importDelimitedSNPList(tsv, { delimiter: '\t' });
+
+    expect(list.version).toBe('custom');
+    expect(list.variants[0]).toMatchObject({
+      rsid: 'rs4680',
+      gene: 'COMT',
+      category: 'uncategorized',
+      annotation: '',
+      sources: [],
+      chromosome: '22',
+      alleles: ['G', 'A'],
+    });
+  });
+
+  it('keeps slashes in sources and tags', () => {
+    const csv =
+      'rsid,gene,sources,tags,alt\n' +
+      'rs2187668,HLA-DQA1,https://www.ncbi.nlm.nih.gov/snp/rs2187668,HLA-DQ2.5|HLA-A*02:01,T\n';
+    const [entry] = importDelimitedSNPList(csv).variants;
+
+    expect(entry?.sources).toEqual(['https://www.ncbi.nlm.nih.gov/snp/rs2187668']);
+    expect(entry?.tags).toEqual(['HLA-DQ2.5', 'HLA-A*02:01']);
+    // "alt" is not read as the risk allele
+    expect(entry?.riskAllele).toBeUndefined();
+  });
+
+  it('skips blank and comment lines', () => {
+    const list = importDelimitedSNPList(`# exported from the lab\n\n${CSV}\n`);
+    expect(list.count).toBe(2);
+  });
+
+  it('requires rsid and gene columns', () => {
+    expect(() => importDelimitedSNPList('rsid,category\nrs4680,methylation\n')).toThrow(
+      'no gene column'
+    );
+    expect(() => importDelimitedSNPList('')).toThrow('the file is empty');
+  });
+
+  it('names the line of an invalid row', () => {
+    const badCategory = `${CSV}rs762551,CYP1A2,caffeine,,,,,\n`;
+    expect(() => importDelimitedSNPList(badCategory)).toThrow(/^Line 4: .*unknown category/);
+
+    const badPosition = `${CSV}rs762551,CYP1A2,methylation,,,,15,abc\n`;
+    expect(() => importDelimitedSNPList(badPosition)).toThrow('Line 4: invalid position "abc"');
+  });
+});
+
+describe('parseSNPListFile', () => {
+  it('reads JSON lists', () => {
+    const json = JSON.stringify({
+      version: '1.0',
+      generatedAt: '2025-01-01T00:00:00Z',
+      variants: [
+        {
+          rsid: 'rs4680',
+          gene: 'COMT',
+          category: 'hormones_neurotransmitters',
+          annotation: 'Val158Met',
+          sources: [],
+        },
+      ],
+    });
+
+    const list = parseSNPListFile(json, 'my-list.json');
+    expect(list.version).toBe('1.0');
+    expect(list.count).toBe(1);
+  });
+
+  it('reports invalid JSON', () => {
+    expect(() => parseSNPListFile('{"version":', 'list.json')).toThrow('invalid JSON format');
+  });
+
+  it('picks the delimiter from the file and names the list after it', () => {
+    const tsv = CSV.replace(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/gm, '\t');
+
+    const list = parseSNPListFile(`\uFEFF${tsv}`, 'panels/lab-panel.txt');
+    expect(list.version).toBe('lab-panel');
+    expect(list.variants[1]?.annotation).toBe('Val158Met, dopamine breakdown');
+  });
+});
+
+const entry = (rsid: string, gene: string, annotation = ''): SNPEntry => ({
+  rsid,
+  gene,
+  category: 'methylation',
+  annotation,
+  sources: [],
+});
+
+const baseList: SNPList = {
+  version: '2025.01',
+  generatedAt: '2025-01-23T00:00:00Z',
+  count: 3,
+  variants: [entry('rs1801133', 'MTHFR'), entry('rs4680', 'COMT'), entry('rs762551', 'CYP1A2')],
+};
+
+describe('applySNPListOverlays', () => {
+  it('adds, overrides and removes entries in order', () => {
+    const list = applySNPListOverlays(baseList, [
+      {
+        name: 'lab-panel',
+        version: '3',
+        add: [entry('rs429358', 'APOE')],
+        replace: [{ rsid: 'RS4680', annotation: 'Lab note' }],
+      },
+      { name: 'exclude', remove: ['rs762551', 'rs0000001'] },
+    ]);
+
+    expect(list.version).toBe('2025.01+lab-panel@3+exclude');
+    expect(list.count).toBe(3);
+    expect(list.variants.map((v) => v.rsid)).toEqual(['rs1801133', 'rs4680', 'rs429358']);
+    expect(list.variants[1]).toMatchObject({
+      rsid: 'rs4680',
+      gene: 'COMT',
+      annotation: 'Lab note',
+    });
+    expect(baseList.variants[1]?.annotation).toBe('');
+  });
+
+  it('lets a later layer win and keeps replaced entries in place', () => {
+    const list = applySNPListOverlays(baseList, [
+      { name: 'a', add: [entry('rs4680', 'COMT', 'from a')] },
+      { name: 'b', add: [entry('rs4680', 'COMT', 'from b')] },
+    ]);
+
+    expect(list.variants.map((v) => v.rsid)).toEqual(['rs1801133', 'rs4680', 'rs762551']);
+    expect(list.variants[1]?.annotation).toBe('from b');
+  });
+
+  it("applies a layer's removals after its additions", () => {
+    const list = applySNPListOverlays(baseList, [
+      { name: 'a', add: [entry('rs429358', 'APOE')], remove: ['rs429358'] },
+    ]);
+    expect(list.variants.some((v) => v.rsid === 'rs429358')).toBe(false);
+  });
+
+  it('rejects ambiguous or dangling changes', () => {
+    expect(() =>
+      applySNPListOverlays(baseList, [
+        { name: 'dup', add: [entry('rs429358', 'APOE'), entry('rs429358', 'APOE')] },
+      ])
+    ).toThrow('Overlay "dup" adds rs429358 more than once');
+    expect(() =>
+      applySNPListOverlays(baseList, [{ name: 'typo', replace: [{ rsid: 'rs1', gene: 'X' }] }])
+    ).toThrow('Overlay "typo" replaces rs1, which is not in the list');
+    expect(() =>
+      applySNPListOverlays(baseList, [
+        { name: 'bad', replace: [{ rsid: 'rs4680', category: 'nope' as SNPEntry['category'] }] },
+      ])
+    ).toThrow('Overlay "bad": Invalid SNP entry: unknown category');
+  });
+
+  it('stamps the composite version into extraction metadata', () => {
+    const list = applySNPListOverlays(baseList, [{ name: 'exclude', remove: ['rs762551'] }]);
+    const result = extractVariants(
+      {
+        format: '23andme-v5',
+        variants: [{ rsid: 'rs4680', chromosome: '22', position: 19963748, genotype: 'AG' }],
+        metadata: {},
+      },
+      list
+    );
+
+    expect(result.metadata.snpListVersion).toBe('2025.01+exclude');
+    expect(result.summary.total).toBe(2);
+  });
+});
+
+describe('parseSNPListOverlayFile', () => {
+  it('reads JSON overlays, named after the file unless they say otherwise', () => {
+    const overlay = parseSNPListOverlayFile(
+      JSON.stringify({ version: '2', remove: ['rs762551'] }),
+      'overlays/exclude.json'
+    );
+    expect(overlay).toEqual({ name: 'exclude', version: '2', remove: ['rs762551'] });
+
+    const named = parseSNPListOverlayFile(JSON.stringify({ name: 'mine' }), 'exclude.json');
+    expect(named.name).toBe('mine');
+  });
+
+  it('turns a whole list into an additive overlay', () => {
+    const overlay = parseSNPListOverlayFile(CSV, 'extra.csv');
+    expect(overlay.name).toBe('extra');
+    expect(overlay.version).toBeUndefined();
+    expect(overlay.add?.map((v) => v.rsid)).toEqual(['rs1801133', 'rs4680']);
+  });
+
+  it('validates overlay sections', () => {
+    expect(() => parseSNPListOverlayFile('{"remove": "rs1"}', 'x.json')).toThrow(
+      'remove must be an array'
+    );
+    expect(() => parseSNPListOverlayFile('{"replace": [{"gene": "X"}]}', 'x.json')).toThrow(
+      'needs an rsid'
+    );
+  });
+});
+
+describe('checkSNPList', () => {
+  it('passes a clean list', () => {
+    const report = checkSNPList({ ...baseList, variants: [entry('rs4680', 'COMT', 'Val158Met')] });
+    expect(report.valid).toBe(true);
+    expect(report.errors).toEqual([]);
+    expect(report.version).toBe('2025.01');
+  });
+
+  it('collects every problem with its path, errors apart from warnings', () => {
+    const report = checkSNPList({
+      version: '1',
+      count: 5,
+      variants: [
+        { ...entry('rs1', 'A', 'note'), riskAllele: 'Z', chromosome: '99', position: -3 },
+        { ...entry('rs1', 'B', 'note'), category: 'nope' },
+        { ...entry('rs2', 'C', 'note'), riskAllele: 'G', alleles: ['C', 'T'] },
+        entry('rs3', 'D'),
+      ],
+    });
+
+    expect(report.valid).toBe(false);
+    expect(report.variantCount).toBe(4);
+    expect(report.errors.map((e) => e.path)).toEqual([
+      'variants[0].riskAllele',
+      'variants[0].chromosome',
+      'variants[0].position',
+      'variants[1].category',
+    ]);
+    expect(report.warnings.map((w) => w.path)).toEqual([
+      'variants[0].sources',
+      'variants[1].sources',
+      'variants[1].rsid',
+      'variants[2].sources',
+      'variants[2].riskAllele',
+      'variants[3].annotation',
+      'variants[3].sources',
+      'count',
+    ]);
+    expect(report.warnings.every((w) => w.severity === 'warning')).toBe(true);
+  });
+
+  it('reports a missing structure instead of throwing', () => {
+    const report = checkSNPList({ variants: 'none' });
+    expect(report.errors.map((e) => e.path)).toEqual(['version', 'variants']);
+    expect(checkSNPList(null).errors[0]?.message).toBe('expected an object');
+  });
+
+  it('collects every problem in a score', () => {
+    const report = checkSNPList({
+      ...baseList,
+      variants: [],
+      scores: [
+        {
+          id: 'ldl',
+          category: 'lipids',
+          snps: [
+            { rsid: 'rs1', effectAllele: 'T', weight: 'high' },
+            { rsid: 'x2', effectAllele: '', weight: 1, effectAlleleFrequency: 2 },
+          ],
+        },
+      ],
+    });
+
+    expect(report.errors.map((e) => e.path)).toEqual([
+      'scores[0].name',
+      'scores[0].snps[0].weight',
+      'scores[0].snps[1].rsid',
+      'scores[0].snps[1].effectAllele',
+      'scores[0].snps[1].effectAlleleFrequency',
+    ]);
+  });
+
+  it('loads lists with duplicate rsIDs, warning about them', () => {
+    const data = { version: '1', variants: [entry('rs1', 'A'), entry('rs1', 'A')] };
+
+    expect(checkSNPList(data).warnings.map((w) => w.message)).toContain('duplicate rsid rs1');
+    expect(parseSNPListFile(JSON.stringify(data), 'list.json').count).toBe(2);
+  });
+
+  it('backs validateSNPList, which throws on the first error', () => {
+    expect(() =>
+      parseSNPListFile(
+        JSON.stringify({
+          version: '1',
+          variants: [entry('rs1', 'A'), { ...entry('rs2', 'B'), category: 'nope' }],
+        }),
+        'list.json'
+      )
+    ).toThrow('Invalid SNP list: variants[1].category: unknown category "nope" for rs2');
+  });
+});
+
+describe('checkSNPListFile', () => {
+  it('gives table issues the line of their row', () => {
+    const report = checkSNPListFile(`${CSV}rs762551,CYP1A2,caffeine,,,,15,abc\n`, 'panel.csv');
+
+    expect(report.valid).toBe(false);
+    expect(report.errors.map((e) => [e.line, e.path])).toEqual([
+      [4, 'variants[2].category'],
+      [4, 'variants[2].position'],
+    ]);
+    expect(report.warnings.map((w) => w.line)).toEqual([4, 4]);
+  });
+
+  it('reports unreadable files as a single error', () => {
+    const report = checkSNPListFile('gene,category\nCOMT,methylation\n', 'panel.csv');
+    expect(report.valid).toBe(false);
+    expect(report.errors).toEqual([
+      { severity: 'error', path: '', message: 'Invalid SNP list: no rsid column in the header' },
+    ]);
+  });
+
+  it('formats a report as text', () => {
+    const text = formatValidationReport(checkSNPListFile(`${CSV}rs4680,COMT,,,,,,\n`, 'p.csv'));
+    expect(text).toContain('SNP list version p: 3 entries, 0 errors, 3 warnings');
+    expect(text).toContain('  warning line 4 variants[2].rsid: duplicate rsid rs4680');
+    expect(text).toContain('List is valid.');
+  });
+});
+
+describe('diffSNPLists', () => {
+  const newList: SNPList = {
+    version: '2025.02',
+    generatedAt: '2025-02-01T00:00:00Z',
+    count: 3,
+    variants: [
+      { ...entry('rs4680', 'COMT'), category: 'hormones_neurotransmitters' },
+      { ...entry('rs1801133', 'MTHFR', 'C677T'), riskAllele: 'A', sources: ['ClinVar'] },
+      entry('rs429358', 'APOE'),
+    ],
+  };
+
+  it('finds added, removed, recategorized and edited entries', () => {
+    const diff = diffSNPLists(baseList, newList);
+
+    expect(diff.fromVersion).toBe('2025.01');
+    expect(diff.toVersion).toBe('2025.02');
+    expect(diff.summary).toEqual({
+      added: 1,
+      removed: 1,
+      recategorized: 1,
+      edited: 1,
+      unchanged: 0,
+    });
+    expect(diff.added.map((e) => e.rsid)).toEqual(['rs429358']);
+    expect(diff.removed.map((e) => e.rsid)).toEqual(['rs762551']);
+    expect(diff.changed).toEqual([
+      {
+        rsid: 'rs4680',
+        gene: 'COMT',
+        changes: [
+          { field: 'category', before: 'methylation', after: 'hormones_neurotransmitters' },
+        ],
+      },
+      {
+        rsid: 'rs1801133',
+        gene: 'MTHFR',
+        changes: [
+          { field: 'annotation', before: '', after: 'C677T' },
+          { field: 'riskAllele', after: 'A' },
+          { field: 'sources', before: [], after: ['ClinVar'] },
+        ],
+      },
+    ]);
+  });
+
+  it('ignores source and allele order, rsID case and allele case', () => {
+    const before = {
+      ...baseList,
+      variants: [{ ...entry('rs4680', 'COMT'), alleles: ['G', 'A'], sources: ['A', 'B'] }],
+    };
+    const after = {
+      ...baseList,
+      variants: [{ ...entry('RS4680', 'COMT'), alleles: ['a', 'g'], sources: ['B', 'A'] }],
+    };
+
+    const diff = diffSNPLists(before, after);
+    expect(diff.changed).toEqual([]);
+    expect(diff.summary.unchanged).toBe(1);
+  });
+
+  it('still sees annotation edits between snapshots', () => {
+    const snapshot = snapshotSNPList(newList);
+    expect(snapshot.variants[1]?.annotation).toMatch(/^[0-9a-f]{8}$/);
+
+    const edited = {
+      ...newList,
+      version: '2025.03',
+      variants: newList.variants.map((e) =>
+        e.rsid === 'rs4680' ? { ...e, annotation: 'Val158Met' } : e
+      ),
+    };
+    const diff = diffSNPLists(snapshot, snapshotSNPList(edited));
+    expect(diff.changed.map((c) => [c.rsid, c.changes.map((f) => f.field)])).toEqual([
+      ['rs4680', ['annotation']],
+    ]);
+  });
+
+  it('diffs against a digest that holds no entry content', async () => {
+    const key = await deriveDigestKey('license-token');
+    const digest = await digestSNPList(baseList, key);
+    expect(digest.version).toBe(baseList.version);
+    expect(JSON.stringify(digest)).not.toMatch(/rs\d|COMT|MTHFR/);
+
+    const diff = await diffSNPListDigest(digest, newList, key);
+    const full = diffSNPLists(baseList, newList);
+    expect(diff.added.map((e) => e.rsid)).toEqual(full.added.map((e) => e.rsid));
+    expect(diff.changed.map((e) => e.rsid)).toEqual(full.changed.map((c) => c.rsid));
+    expect(diff.removed).toBe(full.summary.removed);
+    expect(diff.unchanged).toBe(full.summary.unchanged);
+  });
+
+  it('keys the digest so known rsIDs cannot be looked up in it', async () => {
+    const digest = await digestSNPList(baseList, await deriveDigestKey('license-token'));
+
+    // Unkeyed hashes of a listed rsID, as someone holding only the digest could compute
+    const fnv1a = (text: string): string => {
+      let hash = 0x811c9dc5;
+      for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+      }
+      return (hash >>> 0).toString(16).padStart(8, '0');
+    };
+    const sha256 = async (text: string): Promise<string> => {
+      const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+      return Array.from(new Uint8Array(hash), (b) => b.toString(16).padStart(2, '0')).join('');
+    };
+    const unkeyed = [fnv1a('rs4680'), await sha256('rs4680')];
+    const stored = [...Object.keys(digest.entries), ...Object.values(digest.entries)];
+    for (const hash of unkeyed) {
+      expect(stored.some((h) => hash.startsWith(h) || h.startsWith(hash))).toBe(false);
+    }
+
+    // Another token's key matches nothing either
+    const diff = await diffSNPListDigest(digest, baseList, await deriveDigestKey('other-token'));
+    expect(diff.added).toHaveLength(baseList.variants.length);
+    expect(diff.unchanged).toBe(0);
+  });
+});
+
+describe('category taxonomy', () => {
+  const list: SNPList = {
+    ...baseList,
+    variants: [
+      { ...entry('rs2282679', 'GC'), category: 'vitamins_minerals', subcategory: 'vitamin_d' },
+      {
+        ...entry('rs10741657', 'CYP2R1'),
+        category: 'vitamins_minerals',
+        subcategory: 'vitamin_d/synthesis',
+        tags: ['bone_health'],
+      },
+      { ...entry('rs1801133', 'MTHFR'), tags: ['pregnancy', 'Bone_Health'] },
+      { ...entry('rs602662', 'FUT2'), category: 'vitamins_minerals', subcategory: 'b12' },
+    ],
+  };
+
+  it('parses category paths', () => {
+    expect(parseCategoryPath('vitamins_minerals/vitamin_d/synthesis')).toEqual({
+      category: 'vitamins_minerals',
+      subcategory: 'vitamin_d/synthesis',
+    });
+    expect(parseCategoryPath('methylation')).toEqual({ category: 'methylation' });
+    expect(parseCategoryPath('vitamins/vitamin_d')).toBeNull();
+    expect(parseCategoryPath('vitamins_minerals/Vitamin D')).toBeNull();
+    expect(parseCategoryPath('vitamins_minerals//b12')).toBeNull();
+  });
+
+  it('builds a tree with every category and the subcategories in use', () => {
+    const tree = buildCategoryTree(list);
+    const vitamins = tree.find((node) => node.path === 'vitamins_minerals');
+
+    expect(tree.map((node) => node.path)).toEqual(ALL_CATEGORIES);
+    expect(vitamins?.count).toBe(3);
+    expect(vitamins?.children.map((c) => [c.path, c.name, c.count])).toEqual([
+      ['vitamins_minerals/b12', 'B12', 1],
+      ['vitamins_minerals/vitamin_d', 'Vitamin D', 2],
+    ]);
+    expect(vitamins?.children[1]?.children.map((c) => c.path)).toEqual([
+      'vitamins_minerals/vitamin_d/synthesis',
+    ]);
+    expect(flattenCategoryTree(tree)).toHaveLength(ALL_CATEGORIES.length + 3);
+  });
+
+  it('counts tags case-insensitively, most used first', () => {
+    expect(listTags(list)).toEqual([
+      { tag: 'bone_health', count: 2 },
+      { tag: 'pregnancy', count: 1 },
+    ]);
+  });
+
+  it('matches entries by subtree and tag', () => {
+    const [gc, cyp2r1, mthfr] = list.variants as [SNPEntry, SNPEntry, SNPEntry];
+    const vitaminD = { categories: ['vitamins_minerals/vitamin_d' as const] };
+
+    expect(matchesEntryFilter(gc, vitaminD)).toBe(true);
+    expect(matchesEntryFilter(cyp2r1, vitaminD)).toBe(true);
+    expect(matchesEntryFilter(mthfr, vitaminD)).toBe(false);
+    expect(matchesEntryFilter(cyp2r1, { ...vitaminD, tags: ['BONE_HEALTH'] })).toBe(true);
+    expect(matchesEntryFilter(gc, { ...vitaminD, tags: ['bone_health'] })).toBe(false);
+    expect(categoryPathLabel('vitamins_minerals/vitamin_d')).toBe(
+      'Vitamins & Minerals › Vitamin D'
+    );
+  });
+
+  it('accepts a path as the category and splits it on load', () => {
+    const loaded = parseSNPListFile(
+      JSON.stringify({
+        version: '1',
+        variants: [{ ...entry('rs2282679', 'GC'), category: 'vitamins_minerals/vitamin_d' }],
+      }),
+      'panel.json'
+    );
+
+    expect(loaded.variants[0]).toMatchObject({
+      category: 'vitamins_minerals',
+      subcategory: 'vitamin_d',
+    });
+    expect(categoryPathOf(loaded.variants[0] as SNPEntry)).toBe('vitamins_minerals/vitamin_d');
+  });
+
+  it('reports malformed subcategories and tags', () => {
+    const report = checkSNPList({
+      version: '1',
+      variants: [
+        { ...entry('rs1', 'A', 'x'), sources: ['s'], category: 'methylation/Folate Cycle' },
+        { ...entry('rs2', 'B', 'x'), sources: ['s'], subcategory: 'a//b' },
+        { ...entry('rs3', 'C', 'x'), sources: ['s'], tags: ['ok', ''] },
+        {
+          ...entry('rs4', 'D', 'x'),
+          sources: ['s'],
+          category: 'methylation/folate',
+          subcategory: 'folate',
+        },
+      ],
+    });
+
+    expect(report.errors.map((issue) => issue.path)).toEqual([
+      'variants[0].category',
+      'variants[1].subcategory',
+      'variants[2].tags',
+      'variants[3].subcategory',
+    ]);
+  });
+
+  it('imports subcategory and tags columns', () => {
+    const imported = importDelimitedSNPList(
+      'rsid,gene,category,subcategory,tags\n' +
+        'rs2282679,GC,vitamins_minerals,Vitamin_D,bone_health;pregnancy\n' +
+        'rs602662,FUT2,vitamins_minerals/b12,,\n'
+    );
+
+    expect(imported.variants[0]).toMatchObject({
+      subcategory: 'vitamin_d',
+      tags: ['bone_health', 'pregnancy'],
+    });
+    expect(imported.variants[1]).toMatchObject({
+      category: 'vitamins_minerals',
+      subcategory: 'b12',
+    });
+  });
+
+  it('drops the old subcategory when an overlay changes the category', () => {
+    const recategorized = applySNPListOverlays(list, [
+      { name: 'move', replace: [{ rsid: 'rs2282679', category: 'lipids' }] },
+      { name: 'nest', replace: [{ rsid: 'rs602662', category: 'vitamins_minerals/b12/uptake' }] },
+    ]);
+
+    expect(recategorized.variants[0]?.subcategory).toBeUndefined();
+    expect(recategorized.variants[3]).toMatchObject({
+      category: 'vitamins_minerals',
+      subcategory: 'b12/uptake',
+    });
+  });
+
+  it('diffs a subcategory move as a recategorization', () => {
+    const moved = {
+      ...list,
+      variants: list.variants.map((e) =>
+        e.rsid === 'rs602662' ? { ...e, subcategory: 'b12/uptake' } : e
+      ),
+    };
+
+    const diff = diffSNPLists(list, moved);
+    expect(diff.summary.recategorized).toBe(1);
+    expect(diff.changed[0]?.changes).toEqual([
+      {
+        field: 'category',
+        before: 'vitamins_minerals/b12',
+        after: 'vitamins_minerals/b12/uptake',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Trio analysis tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeTrio, MIN_TRIO_OVERLAP } from '../src/trio';
+import type { GenomeVariant, MatchedVariant, ParseResult } from '../src/types';
+
+function parseResultOf(variants: GenomeVariant[]): ParseResult {
+  return { format: '23andme-v5', variants, metadata: {} };
+}
+
+// n autosomal variants with the given genotypes, cycling through them
+function variantsOf(n: number, genotypes: string[]): GenomeVariant[] {
+  return Array.from({ length: n }, (_, i) => ({
+    rsid: `rs${i}`,
+    chromosome: String((i % 22) + 1),
+    position: i + 1,
+    genotype: genotypes[i % genotypes.length]!,
+  }));
+}
+
+function trioOf(child: GenomeVariant[], mother: GenomeVariant[], father: GenomeVariant[]) {
+  return {
+    child: parseResultOf(child),
+    mother: { name: 'mother.txt', result: parseResultOf(mother) },
+    father: { name: 'father.txt', result: parseResultOf(father) },
+  };
+}
+
+function matched(rsid: string, genotype: string, riskAllele?: string): MatchedVariant {
+  const variant: MatchedVariant = {
+    rsid,
+    gene: 'GENE',
+    genotype,
+    category: 'methylation',
+    annotation: 'Test',
+    sources: ['Test'],
+    status: 'found',
+    matchedBy: 'rsid',
+  };
+  if (riskAllele) variant.riskAllele = riskAllele;
+  return variant;
+}
+
+const n = MIN_TRIO_OVERLAP * 2;
+
+describe('analyzeTrio', () => {
+  it('finds a consistent family', () => {
+    // Mother AA, father GG: every child is AG
+    const trio = analyzeTrio(
+      trioOf(variantsOf(n, ['AG']), variantsOf(n, ['AA']), variantsOf(n, ['GG'])),
+      []
+    );
+
+    expect(trio.status).toBe('consistent');
+    expect(trio.compared).toBe(n);
+    expect(trio.mendelianErrors).toBe(0);
+    expect(trio.errorRate).toBe(0);
+  });
+
+  it('blames the parent the child shares no allele with', () => {
+    const trio = analyzeTrio(
+      trioOf(variantsOf(n, ['AA', 'AG']), variantsOf(n, ['AA']), variantsOf(n, ['GG', 'AG'])),
+      []
+    );
+
+    // Half the SNPs pair a child AA with a father GG
+    expect(trio.fatherIncompatible).toBe(n / 2);
+    expect(trio.motherIncompatible).toBe(0);
+    expect(trio.status).toBe('father-mismatch');
+  });
+
+  it('needs enough SNPs called in all three files', () => {
+    const trio = analyzeTrio(
+      trioOf(variantsOf(n, ['AG']), variantsOf(n, ['AA', '--']), variantsOf(10, ['GG'])),
+      []
+    );
+
+    expect(trio.compared).toBe(5);
+    expect(trio.status).toBe('insufficient-data');
+  });
+
+  it('skips sex chromosomes and mitochondrial SNPs', () => {
+    const x = [{ rsid: 'rs1', chromosome: 'X', position: 1, genotype: 'AA' }];
+    const trio = analyzeTrio(trioOf(x, x, x), []);
+
+    expect(trio.compared).toBe(0);
+    expect(trio.errorRate).toBeNull();
+  });
+});
+
+describe('risk allele attribution', () => {
+  const parents = (mother: string, father: string) =>
+    trioOf(
+      [],
+      [{ rsid: 'rs1', chromosome: '1', position: 1, genotype: mother }],
+      [{ rsid: 'rs1', chromosome: '1', position: 1, genotype: father }]
+    );
+
+  it('attributes a heterozygous risk allele to the only parent who has it', () => {
+    const [variant] = analyzeTrio(parents('CC', 'CT'), [matched('rs1', 'CT', 'T')]).variants;
+
+    expect(variant).toMatchObject({
+      maternalAllele: 'C',
+      paternalAllele: 'T',
+      riskAlleleFrom: 'father',
+      mendelianError: false,
+    });
+  });
+
+  it('reports one copy from each parent for a homozygous child', () => {
+    const [variant] = analyzeTrio(parents('CT', 'TT'), [matched('rs1', 'TT', 'T')]).variants;
+    expect(variant?.riskAlleleFrom).toBe('both');
+  });
+
+  it('leaves the origin undetermined when both parents are heterozygous', () => {
+    const [variant] = analyzeTrio(parents('CT', 'CT'), [matched('rs1', 'CT', 'T')]).variants;
+
+    expect(variant?.riskAlleleFrom).toBe('undetermined');
+    expect(variant?.maternalAllele).toBeUndefined();
+  });
+
+  it('flags Mendelian errors without attributing alleles', () => {
+    const [variant] = analyzeTrio(parents('CC', 'CC'), [matched('rs1', 'TT', 'T')]).variants;
+
+    expect(variant?.mendelianError).toBe(true);
+    expect(variant?.riskAlleleFrom).toBeUndefined();
+  });
+
+  it('reads a flipped risk allele through the file genotype', () => {
+    const flipped = {
+      ...matched('rs1', 'CT', 'T'),
+      strand: 'flipped',
+      originalGenotype: 'GA',
+    } as const;
+    const [variant] = analyzeTrio(parents('GG', 'AA'), [flipped]).variants;
+
+    expect(variant).toMatchObject({ child: 'GA', paternalAllele: 'A', riskAlleleFrom: 'father' });
+  });
+
+  it('skips variants a parent has no call for', () => {
+    expect(analyzeTrio(parents('--', 'CT'), [matched('rs1', 'CT', 'T')]).variants).toEqual([]);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Worker pipeline tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createPipeline } from '../src/worker/pipeline';
+import type { PipelineResponse, WorkerStatus } from '../src/worker/protocol';
+import type { SNPList } from '../src/types';
+
+// Get __dirname equivalent for ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const sampleFile = readFileSync(join(__dirname, 'fixtures/sample-23andme.txt'));
+const sampleZip = readFileSync(join(__dirname, 'fixtures/sample-23andme.zip'));
+const myHeritageFile = readFileSync(join(__dirname, 'fixtures/sample-myheritage.csv'));
+
+const snpList: SNPList = {
+  version: '2025.01',
+  generatedAt: '2025-01-23T00:00:00Z',
+  count: 3,
+  variants: [
+    {
+      rsid: 'rs1801133',
+      gene: 'MTHFR',
+      category: 'methylation',
+      annotation: 'C677T variant',
+      sources: ['ClinVar'],
+    },
+    {
+      rsid: 'rs4680',
+      gene: 'COMT',
+      category: 'hormones_neurotransmitters',
+      annotation: 'Val158Met variant',
+      sources: ['PharmGKB'],
+    },
+    {
+      rsid: 'rs777777',
+      gene: 'MISSING',
+      category: 'other',
+      annotation: 'Not in genome file',
+      sources: ['Test'],
+    },
+  ],
+};
+
+// Collect every message the pipeline posts
+function createHarness() {
+  const messages: PipelineResponse[] = [];
+  const pipeline = createPipeline((message) => messages.push(message));
+
+  const statuses = (jobId: number): WorkerStatus[] =>
+    messages.flatMap((m) => (m.type === 'status' && m.jobId === jobId ? [m.status] : []));
+
+  return { pipeline, messages, statuses };
+}
+
+describe('createPipeline', () => {
+  it('parses a file with progress and reports a summary', async () => {
+    const { pipeline, statuses } = createHarness();
+    const file = new File([sampleFile], 'genome.txt');
+
+    await pipeline.handleMessage({ type: 'parse', jobId: 1, files: [file] });
+
+    const reported = statuses(1);
+    expect(reported.some((s) => s.state === 'parsing')).toBe(true);
+
+    const last = reported[reported.length - 1];
+    expect(last?.state).toBe('parsed');
+    if (last?.state === 'parsed') {
+      expect(last.file.filename).toBe('genome.txt');
+      expect(last.file.format).toBe('23andme-v5');
+      expect(last.file.variantCount).toBeGreaterThan(0);
+      expect(last.file.qc.totalVariants).toBe(last.file.variantCount);
+    }
+  });
+
+  it('merges several files into one summary', async () => {
+    const { pipeline, statuses } = createHarness();
+    const files = [
+      new File([sampleFile], 'genome.txt'),
+      new File([myHeritageFile], 'myheritage.csv'),
+    ];
+
+    await pipeline.handleMessage({ type: 'parse', jobId: 1, files });
+
+    const last = statuses(1).pop();
+    expect(last?.state).toBe('parsed');
+    if (last?.state === 'parsed') {
+      expect(last.file.filename).toBe('genome.txt + myheritage.csv');
+      expect(last.file.merge?.sources.map((s) => s.format)).toEqual(['23andme-v5', 'myheritage']);
+    }
+  });
+
+  it('decompresses archives before parsing', async () => {
+    const { pipeline, statuses } = createHarness();
+    const file = new File([sampleZip], 'genome.zip');
+
+    await pipeline.handleMessage({ type: 'parse', jobId: 1, files: [file] });
+
+    const reported = statuses(1);
+    expect(reported[0]?.state).toBe('reading');
+    expect(reported[reported.length - 1]?.state).toBe('parsed');
+  });
+
+  it('previews match counts for the loaded file', async () => {
+    const { pipeline, messages } = createHarness();
+    await pipeline.handleMessage({
+      type: 'parse',
+      jobId: 1,
+      files: [new File([sampleFile], 'genome.txt')],
+    });
+
+    await pipeline.handleMessage({
+      type: 'preview',
+      jobId: 2,
+      snpList,
+      categories: ['methylation', 'other'],
+    });
+
+    const response = messages.find((m) => m.type === 'preview' && m.jobId === 2);
+    expect(response?.type).toBe('preview');
+    if (response?.type === 'preview') {
+      expect(response.preview.matched).toBe(1);
+      expect(response.preview.missing).toBe(1);
+      expect(response.preview.byCategory.hormones_neurotransmitters).toBe(1);
+    }
+  });
+
+  it('extracts variants with matching progress', async () => {
+    const { pipeline, statuses } = createHarness();
+    await pipeline.handleMessage({
+      type: 'parse',
+      jobId: 1,
+      files: [new File([sampleFile], 'genome.txt')],
+    });
+
+    await pipeline.handleMessage({
+      type: 'extract',
+      jobId: 2,
+      snpList,
+      categories: ['methylation', 'hormones_neurotransmitters', 'other'],
+    });
+
+    const reported = statuses(2);
+    expect(reported.some((s) => s.state === 'matching')).toBe(true);
+
+    const last = reported[reported.length - 1];
+    expect(last?.state).toBe('complete');
+    if (last?.state === 'complete') {
+      expect(last.result.variants).toHaveLength(2);
+      expect(last.result.summary.missing).toBe(1);
+    }
+  });
+
+  it('reports cancellation of a running parse', async () => {
+    const { pipeline, statuses } = createHarness();
+    const parsing = pipeline.handleMessage({
+      type: 'parse',
+      jobId: 1,
+      files: [new File([sampleFile], 'genome.txt')],
+    });
+    await pipeline.handleMessage({ type: 'cancel', jobId: 1 });
+    await parsing;
+
+    const reported = statuses(1);
+    expect(reported[reported.length - 1]?.state).toBe('cancelled');
+  });
+
+  it('reports cancellation of a running extraction', async () => {
+    const { pipeline, statuses } = createHarness();
+    await pipeline.handleMessage({
+      type: 'parse',
+      jobId: 1,
+      files: [new File([sampleFile], 'genome.txt')],
+    });
+
+    const extracting = pipeline.handleMessage({
+      type: 'extract',
+      jobId: 2,
+      snpList,
+      categories: [],
+    });
+    await pipeline.handleMessage({ type: 'cancel', jobId: 2 });
+    await extracting;
+
+    const reported = statuses(2);
+    expect(reported.some((status) => status.state === 'complete')).toBe(false);
+    expect(reported[reported.length - 1]?.state).toBe('cancelled');
+  });
+
+  it('reports parse failures as serialized errors', async () => {
+    const { pipeline, statuses } = createHarness();
+    const file = new File(['not a genome file\n'], 'notes.txt');
+
+    await pipeline.handleMessage({ type: 'parse', jobId: 1, files: [file] });
+
+    const last = statuses(1).pop();
+    expect(last?.state).toBe('error');
+    if (last?.state === 'error') {
+      expect(last.error.message).toContain('Unable to detect file format');
+      expect(last.error.details).toContain('Supported formats');
+    }
+  });
+
+  it('rejects extraction before a file is loaded', async () => {
+    const { pipeline, statuses } = createHarness();
+
+    await pipeline.handleMessage({ type: 'extract', jobId: 1, snpList, categories: ['other'] });
+
+    const last = statuses(1).pop();
+    expect(last?.state).toBe('error');
+    if (last?.state === 'error') {
+      expect(last.error.message).toContain('No file loaded');
+    }
+  });
+});